@@ -1,22 +1,26 @@
 import React from 'react';
+import { ethers } from 'ethers';
 
 export type ChainConfig = {
     id: string;
     displayName: string;
     nativeTokenAddress: string;
     nativeSymbol: string;
-    coingeckoId: string;
-    defillamaPrefix: string;
+    // custom chains may not have a wrapped native token or a price source, in which case these are unset
+    wrappedNativeTokenAddress?: string;
+    coingeckoId?: string;
+    defillamaPrefix?: string;
     rpcUrl: string;
     blockexplorerUrl: string;
 };
 
-export const SupportedChains = [
+export const SupportedChains: ChainConfig[] = [
     {
         id: 'ethereum',
         displayName: 'Ethereum Mainnet',
         nativeTokenAddress: '0xeeeeeeeeeeeeeeeeeeeeeeeeeeeeeeeeeeeeeeee',
         nativeSymbol: 'ETH',
+        wrappedNativeTokenAddress: '0xC02aaA39b223FE8D0A0e5C4F27eAD9083C756Cc2',
         coingeckoId: 'coingecko:ethereum',
         defillamaPrefix: 'ethereum',
         rpcUrl: 'https://rpc.ankr.com/eth',
@@ -27,6 +31,7 @@ export const SupportedChains = [
         displayName: 'Polygon Mainnet',
         nativeTokenAddress: '0x0eeeeeeeeeeeeeeeeeeeeeeeeeeeeeeeeeeeeeee',
         nativeSymbol: 'MATIC',
+        wrappedNativeTokenAddress: '0x0d500B1d8E8eF31E21C99d1Db9A6444d3ADf1270',
         coingeckoId: 'coingecko:matic-network',
         defillamaPrefix: 'polygon',
         rpcUrl: 'https://rpc.ankr.com/polygon',
@@ -37,6 +42,7 @@ export const SupportedChains = [
         displayName: 'Optimism Mainnet',
         nativeTokenAddress: '0x1eeeeeeeeeeeeeeeeeeeeeeeeeeeeeeeeeeeeeee',
         nativeSymbol: 'ETH',
+        wrappedNativeTokenAddress: '0x4200000000000000000000000000000000000006',
         coingeckoId: 'coingecko:ethereum',
         defillamaPrefix: 'optimism',
         rpcUrl: 'https://mainnet.optimism.io',
@@ -47,6 +53,7 @@ export const SupportedChains = [
         displayName: 'Binance Mainnet',
         nativeTokenAddress: '0x2eeeeeeeeeeeeeeeeeeeeeeeeeeeeeeeeeeeeeee',
         nativeSymbol: 'BNB',
+        wrappedNativeTokenAddress: '0xbb4CdB9CBd36B01bD1cBaEBF2De08d9173bc095c',
         coingeckoId: 'coingecko:binancecoin',
         defillamaPrefix: 'bsc',
         rpcUrl: 'https://rpc.ankr.com/bsc',
@@ -57,6 +64,7 @@ export const SupportedChains = [
         displayName: 'Avalanche Mainnet',
         nativeTokenAddress: '0x3eeeeeeeeeeeeeeeeeeeeeeeeeeeeeeeeeeeeeee',
         nativeSymbol: 'AVAX',
+        wrappedNativeTokenAddress: '0xB31f66AA3C1e785363F0875A1B74E27b85FD66c7',
         coingeckoId: 'coingecko:avalanche-2',
         defillamaPrefix: 'avax',
         rpcUrl: 'https://rpc.ankr.com/avalanche',
@@ -67,6 +75,7 @@ export const SupportedChains = [
         displayName: 'Arbitrum Mainnet',
         nativeTokenAddress: '0x4eeeeeeeeeeeeeeeeeeeeeeeeeeeeeeeeeeeeeee',
         nativeSymbol: 'ETH',
+        wrappedNativeTokenAddress: '0x82aF49447D8a07e3bd95BD0d56f35241523fBab1',
         coingeckoId: 'coingecko:ethereum',
         defillamaPrefix: 'arbitrum',
         rpcUrl: 'https://arb1.arbitrum.io/rpc',
@@ -77,6 +86,7 @@ export const SupportedChains = [
         displayName: 'Fantom Mainnet',
         nativeTokenAddress: '0x5eeeeeeeeeeeeeeeeeeeeeeeeeeeeeeeeeeeeeee',
         nativeSymbol: 'FTM',
+        wrappedNativeTokenAddress: '0x21be370D5312f44cB42ce377BC9b8a0cEF1A4C83',
         coingeckoId: 'coingecko:fantom',
         defillamaPrefix: 'fantom',
         rpcUrl: 'https://rpcapi.fantom.network',
@@ -87,6 +97,7 @@ export const SupportedChains = [
         displayName: 'Moonbeam',
         nativeTokenAddress: '0x6eeeeeeeeeeeeeeeeeeeeeeeeeeeeeeeeeeeeeee',
         nativeSymbol: 'GLMR',
+        wrappedNativeTokenAddress: '0xAcc15dC74880C9944775448304B263D191c6077F',
         coingeckoId: 'coingecko:moonbeam',
         defillamaPrefix: 'moonbeam',
         rpcUrl: 'https://rpc.api.moonbeam.network',
@@ -97,6 +108,7 @@ export const SupportedChains = [
         displayName: 'Moonriver',
         nativeTokenAddress: '0x7eeeeeeeeeeeeeeeeeeeeeeeeeeeeeeeeeeeeeee',
         nativeSymbol: 'MOVR',
+        wrappedNativeTokenAddress: '0x98878B06940aE243284CA214f92Bb71a2b032B8A',
         coingeckoId: 'coingecko:moonriver',
         defillamaPrefix: 'moonriver',
         rpcUrl: 'https://rpc.moonriver.moonbeam.network',
@@ -104,8 +116,67 @@ export const SupportedChains = [
     },
 ];
 
+const prefChainsKey = 'pref:chains';
+
+// chains which the user added themselves, such as l2s we don't support yet or a local devnet
+export const getCustomChains = (): ChainConfig[] => {
+    if (typeof window === 'undefined') return [];
+
+    try {
+        return JSON.parse(window.localStorage.getItem(prefChainsKey) || '[]');
+    } catch {
+        return [];
+    }
+};
+
+export const saveCustomChains = (chains: ChainConfig[]) => {
+    window.localStorage.setItem(prefChainsKey, JSON.stringify(chains));
+};
+
+export const isCustomChain = (id: string): boolean => {
+    return !SupportedChains.find((chain) => chain.id === id);
+};
+
+export type CustomChainOptions = {
+    id: string;
+    displayName?: string;
+    rpcUrl: string;
+    nativeSymbol: string;
+    blockexplorerUrl: string;
+    wrappedNativeTokenAddress?: string;
+    coingeckoId?: string;
+    defillamaPrefix?: string;
+};
+
+export const newCustomChain = (opts: CustomChainOptions): ChainConfig => {
+    if (!/^[a-z0-9-]+$/.test(opts.id)) {
+        throw new Error('chain id must only contain lowercase letters, numbers, and dashes');
+    }
+    if (!isCustomChain(opts.id)) {
+        throw new Error(`${opts.id} is already supported`);
+    }
+
+    return {
+        id: opts.id,
+        displayName: opts.displayName || opts.id,
+        // every chain needs its own placeholder address for the native token, so derive one from the id
+        nativeTokenAddress: '0x' + ethers.utils.id(opts.id).substring(2, 6) + 'e'.repeat(36),
+        nativeSymbol: opts.nativeSymbol,
+        wrappedNativeTokenAddress: opts.wrappedNativeTokenAddress || undefined,
+        coingeckoId: opts.coingeckoId || undefined,
+        defillamaPrefix: opts.defillamaPrefix || undefined,
+        rpcUrl: opts.rpcUrl,
+        blockexplorerUrl: opts.blockexplorerUrl.replace(/\/+$/, ''),
+    };
+};
+
+// all chains which can be viewed, including custom chains
+export const getSupportedChains = (): ChainConfig[] => {
+    return [...SupportedChains, ...getCustomChains()];
+};
+
 export const getChain = (id: string): ChainConfig | undefined => {
-    return SupportedChains.find((chain) => chain.id === id);
+    return getSupportedChains().find((chain) => chain.id === id);
 };
 
 export const defaultChainConfig = (): ChainConfig => {
@@ -0,0 +1,114 @@
+import * as React from 'react';
+import { Button, Grid, Table, TableBody, TableCell, TableHead, TableRow, TextField, Typography } from '@mui/material';
+import { ChainConfig, CustomChainOptions, newCustomChain } from './Chains';
+
+type CustomChainsEditorProps = {
+    chains: ChainConfig[];
+    setChains: React.Dispatch<React.SetStateAction<ChainConfig[]>>;
+};
+
+const emptyOptions = (): CustomChainOptions => {
+    return {
+        id: '',
+        rpcUrl: '',
+        nativeSymbol: 'ETH',
+        blockexplorerUrl: '',
+    };
+};
+
+const fields: Array<{ key: keyof CustomChainOptions; label: string; placeholder?: string }> = [
+    { key: 'id', label: 'ID', placeholder: 'base' },
+    { key: 'displayName', label: 'Name', placeholder: 'Base Mainnet' },
+    { key: 'rpcUrl', label: 'RPC URL', placeholder: 'http://localhost:8545' },
+    { key: 'nativeSymbol', label: 'Native Symbol' },
+    { key: 'blockexplorerUrl', label: 'Explorer URL', placeholder: 'https://basescan.org' },
+    { key: 'wrappedNativeTokenAddress', label: 'Wrapped Native Token', placeholder: '0x...' },
+    { key: 'coingeckoId', label: 'Native Price ID', placeholder: 'coingecko:ethereum' },
+    { key: 'defillamaPrefix', label: 'DefiLlama Chain', placeholder: 'base' },
+];
+
+export const CustomChainsEditor = (props: CustomChainsEditorProps) => {
+    const { chains, setChains } = props;
+
+    const [options, setOptions] = React.useState<CustomChainOptions>(emptyOptions());
+    const [error, setError] = React.useState<string>();
+
+    const addChain = () => {
+        try {
+            if (chains.find((chain) => chain.id === options.id)) {
+                throw new Error(`${options.id} has already been added`);
+            }
+            if (!options.rpcUrl) {
+                throw new Error('an rpc url is required');
+            }
+
+            const chain = newCustomChain(options);
+            setChains((prevChains) => [...prevChains, chain]);
+            setOptions(emptyOptions());
+            setError(undefined);
+        } catch (e) {
+            setError(e instanceof Error ? e.message : String(e));
+        }
+    };
+
+    return (
+        <>
+            {chains.length > 0 ? (
+                <Table size={'small'}>
+                    <TableHead>
+                        <TableRow>
+                            <TableCell>ID</TableCell>
+                            <TableCell>Name</TableCell>
+                            <TableCell>RPC URL</TableCell>
+                            <TableCell>Symbol</TableCell>
+                            <TableCell>Price ID</TableCell>
+                            <TableCell />
+                        </TableRow>
+                    </TableHead>
+                    <TableBody>
+                        {chains.map((chain) => (
+                            <TableRow key={chain.id}>
+                                <TableCell>{chain.id}</TableCell>
+                                <TableCell>{chain.displayName}</TableCell>
+                                <TableCell>{chain.rpcUrl}</TableCell>
+                                <TableCell>{chain.nativeSymbol}</TableCell>
+                                <TableCell>{chain.coingeckoId || 'none'}</TableCell>
+                                <TableCell>
+                                    <Button
+                                        size={'small'}
+                                        onClick={() => setChains((prevChains) => prevChains.filter((v) => v !== chain))}
+                                    >
+                                        Remove
+                                    </Button>
+                                </TableCell>
+                            </TableRow>
+                        ))}
+                    </TableBody>
+                </Table>
+            ) : null}
+            <Grid container spacing={1} sx={{ marginTop: '6px' }}>
+                {fields.map((field) => (
+                    <Grid item xs={6} md={3} key={field.key}>
+                        <TextField
+                            size={'small'}
+                            variant={'standard'}
+                            fullWidth
+                            label={field.label}
+                            placeholder={field.placeholder}
+                            value={options[field.key] || ''}
+                            onChange={(event) => setOptions({ ...options, [field.key]: event.target.value })}
+                        />
+                    </Grid>
+                ))}
+            </Grid>
+            <Button size={'small'} onClick={addChain}>
+                Add Chain
+            </Button>
+            {error ? (
+                <Typography variant={'body2'} color={'#ed335f'}>
+                    {error}
+                </Typography>
+            ) : null}
+        </>
+    );
+};
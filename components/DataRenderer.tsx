@@ -5,7 +5,11 @@ import { useContext } from 'react';
 import { SpanIconButton } from './SpanIconButton';
 import ContentCopyIcon from '@mui/icons-material/ContentCopy';
 import { ChainConfig, ChainConfigContext, getChain } from './Chains';
-import { LabelMetadataContext } from './metadata/labels';
+import { applyCustomLabel, LabelInfo, LabelMetadataContext } from './metadata/labels';
+import { saveCustomLabels, submitLabel } from './labels/store';
+import { labelCategories } from './labels/categories';
+import { LabelCategoryChip } from './labels/LabelCategoryChip';
+import { isWatched, saveWatchlist, setWatched, WatchlistContext } from './watchlist/watchlist';
 import { Button, IconButton, Tooltip } from '@mui/material';
 import EditIcon from '@mui/icons-material/Edit';
 
@@ -58,6 +62,19 @@ let formatValueWithParamType = (
     return <>{encoded}</>;
 };
 
+const describeLabelSource = (info: LabelInfo): string => {
+    switch (info.source) {
+        case 'trace':
+            return 'Labelled by the trace source';
+        case 'precompile':
+            return 'Built in precompile';
+        case 'user':
+            return 'Your label';
+        case 'pack':
+            return info.pack ? `Imported from ${info.pack}` : 'Imported from a label pack';
+    }
+};
+
 type DataRendererProps = {
     labels?: Record<string, string>;
     data?: string;
@@ -71,6 +88,7 @@ type DataRendererProps = {
 export const DataRenderer = (props: DataRendererProps) => {
     const chainConfig = useContext(ChainConfigContext);
     const labelMetadata = useContext(LabelMetadataContext);
+    const watchlist = useContext(WatchlistContext);
 
     const abiCoder = ethers.utils.defaultAbiCoder;
 
@@ -146,52 +164,80 @@ export const DataRenderer = (props: DataRendererProps) => {
         );
 
         if (paramType.baseType === 'address') {
+            // labels which were passed in directly, such as token symbols, don't come from the address book
+            const labelInfo = props.labels ? undefined : labelMetadata.details[stringified.toLowerCase()];
+            const watched = isWatched(watchlist, chainConfig.id, stringified);
+
             rendered = (
                 <Tooltip
                     arrow
                     placement={'top'}
                     title={
-                        <span
-                            style={{ cursor: 'pointer' }}
-                            onClick={() => {
-                                const address = stringified.toLowerCase();
-
-                                let newLabel = prompt(
-                                    'Enter a new label',
-                                    (props.labels || labelMetadata.labels)[address] || address,
-                                );
-                                if (newLabel !== null && newLabel !== address) {
-                                    labelMetadata.updater((prevState) => {
-                                        const newState = { ...prevState };
-
-                                        if (!(chainConfig.id in newState.customLabels)) {
-                                            newState.customLabels[chainConfig.id] = {};
-                                        }
-                                        newState.labels[address] = newLabel || newState.labels[address];
-                                        newState.customLabels[chainConfig.id][address] = newLabel || '';
-                                        localStorage.setItem('pref:labels', JSON.stringify(newState.customLabels));
-
-                                        if (chainConfig.id === 'ethereum') {
-                                            fetch(`https://tags.eth.samczsun.com/api/v1/address/${address}`, {
-                                                method: 'POST',
-                                                body: JSON.stringify({
-                                                    label: newLabel,
-                                                }),
-                                            })
-                                                .then(console.log)
-                                                .catch(console.log);
-                                        }
-
-                                        return newState;
+                        <>
+                            {labelInfo ? (
+                                <>
+                                    {describeLabelSource(labelInfo)}
+                                    {labelInfo.category ? ` (${labelCategories[labelInfo.category].name})` : null}
+                                    <br />
+                                </>
+                            ) : null}
+                            <span
+                                style={{ cursor: 'pointer' }}
+                                onClick={() => {
+                                    const address = stringified.toLowerCase();
+
+                                    let newLabel = prompt(
+                                        'Enter a new label',
+                                        (props.labels || labelMetadata.labels)[address] || address,
+                                    );
+                                    if (newLabel !== null && newLabel !== address) {
+                                        labelMetadata.updater((prevState) => {
+                                            const newState = applyCustomLabel(
+                                                prevState,
+                                                chainConfig.id,
+                                                address,
+                                                newLabel || '',
+                                            );
+                                            saveCustomLabels(newState.customLabels);
+
+                                            if (newLabel) {
+                                                submitLabel(chainConfig.id, address, newLabel);
+                                            }
+
+                                            return newState;
+                                        });
+                                    }
+                                }}
+                            >
+                                [Edit Label]
+                            </span>
+                            &nbsp;
+                            <span
+                                style={{ cursor: 'pointer' }}
+                                onClick={() => {
+                                    watchlist.updater((prevState) => {
+                                        const addresses = setWatched(
+                                            prevState.addresses,
+                                            chainConfig.id,
+                                            stringified,
+                                            !watched,
+                                        );
+                                        saveWatchlist(addresses);
+                                        return { ...prevState, addresses: addresses };
                                     });
-                                }
-                            }}
-                        >
-                            [Edit Label]
-                        </span>
+                                }}
+                            >
+                                {watched ? '[Unwatch]' : '[Watch]'}
+                            </span>
+                        </>
                     }
                 >
-                    {rendered}
+                    <span style={watched ? { backgroundColor: '#fff59d', outline: '1px solid #f9a825' } : undefined}>
+                        {rendered}
+                        {labelInfo?.category ? (
+                            <LabelCategoryChip category={labelInfo.category} color={labelInfo.color} dense />
+                        ) : null}
+                    </span>
                 </Tooltip>
             );
         }
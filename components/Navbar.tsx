@@ -6,10 +6,11 @@ import { Box } from '@mui/system';
 import Image from 'next/image';
 import Link from 'next/link';
 import { useRouter } from 'next/router';
-import { SupportedChains } from './Chains';
-import { DarkMode, GitHub, LightMode, Twitter } from '@mui/icons-material';
+import { getSupportedChains, SupportedChains } from './Chains';
+import { DarkMode, GitHub, LabelOutlined, LightMode, Settings, Twitter, UploadFile } from '@mui/icons-material';
 import { useContext } from 'react';
 import { SearchMetadataContext } from './metadata/search';
+import { SettingsDialog } from './SettingsDialog';
 
 function Navbar() {
     const router = useRouter();
@@ -19,6 +20,12 @@ function Navbar() {
     const [chain, setChain] = React.useState('ethereum');
     const [txhash, setTxhash] = React.useState('');
 
+    // custom chains are only known on the client, so start with the built in chains to avoid a hydration mismatch
+    const [chains, setChains] = React.useState(SupportedChains);
+    React.useEffect(() => {
+        setChains(getSupportedChains());
+    }, []);
+
     React.useEffect(() => {
         if (!queryChain || Array.isArray(queryChain)) return;
         if (!queryTxhash || Array.isArray(queryTxhash)) return;
@@ -41,6 +48,7 @@ function Navbar() {
         return false;
     })();
     const [darkMode, setDarkMode] = React.useState(initialDarkValue);
+    const [settingsOpen, setSettingsOpen] = React.useState(false);
     React.useEffect(() => {
         window.localStorage.setItem(prefDarkKey, JSON.stringify(darkMode));
     }, [darkMode]);
@@ -82,8 +90,18 @@ function Navbar() {
                             </Link>
                         </div>
                         <h1 className="md:text-xl text-sm -tracking-wider font-inter">Ethereum Transaction Viewer</h1>
+                        <div className="md:w-5 w-4 my-auto mr-4 flex ml-auto hover:opacity-60 cursor-pointer">
+                            <Link href={'/local'}>
+                                <UploadFile titleAccess="Open a local trace" />
+                            </Link>
+                        </div>
+                        <div className="md:w-5 w-4 my-auto mr-4 flex hover:opacity-60 cursor-pointer">
+                            <Link href={'/labels'}>
+                                <LabelOutlined titleAccess="Manage labels" />
+                            </Link>
+                        </div>
                         <a
-                            className="md:w-5 w-4 my-auto mr-4 flex ml-auto hover:opacity-60"
+                            className="md:w-5 w-4 my-auto mr-4 flex hover:opacity-60"
                             href="https://github.com/samczsun/ethereum-transaction-viewer-frontend"
                             target={'_blank'}
                             rel={'noreferrer noopener'}
@@ -104,6 +122,18 @@ function Navbar() {
                         >
                             {darkMode ? <LightMode /> : <DarkMode />}
                         </button>
+                        <button
+                            className="md:w-5 w-4 my-auto mr-4 flex hover:opacity-60"
+                            onClick={() => setSettingsOpen(true)}
+                        >
+                            <Settings titleAccess="Trace sources" />
+                        </button>
+                        <SettingsDialog
+                            open={settingsOpen}
+                            setOpen={setSettingsOpen}
+                            // the trace is only loaded once, so reload to pick up the new source
+                            onSave={() => router.reload()}
+                        />
                     </div>
 
                     <div className="h-[1px] w-full bg-[#0000002d] dark:bg-[#ffffff61]"></div>
@@ -115,9 +145,10 @@ function Navbar() {
                     >
                         <select
                             className="outline-1 outline outline-[#0000002d] py-2 px-3 mr-[1px]"
+                            value={chain}
                             onChange={(event) => setChain(event.target.value)}
                         >
-                            {SupportedChains.map((v) => {
+                            {chains.map((v) => {
                                 return (
                                     <option key={v.id} value={v.id}>
                                         {v.displayName}
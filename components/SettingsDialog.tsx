@@ -0,0 +1,200 @@
+import * as React from 'react';
+import {
+    Button,
+    Dialog,
+    DialogActions,
+    DialogContent,
+    DialogTitle,
+    MenuItem,
+    Table,
+    TableBody,
+    TableCell,
+    TableHead,
+    TableRow,
+    TextField,
+    Typography,
+} from '@mui/material';
+import { ChainConfig, getCustomChains, saveCustomChains, SupportedChains } from './Chains';
+import { CustomChainsEditor } from './CustomChainsEditor';
+import {
+    ChainSourceSettings,
+    getChainSourceSettings,
+    loadSourceSettings,
+    PriceSourceKind,
+    priceSourceKinds,
+    saveSourceSettings,
+    SourceSettings,
+    TraceSourceKind,
+    traceSourceKinds,
+} from './sources';
+
+type SettingsDialogProps = {
+    open: boolean;
+    setOpen: React.Dispatch<React.SetStateAction<boolean>>;
+
+    // called after the settings have been saved
+    onSave: () => void;
+};
+
+export const SettingsDialog = (props: SettingsDialogProps) => {
+    const { open, setOpen, onSave } = props;
+
+    const [settings, setSettings] = React.useState<SourceSettings>({});
+    const [customChains, setCustomChains] = React.useState<ChainConfig[]>([]);
+
+    // reload every time the dialog is opened, so that cancelling discards any edits
+    React.useEffect(() => {
+        if (!open) return;
+
+        setSettings(loadSourceSettings());
+        setCustomChains(getCustomChains());
+    }, [open]);
+
+    const updateChain = (chain: string, update: Partial<ChainSourceSettings>) => {
+        setSettings((prevSettings) => {
+            return {
+                ...prevSettings,
+                [chain]: {
+                    ...getChainSourceSettings(chain, prevSettings),
+                    ...update,
+                },
+            };
+        });
+    };
+
+    // the self-hosted source can't load anything without a backend url, so don't let it be saved that way
+    const missingBackendUrl = [...SupportedChains, ...customChains].some((chain) => {
+        const chainSettings = getChainSourceSettings(chain.id, settings);
+        return chainSettings.traceSource === 'self-hosted' && !chainSettings.backendUrl;
+    });
+
+    return (
+        <Dialog className={'dark:invert'} open={open} onClose={() => setOpen(false)} maxWidth={'lg'}>
+            <DialogTitle>Settings</DialogTitle>
+            <DialogContent>
+                <Typography variant={'h6'}>Trace Sources</Typography>
+                <Table size={'small'}>
+                    <TableHead>
+                        <TableRow>
+                            <TableCell>Chain</TableCell>
+                            <TableCell>Trace Source</TableCell>
+                            <TableCell>Backend URL</TableCell>
+                            <TableCell>RPC URL</TableCell>
+                            <TableCell>Price Source</TableCell>
+                            <TableCell>Price File URL</TableCell>
+                        </TableRow>
+                    </TableHead>
+                    <TableBody>
+                        {[...SupportedChains, ...customChains].map((chain) => {
+                            const chainSettings = getChainSourceSettings(chain.id, settings);
+
+                            return (
+                                <TableRow key={chain.id}>
+                                    <TableCell>{chain.displayName}</TableCell>
+                                    <TableCell>
+                                        <TextField
+                                            select
+                                            size={'small'}
+                                            variant={'standard'}
+                                            value={chainSettings.traceSource}
+                                            onChange={(event) =>
+                                                updateChain(chain.id, {
+                                                    traceSource: event.target.value as TraceSourceKind,
+                                                })
+                                            }
+                                        >
+                                            {Object.entries(traceSourceKinds).map(([kind, name]) => (
+                                                <MenuItem key={kind} value={kind}>
+                                                    {name}
+                                                </MenuItem>
+                                            ))}
+                                        </TextField>
+                                    </TableCell>
+                                    <TableCell>
+                                        <TextField
+                                            size={'small'}
+                                            variant={'standard'}
+                                            placeholder={'https://...'}
+                                            disabled={chainSettings.traceSource !== 'self-hosted'}
+                                            error={
+                                                chainSettings.traceSource === 'self-hosted' && !chainSettings.backendUrl
+                                            }
+                                            value={chainSettings.backendUrl || ''}
+                                            onChange={(event) =>
+                                                updateChain(chain.id, { backendUrl: event.target.value || undefined })
+                                            }
+                                        />
+                                    </TableCell>
+                                    <TableCell>
+                                        <TextField
+                                            size={'small'}
+                                            variant={'standard'}
+                                            placeholder={chain.rpcUrl}
+                                            value={chainSettings.rpcUrl || ''}
+                                            onChange={(event) =>
+                                                updateChain(chain.id, { rpcUrl: event.target.value || undefined })
+                                            }
+                                        />
+                                    </TableCell>
+                                    <TableCell>
+                                        <TextField
+                                            select
+                                            size={'small'}
+                                            variant={'standard'}
+                                            value={chainSettings.priceSource || 'defillama'}
+                                            onChange={(event) =>
+                                                updateChain(chain.id, {
+                                                    priceSource: event.target.value as PriceSourceKind,
+                                                })
+                                            }
+                                        >
+                                            {Object.entries(priceSourceKinds).map(([kind, name]) => (
+                                                <MenuItem key={kind} value={kind}>
+                                                    {name}
+                                                </MenuItem>
+                                            ))}
+                                        </TextField>
+                                    </TableCell>
+                                    <TableCell>
+                                        <TextField
+                                            size={'small'}
+                                            variant={'standard'}
+                                            placeholder={'https://.../prices.json'}
+                                            disabled={chainSettings.priceSource !== 'static'}
+                                            error={
+                                                chainSettings.priceSource === 'static' && !chainSettings.priceFileUrl
+                                            }
+                                            value={chainSettings.priceFileUrl || ''}
+                                            onChange={(event) =>
+                                                updateChain(chain.id, { priceFileUrl: event.target.value || undefined })
+                                            }
+                                        />
+                                    </TableCell>
+                                </TableRow>
+                            );
+                        })}
+                    </TableBody>
+                </Table>
+
+                <Typography variant={'h6'} sx={{ marginTop: '12px' }}>
+                    Custom Chains
+                </Typography>
+                <CustomChainsEditor chains={customChains} setChains={setCustomChains} />
+            </DialogContent>
+            <DialogActions>
+                <Button onClick={() => setOpen(false)}>Cancel</Button>
+                <Button
+                    disabled={missingBackendUrl}
+                    onClick={() => {
+                        saveSourceSettings(settings);
+                        saveCustomChains(customChains);
+                        setOpen(false);
+                        onSave();
+                    }}
+                >
+                    Save
+                </Button>
+            </DialogActions>
+        </Dialog>
+    );
+};
@@ -0,0 +1,242 @@
+import * as React from 'react';
+import { Typography } from '@mui/material';
+import { BaseProvider } from '@ethersproject/providers';
+import { Result, TraceMetadata } from './types';
+import { TransactionInfo } from './transaction-info/TransactionInfo';
+import { DecodeTree } from './decoder/DecodeTree';
+import { ChainConfig, ChainConfigContext } from './Chains';
+import { ValueChange } from './value-change/ValueChange';
+import { PriceMetadata, PriceMetadataContext } from './metadata/prices';
+import { TokenMetadata, TokenMetadataContext } from './metadata/tokens';
+import { TraceFocusRequest, TraceTree } from './trace/TraceTree';
+import { LabelMetadata, LabelMetadataContext } from './metadata/labels';
+import { TransactionMetadata, TransactionMetadataContext } from './metadata/transaction';
+import { TraceResponse } from './api';
+import { defaultWatchlist, loadWatchlist, Watchlist, WatchlistContext } from './watchlist/watchlist';
+import { WatchlistSummary } from './watchlist/WatchlistSummary';
+import { GasProfiler } from './gas/GasProfiler';
+
+export type TransactionViewProps = {
+    chainConfig: ChainConfig;
+
+    // not available when viewing a local trace
+    provider?: BaseProvider;
+
+    // undefined while loading. if it failed to load, everything which can be rendered from the trace alone still is
+    transactionMetadata?: Result<TransactionMetadata>;
+
+    traceResult?: TraceResponse;
+    traceMetadata?: TraceMetadata;
+    // set if the trace couldn't be loaded from the trace source
+    traceError?: any;
+
+    labelMetadata: LabelMetadata;
+    priceMetadata: PriceMetadata;
+    tokenMetadata: TokenMetadata;
+};
+
+// renders every section for a single transaction, regardless of where the data came from
+export const TransactionView = (props: TransactionViewProps) => {
+    const {
+        chainConfig,
+        provider,
+        transactionMetadata,
+        traceResult,
+        traceMetadata,
+        traceError,
+        labelMetadata,
+        priceMetadata,
+        tokenMetadata,
+    } = props;
+
+    const [traceFocusRequest, setTraceFocusRequest] = React.useState<TraceFocusRequest>();
+
+    // the watchlist lives in local storage, so it can only be loaded on the client
+    const [watchlist, setWatchlist] = React.useState<Watchlist>(defaultWatchlist());
+    React.useEffect(() => {
+        setWatchlist({
+            updater: setWatchlist,
+            addresses: loadWatchlist(),
+        });
+    }, []);
+
+    // fall back to the default context if the transaction couldn't be loaded
+    const transactionMetadataValue =
+        transactionMetadata && transactionMetadata.ok ? transactionMetadata.result : ({} as TransactionMetadata);
+
+    let transactionInfoGrid;
+    if (transactionMetadata) {
+        if (transactionMetadata.ok) {
+            transactionInfoGrid = (
+                <TransactionMetadataContext.Provider value={transactionMetadata.result}>
+                    <ChainConfigContext.Provider value={chainConfig}>
+                        <LabelMetadataContext.Provider value={labelMetadata}>
+                            <PriceMetadataContext.Provider value={priceMetadata}>
+                                <TransactionInfo traceResult={traceResult} />
+                            </PriceMetadataContext.Provider>
+                        </LabelMetadataContext.Provider>
+                    </ChainConfigContext.Provider>
+                </TransactionMetadataContext.Provider>
+            );
+        } else {
+            transactionInfoGrid = <>Failed to load transaction: {String(transactionMetadata.error)}</>;
+        }
+    }
+
+    const traceFailed = traceError ? <>Failed to load trace: {String(traceError)}</> : undefined;
+
+    let valueChanges;
+    if (transactionMetadata && traceResult && traceMetadata) {
+        valueChanges = (
+            <TransactionMetadataContext.Provider value={transactionMetadataValue}>
+                <ChainConfigContext.Provider value={chainConfig}>
+                    <LabelMetadataContext.Provider value={labelMetadata}>
+                        <PriceMetadataContext.Provider value={priceMetadata}>
+                            <TokenMetadataContext.Provider value={tokenMetadata}>
+                                <ValueChange
+                                    traceResult={traceResult}
+                                    traceMetadata={traceMetadata}
+                                    provider={provider}
+                                />
+                            </TokenMetadataContext.Provider>
+                        </PriceMetadataContext.Provider>
+                    </LabelMetadataContext.Provider>
+                </ChainConfigContext.Provider>
+            </TransactionMetadataContext.Provider>
+        );
+    }
+
+    let watchlistSummary;
+    if (traceResult) {
+        watchlistSummary = (
+            <ChainConfigContext.Provider value={chainConfig}>
+                <LabelMetadataContext.Provider value={labelMetadata}>
+                    <WatchlistSummary
+                        traceResult={traceResult}
+                        focusTraceNode={(path) => setTraceFocusRequest({ path })}
+                    />
+                </LabelMetadataContext.Provider>
+            </ChainConfigContext.Provider>
+        );
+    }
+
+    let transactionActions;
+    if (transactionMetadata && traceResult && traceMetadata) {
+        transactionActions = (
+            <TransactionMetadataContext.Provider value={transactionMetadataValue}>
+                <ChainConfigContext.Provider value={chainConfig}>
+                    <LabelMetadataContext.Provider value={labelMetadata}>
+                        <PriceMetadataContext.Provider value={priceMetadata}>
+                            <TokenMetadataContext.Provider value={tokenMetadata}>
+                                <DecodeTree
+                                    traceResult={traceResult}
+                                    traceMetadata={traceMetadata}
+                                    provider={provider}
+                                    focusTraceNode={(path) => setTraceFocusRequest({ path })}
+                                />
+                            </TokenMetadataContext.Provider>
+                        </PriceMetadataContext.Provider>
+                    </LabelMetadataContext.Provider>
+                </ChainConfigContext.Provider>
+            </TransactionMetadataContext.Provider>
+        );
+    }
+
+    let gasProfiler;
+    if (traceResult && traceMetadata) {
+        gasProfiler = (
+            <ChainConfigContext.Provider value={chainConfig}>
+                <LabelMetadataContext.Provider value={labelMetadata}>
+                    <GasProfiler
+                        traceResult={traceResult}
+                        traceMetadata={traceMetadata}
+                        focusTraceNode={(path) => setTraceFocusRequest({ path })}
+                    />
+                </LabelMetadataContext.Provider>
+            </ChainConfigContext.Provider>
+        );
+    }
+
+    let traceTree;
+    if (traceResult && traceMetadata) {
+        traceTree = (
+            <ChainConfigContext.Provider value={chainConfig}>
+                <LabelMetadataContext.Provider value={labelMetadata}>
+                    <TraceTree
+                        traceResult={traceResult}
+                        traceMetadata={traceMetadata}
+                        focusRequest={traceFocusRequest}
+                    />
+                </LabelMetadataContext.Provider>
+            </ChainConfigContext.Provider>
+        );
+    }
+
+    return (
+        <WatchlistContext.Provider value={watchlist}>
+            <Typography variant={'h6'} className="dark:invert">
+                Transaction Info
+            </Typography>
+            {transactionInfoGrid ? (
+                <span className="dark:invert">{transactionInfoGrid}</span>
+            ) : (
+                <Typography variant={'body1'} className="dark:invert">
+                    Loading...
+                </Typography>
+            )}
+
+            <Typography variant={'h6'} className="dark:invert">
+                Value Changes
+            </Typography>
+            {valueChanges || traceFailed ? (
+                <span className="dark:invert">{valueChanges || traceFailed}</span>
+            ) : (
+                <Typography variant={'body1'} className="dark:invert">
+                    Loading...
+                </Typography>
+            )}
+
+            {watchlistSummary ? (
+                <>
+                    <Typography variant={'h6'} className="dark:invert">
+                        Watchlist
+                    </Typography>
+                    <span className="dark:invert">{watchlistSummary}</span>
+                </>
+            ) : null}
+
+            <Typography variant={'h6'} className="dark:invert">
+                Decoded Actions
+            </Typography>
+            {transactionActions || traceFailed ? (
+                <span className="dark:invert">{transactionActions || traceFailed}</span>
+            ) : (
+                <Typography variant={'body1'} className="dark:invert">
+                    Loading...
+                </Typography>
+            )}
+
+            <Typography variant={'h6'} className="dark:invert">
+                Gas Profile
+            </Typography>
+            {gasProfiler || traceFailed ? (
+                <span className="dark:invert">{gasProfiler || traceFailed}</span>
+            ) : (
+                <Typography variant={'body1'} className="dark:invert">
+                    Loading...
+                </Typography>
+            )}
+
+            <Typography variant={'h6'} className="dark:invert">
+                Call Trace
+            </Typography>
+            {traceTree || traceFailed ? (
+                <span className="dark:invert">{traceTree || traceFailed}</span>
+            ) : (
+                <Typography variant={'body1'} className="dark:invert">
+                    Loading...
+                </Typography>
+            )}
+        </WatchlistContext.Provider>
+    );
+};
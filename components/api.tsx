@@ -1,4 +1,5 @@
 import { JsonFragment } from '@ethersproject/abi';
+import { RenderedAction } from './decoder/rendered';
 
 export type AddressInfo = {
     label: string;
@@ -52,6 +53,24 @@ export type TraceResponse = {
     entrypoint: TraceEntryCall;
 };
 
+export type DecodedActionResponse = {
+    // the path of the trace node which produced the action
+    path: string;
+    action: Record<string, any>;
+    rendered: RenderedAction;
+    text: string;
+};
+export type DecodeResponse = {
+    chain: string;
+    txhash: string;
+    actions: DecodedActionResponse[];
+    coverage: {
+        total: number;
+        unexplained: Array<{ type: 'call' | 'log'; path: string }>;
+    };
+    tokens: string[];
+};
+
 export type StorageResponse = {
     allStructs: any[];
     arrays: any[];
@@ -72,8 +91,8 @@ export type APIResponseSuccess<T> = {
     result: T;
 };
 export type APIResponse<T> = APIResponseError | APIResponseSuccess<T>;
-export const doApiRequest = async <T,>(path: string, init?: RequestInit): Promise<T> => {
-    return fetch(`${apiEndpoint()}${path}`, init)
+export const doApiRequest = async <T,>(path: string, init?: RequestInit, endpoint = apiEndpoint()): Promise<T> => {
+    return fetch(`${endpoint}${path}`, init)
         .then((res) => res.json())
         .then((json) => json as APIResponse<T>)
         .then((resp) => {
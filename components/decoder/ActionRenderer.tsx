@@ -0,0 +1,112 @@
+import * as React from 'react';
+import { Tooltip } from '@mui/material';
+import WithSeparator from 'react-with-separator';
+import humanizeDuration from 'humanize-duration';
+import { DateTime } from 'luxon';
+import { DataRenderer } from '../DataRenderer';
+import { TraceTreeNodeLabel } from '../trace/TraceTreeItem';
+import { RenderedAction, RenderedValue } from './rendered';
+
+const formatTimestamp = (timestamp: number): string => {
+    return DateTime.fromSeconds(timestamp).toFormat('yyyy-MM-dd hh:mm:ss ZZZZ');
+};
+
+type RenderedValueViewProps = {
+    value: RenderedValue;
+};
+
+export const RenderedValueView = (props: RenderedValueViewProps) => {
+    const { value } = props;
+
+    switch (value.type) {
+        case 'address':
+            return <DataRenderer preferredType={'address'} data={value.address} />;
+        case 'usd':
+            return <>{value.value}</>;
+        case 'token-amount': {
+            const labels = value.symbol ? { [value.token]: value.symbol } : undefined;
+
+            let price;
+            if (value.historicalValue) {
+                price = (
+                    <>
+                        &nbsp;(
+                        <Tooltip
+                            title={value.currentValue ? value.currentValue.value + ' today' : 'Current price unknown'}
+                        >
+                            <span>{value.historicalValue.value}</span>
+                        </Tooltip>
+                        )
+                    </>
+                );
+            }
+
+            return (
+                <>
+                    {value.unlimited ? <span style={{ color: '#ed335f' }}>unlimited</span> : value.formattedAmount}
+                    &nbsp;
+                    <span style={{ color: '#7b9726' }}>
+                        <DataRenderer labels={labels} preferredType={'address'} data={value.token} />
+                    </span>
+                    {value.unlimited ? null : price}
+                </>
+            );
+        }
+        case 'nft': {
+            const labels = value.name ? { [value.token]: value.name } : undefined;
+
+            return (
+                <>
+                    {value.amount !== undefined ? <>{value.amount}&nbsp;×&nbsp;</> : null}
+                    <span style={{ color: '#7b9726' }}>
+                        <DataRenderer labels={labels} preferredType={'address'} data={value.token} />#{value.tokenId}
+                    </span>
+                </>
+            );
+        }
+        case 'timestamp':
+            return <>{formatTimestamp(value.timestamp)}</>;
+        case 'duration':
+            return (
+                <Tooltip title={humanizeDuration(value.seconds * 1000)}>
+                    <span>{formatTimestamp(value.start + value.seconds)}</span>
+                </Tooltip>
+            );
+        case 'text':
+            return <span style={value.color ? { color: value.color } : undefined}>{value.text}</span>;
+        case 'list':
+            return (
+                <WithSeparator separator={<>,&nbsp;</>}>
+                    {value.values.map((v, idx) => (
+                        <RenderedValueView key={`value_${idx}`} value={v} />
+                    ))}
+                </WithSeparator>
+            );
+    }
+};
+
+type ActionRendererProps = {
+    action: RenderedAction;
+};
+
+// renders a single action, without any of its children
+export const ActionRenderer = (props: ActionRendererProps) => {
+    const { action } = props;
+
+    return (
+        <>
+            <TraceTreeNodeLabel nodeType={action.label} nodeColor={action.color} />
+            &nbsp;
+            <WithSeparator separator={<>,&nbsp;</>}>
+                {action.fields.map((field, idx) => {
+                    return (
+                        <React.Fragment key={`param_${idx}`}>
+                            <span style={{ color: '#a8a19f' }}>{field.name}</span>=
+                            <RenderedValueView value={field.value} />
+                        </React.Fragment>
+                    );
+                })}
+            </WithSeparator>
+        </>
+    );
+};
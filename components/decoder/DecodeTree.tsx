@@ -3,22 +3,31 @@ import TreeView from '@mui/lab/TreeView';
 import ExpandMoreIcon from '@mui/icons-material/ExpandMore';
 import ChevronRightIcon from '@mui/icons-material/ChevronRight';
 import * as React from 'react';
-import { TraceTreeItem } from '../trace/TraceTreeItem';
-import { DecoderOutput, getNodeId } from './types';
-import { fetchDefiLlamaPrices, PriceMetadata, PriceMetadataContext } from '../metadata/prices';
+import { TraceTreeItem, TraceTreeNodeLabel } from '../trace/TraceTreeItem';
+import { DecoderCoverage, DecoderOutput, getNodeId } from './types';
+import { RenderedAction } from './rendered';
+import { ActionRenderer } from './ActionRenderer';
+import { fetchPrices, PriceMetadata, PriceMetadataContext } from '../metadata/prices';
 import { fetchTokenMetadata, TokenMetadata, TokenMetadataContext } from '../metadata/tokens';
 import { LabelMetadataContext } from '../metadata/labels';
 import { useContext } from 'react';
-import { TraceResponse } from '../api';
+import { TraceEntryCall, TraceEntryLog, TraceResponse } from '../api';
 import { TraceMetadata } from '../types';
 import { ChainConfigContext } from '../Chains';
-import { TransactionMetadataContext } from '../metadata/transaction';
+import { getBlockTimestamp, getPriceQuery, TransactionMetadataContext } from '../metadata/transaction';
 import { BaseProvider } from '@ethersproject/providers';
+import { LogTraceTreeItem } from '../trace/LogTraceTreeItem';
+import { callColor } from '../trace/CallTraceTreeItem';
+import { DataRenderer } from '../DataRenderer';
 
 export type DecodeTreeProps = {
-    provider: BaseProvider;
+    // not available when viewing a local trace, in which case token metadata isn't fetched
+    provider?: BaseProvider;
     traceResult: TraceResponse;
     traceMetadata: TraceMetadata;
+
+    // optional: called when the user wants to see a node in the call trace
+    focusTraceNode?: (path: string) => void;
 };
 
 export const DecodeTree = (props: DecodeTreeProps) => {
@@ -27,17 +36,26 @@ export const DecodeTree = (props: DecodeTreeProps) => {
     const transactionMetadata = useContext(TransactionMetadataContext);
     const chainConfig = useContext(ChainConfigContext);
 
-    const [decodedActions, requestedMetadata] = React.useMemo(() => {
+    const [decodedActions, requestedMetadata, coverage] = React.useMemo(() => {
         return decode(props.traceResult, props.traceMetadata);
     }, [props.traceResult, props.traceMetadata]);
 
-    fetchDefiLlamaPrices(
+    fetchPrices(
         priceMetadata.updater,
-        Array.from(requestedMetadata.tokens).map((token) => `${chainConfig.defillamaPrefix}:${token}`),
-        transactionMetadata.block.timestamp,
-    );
+        priceMetadata.source,
+        chainConfig,
+        requestedMetadata.tokens,
+        getPriceQuery(transactionMetadata),
+    ).catch((e) => console.log('failed to fetch prices', e));
 
-    fetchTokenMetadata(tokenMetadata.updater, props.provider, Array.from(requestedMetadata.tokens));
+    if (props.provider) {
+        fetchTokenMetadata(
+            tokenMetadata.updater,
+            props.provider,
+            chainConfig.id,
+            Array.from(requestedMetadata.tokens),
+        ).catch((e) => console.log('failed to fetch token metadata', e));
+    }
 
     const recursivelyGenerateTree = (node: DecoderOutput): JSX.Element[] => {
         let results: JSX.Element[] = [];
@@ -51,27 +69,94 @@ export const DecodeTree = (props: DecodeTreeProps) => {
         }
 
         return node.results.map((v, i) => {
-            let id = getNodeId(node.node) + '.result_' + i;
+            const rendered = format(v, {
+                timestamp: getBlockTimestamp(transactionMetadata),
+                chain: chainConfig.id,
+                prices: priceMetadata,
+                tokens: tokenMetadata,
+            });
+            return renderAction(rendered, getNodeId(node.node) + '.result_' + i, results);
+        });
+    };
+
+    const renderAction = (action: RenderedAction, id: string, children: JSX.Element[]): JSX.Element => {
+        const nestedActions = (action.children || []).map((v, i) => renderAction(v, id + '.child_' + i, []));
+
+        return (
+            <TraceTreeItem key={id} nodeId={id} treeContent={<ActionRenderer action={action} />}>
+                {[...nestedActions, ...children]}
+            </TraceTreeItem>
+        );
+    };
+
+    const renderCoverage = (coverage: DecoderCoverage): JSX.Element => {
+        const explained = coverage.total - coverage.unexplained.length;
+        const percentage = coverage.total > 0 ? Math.floor((explained / coverage.total) * 100) : 100;
+
+        const unexplainedItems = coverage.unexplained.map((unexplained) => {
+            const focus = () => props.focusTraceNode?.(unexplained.path);
+
+            const traceNode = props.traceMetadata.nodesByPath[unexplained.path];
+            if (unexplained.type === 'log') {
+                return (
+                    <LogTraceTreeItem
+                        key={'unexplained.' + unexplained.path}
+                        onClick={focus}
+                        showAddress={true}
+                        traceResult={props.traceResult}
+                        traceMetadata={props.traceMetadata}
+                        node={traceNode as TraceEntryLog}
+                    />
+                );
+            }
+
+            const callNode = traceNode as TraceEntryCall;
+            let functionName = callNode.input.length > 2 ? callNode.input.substring(0, 10) : 'fallback';
+            try {
+                functionName = unexplained.node.abi?.getFunction(functionName).name || functionName;
+            } catch (e) {}
+
             return (
                 <TraceTreeItem
-                    key={id}
-                    nodeId={id}
-                    treeContent={format(v, {
-                        timestamp: transactionMetadata.block.timestamp,
-                        chain: chainConfig.id,
-                        prices: priceMetadata,
-                        tokens: tokenMetadata,
-                    })}
-                >
-                    {results}
-                </TraceTreeItem>
+                    key={'unexplained.' + unexplained.path}
+                    nodeId={'unexplained.' + unexplained.path}
+                    treeContent={
+                        <>
+                            <TraceTreeNodeLabel
+                                nodeType={callNode.variant}
+                                nodeColor={callColor[callNode.variant]}
+                                onNodeClick={focus}
+                            />
+                            &nbsp;
+                            <DataRenderer data={callNode.to} preferredType={'address'} />.
+                            <span style={{ color: '#7b9726' }}>{functionName}</span>
+                        </>
+                    }
+                />
             );
         });
+
+        return (
+            <TraceTreeItem
+                key={'coverage'}
+                nodeId={'coverage'}
+                treeContent={
+                    <>
+                        <TraceTreeNodeLabel nodeType={'coverage'} nodeColor={'#9c9491'} />
+                        &nbsp;{percentage}% of calls and logs explained
+                        {coverage.unexplained.length > 0 ? `, ${coverage.unexplained.length} unexplained` : null}
+                    </>
+                }
+            >
+                {unexplainedItems}
+            </TraceTreeItem>
+        );
     };
 
     let children;
     try {
         children = recursivelyGenerateTree(decodedActions);
+        children.push(renderCoverage(coverage));
     } catch (e) {
         console.log('failed to generate decoded tree!', e);
     }
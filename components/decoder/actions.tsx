@@ -29,3 +29,117 @@ export type SwapAction = {
     amountOut?: BigNumber;
     amountOutMin?: BigNumber;
 };
+
+export type AddLiquidityAction = {
+    type: string;
+
+    operator: string;
+
+    recipient: string;
+
+    // the pair, which is also the lp token
+    pool: string;
+
+    tokenA: string;
+    tokenB: string;
+
+    amountADesired: BigNumber;
+    amountBDesired: BigNumber;
+    amountAMin: BigNumber;
+    amountBMin: BigNumber;
+
+    amountA?: BigNumber;
+    amountB?: BigNumber;
+
+    // lp tokens minted
+    liquidity?: BigNumber;
+};
+
+export type RemoveLiquidityAction = {
+    type: string;
+
+    operator: string;
+
+    recipient: string;
+
+    // the pair, which is also the lp token
+    pool: string;
+
+    tokenA: string;
+    tokenB: string;
+
+    // lp tokens burned
+    liquidity: BigNumber;
+
+    amountAMin: BigNumber;
+    amountBMin: BigNumber;
+
+    amountA?: BigNumber;
+    amountB?: BigNumber;
+};
+
+export type WrapAction = {
+    type: string;
+
+    // wrapping turns native tokens into the wrapped token, unwrapping does the opposite
+    operation: 'wrap' | 'unwrap';
+
+    operator: string;
+
+    account: string;
+
+    // the wrapped native token contract
+    token: string;
+    amount: BigNumber;
+};
+
+export type ERC721TransferAction = {
+    type: string;
+
+    operator: string;
+
+    from: string;
+    to: string;
+
+    // the collection
+    token: string;
+    tokenId: BigNumber;
+};
+
+export type ERC1155TransferAction = {
+    type: string;
+
+    operator: string;
+
+    from: string;
+    to: string;
+
+    // the collection, with one amount per id
+    token: string;
+    ids: BigNumber[];
+    amounts: BigNumber[];
+};
+
+export type ApprovalAction = {
+    type: string;
+
+    // how the allowance was granted
+    method: 'approve' | 'increaseAllowance' | 'permit' | 'permit2-approve' | 'permit2-permit' | 'permit2-transfer';
+
+    operator: string;
+
+    owner: string;
+    spender: string;
+
+    token: string;
+    amount: BigNumber;
+
+    // set if the amount is type(uint256).max, or type(uint160).max for permit2
+    unlimited: boolean;
+
+    // when the allowance itself expires (permit2 only)
+    expiration?: number;
+
+    // when the signature granting the allowance expires. this is a uint256, and type(uint256).max means it never does
+    deadline?: BigNumber;
+};
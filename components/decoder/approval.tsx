@@ -0,0 +1,250 @@
+import { DecodeFormatOpts, Decoder, DecoderInput, DecoderState, getSelector, hasSelector, hasTopic } from './types';
+import { EventFragment, FunctionFragment } from '@ethersproject/abi/lib';
+import { Log } from '@ethersproject/abstract-provider';
+import { BigNumber, ethers } from 'ethers';
+import { ApprovalAction } from './actions';
+import { RenderedAction, RenderedValue } from './rendered';
+
+const PERMIT2 = '0x000000000022D473030F116dDEE9F6B43aC78BA3';
+
+const MAX_UINT160 = BigNumber.from(2).pow(160).sub(1);
+
+// the latest date luxon can represent, in seconds
+const MAX_TIMESTAMP = 8640000000000;
+
+const approvalEventFragment = EventFragment.from(
+    'Approval(address indexed owner, address indexed spender, uint256 value)',
+);
+const permit2ApprovalEventFragment = EventFragment.from(
+    'Approval(address indexed owner, address indexed token, address indexed spender, uint160 amount, uint48 expiration)',
+);
+const permit2PermitEventFragment = EventFragment.from(
+    'Permit(address indexed owner, address indexed token, address indexed spender, uint160 amount, uint48 expiration, uint48 nonce)',
+);
+
+export class ApprovalDecoder extends Decoder<ApprovalAction> {
+    tokenFunctions = {
+        'approve(address spender,uint256 amount)': 'approve',
+        'increaseAllowance(address spender,uint256 addedValue)': 'increaseAllowance',
+        'permit(address owner,address spender,uint256 value,uint256 deadline,uint8 v,bytes32 r,bytes32 s)': 'permit',
+        // dai-style permit, which can only grant an unlimited allowance or revoke it
+        'permit(address holder,address spender,uint256 nonce,uint256 expiry,bool allowed,uint8 v,bytes32 r,bytes32 s)':
+            'permit',
+    };
+
+    permit2Functions = {
+        'approve(address token,address spender,uint160 amount,uint48 expiration)': 'permit2-approve',
+        'permit(address owner,((address token,uint160 amount,uint48 expiration,uint48 nonce) details,address spender,uint256 sigDeadline) permitSingle,bytes signature)':
+            'permit2-permit',
+        'permit(address owner,((address token,uint160 amount,uint48 expiration,uint48 nonce)[] details,address spender,uint256 sigDeadline) permitBatch,bytes signature)':
+            'permit2-permit',
+        'permitTransferFrom(((address token,uint256 amount) permitted,uint256 nonce,uint256 deadline) permit,(address to,uint256 requestedAmount) transferDetails,address owner,bytes signature)':
+            'permit2-transfer',
+    };
+
+    selectors = [...Object.keys(this.tokenFunctions), ...Object.keys(this.permit2Functions)].map(getSelector);
+
+    constructor() {
+        super('approval');
+    }
+
+    decodeCall(state: DecoderState, node: DecoderInput): ApprovalAction | ApprovalAction[] | null {
+        if (state.isConsumed(node)) return null;
+        if (node.type !== 'call') return null;
+
+        if (node.to === PERMIT2) {
+            return this.decodePermit2(state, node);
+        }
+
+        const functionInfo = Object.entries(this.tokenFunctions).find(([name, method]) => {
+            return hasSelector(node.calldata, name);
+        });
+        if (!functionInfo) return null;
+
+        const [inputs] = this.decodeFunctionWithFragment(node, FunctionFragment.from(functionInfo[0]));
+
+        const owner = inputs['owner'] || inputs['holder'] || node.from;
+        const spender = inputs['spender'];
+
+        const approvalLogs = this.findApprovalLogs(node, owner, spender);
+
+        // erc721 approvals share a selector with erc20, but the token id is indexed
+        if (approvalLogs.find((log) => log.topics.length !== 3)) return null;
+
+        state.consume(node);
+        approvalLogs.forEach((log) => state.consume(log));
+
+        let amount: BigNumber;
+        if (inputs['allowed'] !== undefined) {
+            amount = inputs['allowed'] ? ethers.constants.MaxUint256 : ethers.constants.Zero;
+        } else {
+            amount = inputs['amount'] || inputs['addedValue'] || inputs['value'];
+        }
+
+        // the event tells us what the allowance actually ended up being
+        const lastApprovalLog = approvalLogs[approvalLogs.length - 1];
+        if (lastApprovalLog) {
+            const abi = new ethers.utils.Interface([approvalEventFragment]);
+            amount = abi.parseLog(lastApprovalLog).args['value'];
+        }
+
+        state.requestTokenMetadata(node.to);
+
+        const result: ApprovalAction = {
+            type: this.name,
+            method: functionInfo[1] as ApprovalAction['method'],
+            operator: node.from,
+            owner: owner,
+            spender: spender,
+            token: node.to,
+            amount: amount,
+            unlimited: amount.eq(ethers.constants.MaxUint256),
+        };
+
+        const deadline = inputs['deadline'] || inputs['expiry'];
+        if (deadline !== undefined) {
+            result.deadline = deadline;
+        }
+
+        return result;
+    }
+
+    decodePermit2(state: DecoderState, node: DecoderInput): ApprovalAction | ApprovalAction[] | null {
+        const functionInfo = Object.entries(this.permit2Functions).find(([name, method]) => {
+            return hasSelector(node.calldata, name);
+        });
+        if (!functionInfo) return null;
+
+        const [inputs] = this.decodeFunctionWithFragment(node, FunctionFragment.from(functionInfo[0]));
+        const method = functionInfo[1] as ApprovalAction['method'];
+
+        state.consume(node);
+        node.logs
+            ?.filter((log) => hasTopic(log, permit2ApprovalEventFragment) || hasTopic(log, permit2PermitEventFragment))
+            .forEach((log) => state.consume(log));
+
+        const makeResult = (
+            owner: string,
+            spender: string,
+            token: string,
+            amount: BigNumber,
+            max: BigNumber,
+        ): ApprovalAction => {
+            state.requestTokenMetadata(token);
+
+            return {
+                type: this.name,
+                method: method,
+                operator: node.from,
+                owner: owner,
+                spender: spender,
+                token: token,
+                amount: amount,
+                unlimited: amount.eq(max),
+            };
+        };
+
+        if (method === 'permit2-approve') {
+            const result = makeResult(node.from, inputs['spender'], inputs['token'], inputs['amount'], MAX_UINT160);
+            result.expiration = inputs['expiration'];
+            return result;
+        } else if (method === 'permit2-permit') {
+            const permit = inputs['permitSingle'] || inputs['permitBatch'];
+            const details = Array.isArray(permit['details'][0]) ? permit['details'] : [permit['details']];
+
+            return details.map((detail: ethers.utils.Result) => {
+                const result = makeResult(
+                    inputs['owner'],
+                    permit['spender'],
+                    detail['token'],
+                    detail['amount'],
+                    MAX_UINT160,
+                );
+                result.expiration = detail['expiration'];
+                result.deadline = permit['sigDeadline'];
+                return result;
+            });
+        } else {
+            // a signature transfer is a one-time allowance for whoever submits it
+            const permit = inputs['permit'];
+
+            const result = makeResult(
+                inputs['owner'],
+                node.from,
+                permit['permitted']['token'],
+                permit['permitted']['amount'],
+                ethers.constants.MaxUint256,
+            );
+            result.deadline = permit['deadline'];
+            return result;
+        }
+    }
+
+    // tokens are often proxies, so the event might be emitted from a delegatecall
+    findApprovalLogs(node: DecoderInput, owner: string, spender: string): Log[] {
+        const abi = new ethers.utils.Interface([approvalEventFragment]);
+
+        const results: Log[] = [];
+        const visit = (node: DecoderInput) => {
+            node.logs
+                ?.filter((log) => hasTopic(log, approvalEventFragment))
+                .forEach((log) => {
+                    // erc721 approvals can't be parsed as erc20, but we still want to know about them
+                    if (log.topics.length !== 3) {
+                        results.push(log);
+                        return;
+                    }
+
+                    const parsedEvent = abi.parseLog(log);
+                    if (parsedEvent.args['owner'] === owner && parsedEvent.args['spender'] === spender) {
+                        results.push(log);
+                    }
+                });
+
+            node.children?.filter((v) => v.type === 'delegatecall').forEach(visit);
+        };
+        visit(node);
+
+        return results;
+    }
+
+    formatDeadline(deadline: BigNumber): RenderedValue {
+        if (deadline.eq(ethers.constants.MaxUint256)) return this.formatText('never');
+        // anything past the latest date which can be represented isn't really a timestamp
+        if (deadline.gt(MAX_TIMESTAMP)) return this.formatText(deadline.toString());
+
+        return this.formatTimestamp(deadline.toNumber());
+    }
+
+    format(result: ApprovalAction, opts: DecodeFormatOpts): RenderedAction {
+        const keys = ['amount', 'spender', 'owner'];
+        const values: RenderedValue[] = [
+            { ...this.formatTokenAmount(opts, result.token, result.amount), unlimited: result.unlimited },
+            this.formatAddress(result.spender),
+            this.formatAddress(result.owner),
+        ];
+
+        if (result.expiration !== undefined) {
+            keys.push('expiry');
+            // permit2 treats an expiration of zero as the current block
+            values.push(this.formatTimestamp(result.expiration || opts.timestamp));
+        }
+
+        if (result.deadline !== undefined) {
+            keys.push('deadline');
+            values.push(this.formatDeadline(result.deadline));
+        }
+
+        if (result.operator !== result.owner) {
+            keys.push('operator');
+            values.push(this.formatAddress(result.operator));
+        }
+
+        return this.renderResult(
+            result.method === 'permit2-transfer' ? 'permit transfer' : 'approve',
+            '#df5320',
+            keys,
+            values,
+        );
+    }
+}
@@ -3,37 +3,113 @@ import {
     BaseAction,
     DecodeFormatOpts,
     Decoder,
+    DecoderCoverage,
     DecoderInput,
     DecoderOutput,
     DecoderState,
+    isDecoderInput,
     MetadataRequest,
 } from './types';
-import { UniswapV2RouterSwapDecoder } from './uniswap';
-import { TransferDecoder } from './fallback';
+import {
+    UniswapV2RouterAddLiquidityDecoder,
+    UniswapV2RouterRemoveLiquidityDecoder,
+    UniswapV2RouterSwapDecoder,
+    UniswapV3RouterSwapDecoder,
+} from './uniswap';
+import { ERC1155TransferDecoder, ERC721TransferDecoder, TransferDecoder } from './fallback';
 import { BigNumber, ethers } from 'ethers';
 import { Log } from '@ethersproject/abstract-provider';
 import { Interface } from '@ethersproject/abi';
 import { findAffectedContract } from '../helpers';
 import { ENSDecoder } from './ens';
+import { UniversalRouterDecoder } from './universalrouter';
+import { WrappedNativeTokenDecoder } from './weth';
+import { ApprovalDecoder } from './approval';
 import { TraceEntryCall, TraceEntryLog, TraceResponse } from '../api';
+import { DecoderRegistry } from './registry';
+import { RenderedAction } from './rendered';
 
-const allDecoders: Record<string, Decoder<BaseAction>> = {};
-const decodeOrder: Decoder<BaseAction>[] = [];
+export const defaultRegistry = new DecoderRegistry();
 
 export const registerDecoder = (decoder: Decoder<BaseAction>) => {
-    decodeOrder.push(decoder);
-    allDecoders[decoder.name] = decoder;
+    defaultRegistry.register(decoder);
 };
 
 registerDecoder(new UniswapV2RouterSwapDecoder());
+registerDecoder(new UniswapV3RouterSwapDecoder());
+registerDecoder(new UniversalRouterDecoder());
 registerDecoder(new ENSDecoder());
-// registerDecoder(new UniswapV2RouterAddLiquidityDecoder());
-// registerDecoder(new UniswapV2RouterRemoveLiquidityDecoder());
-
-// must come last!
+registerDecoder(new UniswapV2RouterAddLiquidityDecoder());
+registerDecoder(new UniswapV2RouterRemoveLiquidityDecoder());
+registerDecoder(new WrappedNativeTokenDecoder());
+registerDecoder(new ApprovalDecoder());
+registerDecoder(new ERC721TransferDecoder());
+registerDecoder(new ERC1155TransferDecoder());
 registerDecoder(new TransferDecoder());
 
-export const decode = (trace: TraceResponse, metadata: TraceMetadata): [DecoderOutput, MetadataRequest] => {
+// staticcalls can't do anything worth explaining, and delegatecalls are explained by the call they're executing in
+const isCoverageCandidate = (node: DecoderInput) => {
+    return node.type !== 'staticcall' && node.type !== 'delegatecall';
+};
+
+const computeCoverage = (state: DecoderState, output: DecoderOutput): DecoderCoverage => {
+    const coverage: DecoderCoverage = {
+        total: 0,
+        unexplained: [],
+    };
+
+    const isExplained = (output: DecoderOutput) => {
+        return output.results.length > 0 || state.isConsumed(output.node);
+    };
+
+    // a call which emitted an explained log (such as a token transfer) is explained by that log
+    const hasExplainedLogs = (output: DecoderOutput): boolean => {
+        return output.children.some((child) => {
+            if (isDecoderInput(child.node)) {
+                return child.node.type === 'delegatecall' && hasExplainedLogs(child);
+            }
+            return isExplained(child);
+        });
+    };
+
+    const visit = (output: DecoderOutput) => {
+        const node = output.node;
+        if (isDecoderInput(node)) {
+            if (node.failed) return;
+
+            if (isCoverageCandidate(node)) {
+                coverage.total++;
+                if (!isExplained(output) && !hasExplainedLogs(output)) {
+                    coverage.unexplained.push({
+                        type: 'call',
+                        path: node.id,
+                        node: node,
+                    });
+                }
+            }
+        } else {
+            coverage.total++;
+            if (!isExplained(output)) {
+                coverage.unexplained.push({
+                    type: 'log',
+                    path: node.logIndex.toString(),
+                    node: node,
+                });
+            }
+        }
+
+        output.children.forEach(visit);
+    };
+    visit(output);
+
+    return coverage;
+};
+
+export const decode = (
+    trace: TraceResponse,
+    metadata: TraceMetadata,
+    registry: DecoderRegistry = defaultRegistry,
+): [DecoderOutput, MetadataRequest, DecoderCoverage] => {
     let logIndex = 0;
     let indexToPath: Record<number, string> = {};
 
@@ -94,7 +170,7 @@ export const decode = (trace: TraceResponse, metadata: TraceMetadata): [DecoderO
             value: BigNumber.from(node.value),
             calldata: ethers.utils.arrayify(node.input),
 
-            status: node.status == 1,
+            failed: node.status !== 1,
             logs: logs,
 
             returndata: ethers.utils.arrayify(node.output),
@@ -114,7 +190,7 @@ export const decode = (trace: TraceResponse, metadata: TraceMetadata): [DecoderO
         };
     };
 
-    const state = new DecoderState();
+    const state = new DecoderState(trace.chain);
     const input = remap(trace.entrypoint);
 
     const visit = (node: DecoderInput): DecoderOutput => {
@@ -135,7 +211,7 @@ export const decode = (trace: TraceResponse, metadata: TraceMetadata): [DecoderO
                 children: [],
             };
 
-            decodeOrder.forEach((v) => {
+            registry.getLogDecoders(trace.chain, log).forEach((v) => {
                 try {
                     const results = v.decodeLog(state, node, log);
                     if (!results) return;
@@ -153,7 +229,8 @@ export const decode = (trace: TraceResponse, metadata: TraceMetadata): [DecoderO
             return output;
         };
 
-        let results = decodeOrder
+        let results = registry
+            .getCallDecoders(trace.chain, node)
             .map((v) => {
                 try {
                     return v.decodeCall(state, node);
@@ -161,7 +238,7 @@ export const decode = (trace: TraceResponse, metadata: TraceMetadata): [DecoderO
                     console.log('decoder failed to decode call', v.name, node, e);
                 }
             })
-            .filter((v): v is BaseAction | BaseAction[] => v !== null)
+            .filter((v): v is BaseAction | BaseAction[] => v != null)
             .flatMap((v) => v);
 
         let children = [];
@@ -197,9 +274,32 @@ export const decode = (trace: TraceResponse, metadata: TraceMetadata): [DecoderO
         };
     };
 
-    return [visit(input), state.requestedMetadata];
+    const output = visit(input);
+
+    return [output, state.requestedMetadata, computeCoverage(state, output)];
+};
+
+export const format = (result: BaseAction, opts: DecodeFormatOpts): RenderedAction => {
+    const rendered = defaultRegistry.getDecoder(result.type)!.format(result, opts);
+    rendered.type = result.type;
+    if (result.children) {
+        rendered.children = result.children.map((child) => format(child, opts));
+    }
+    return rendered;
+};
+
+const toPlainData = (value: any): any => {
+    if (BigNumber.isBigNumber(value) || typeof value === 'bigint') {
+        return value.toString();
+    } else if (Array.isArray(value)) {
+        return value.map(toPlainData);
+    } else if (value !== null && typeof value === 'object') {
+        return Object.fromEntries(Object.entries(value).map(([k, v]) => [k, toPlainData(v)]));
+    }
+    return value;
 };
 
-export const format = (result: BaseAction, opts: DecodeFormatOpts): JSX.Element => {
-    return allDecoders[result.type].format(result, opts);
+// like format, but returns json-safe data instead of jsx so it can be used outside of react
+export const formatPlain = (result: BaseAction): Record<string, any> => {
+    return toPlainData(result);
 };
@@ -1,10 +1,8 @@
 import { DecodeFormatOpts, Decoder, DecoderInput, DecoderState, hasSelector, hasTopic } from './types';
 import { EventFragment, FunctionFragment } from '@ethersproject/abi/lib';
-import humanizeDuration from 'humanize-duration';
 import { NATIVE_TOKEN } from './actions';
 import { ethers } from 'ethers';
-import { DateTime } from 'luxon';
-import { Tooltip } from '@mui/material';
+import { RenderedAction, RenderedValue } from './rendered';
 
 export type ENSRegisterAction = {
     type: string;
@@ -31,6 +29,9 @@ export class ENSDecoder extends Decoder<ENSRegisterAction> {
             },
     };
 
+    chains = ['ethereum'];
+    addresses = ['0x283Af0B28c62C092C9727F1Ee09c02CA627EB7F5'];
+
     constructor() {
         super('ens');
     }
@@ -38,8 +39,6 @@ export class ENSDecoder extends Decoder<ENSRegisterAction> {
     decodeCall(state: DecoderState, node: DecoderInput): ENSRegisterAction | null {
         if (state.isConsumed(node)) return null;
 
-        if (node.to.toLowerCase() !== '0x283Af0B28c62C092C9727F1Ee09c02CA627EB7F5'.toLowerCase()) return null;
-
         const functionInfo = Object.entries(this.functions).find(([name, func]) => {
             return hasSelector(node.calldata, name);
         });
@@ -86,16 +85,12 @@ export class ENSDecoder extends Decoder<ENSRegisterAction> {
         return result;
     }
 
-    format(result: ENSRegisterAction, opts: DecodeFormatOpts): JSX.Element {
+    format(result: ENSRegisterAction, opts: DecodeFormatOpts): RenderedAction {
         const keys = ['name', 'owner', 'expiry', 'cost'];
-        const vals = [
-            result.name,
+        const vals: RenderedValue[] = [
+            this.formatText(result.name),
             this.formatAddress(result.owner),
-            <Tooltip title={humanizeDuration(result.duration * 1000)}>
-                <span>
-                    {DateTime.fromSeconds(opts.timestamp + result.duration).toFormat('yyyy-MM-dd hh:mm:ss ZZZZ')}
-                </span>
-            </Tooltip>,
+            { type: 'duration', start: opts.timestamp, seconds: result.duration },
             this.formatTokenAmount(opts, NATIVE_TOKEN, result.cost),
         ];
 
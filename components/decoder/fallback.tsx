@@ -1,9 +1,81 @@
-import { DecodeFormatOpts, Decoder, DecoderInput, DecoderState, hasTopic } from './types';
-import { DataRenderer } from '../DataRenderer';
-import { NATIVE_TOKEN, TransferAction } from './actions';
+import { DecodeFormatOpts, Decoder, DecoderInput, DecoderState, getTopic, hasTopic } from './types';
+import { ERC1155TransferAction, ERC721TransferAction, NATIVE_TOKEN, TransferAction } from './actions';
 import { Log } from '@ethersproject/abstract-provider';
+import { EventFragment } from '@ethersproject/abi/lib';
+import { ethers } from 'ethers';
+import { RenderedAction, RenderedList } from './rendered';
+
+const erc721TransferFragment = EventFragment.from(
+    'Transfer(address indexed from, address indexed to, uint256 indexed tokenId)',
+);
+const erc1155TransferSingleFragment = EventFragment.from(
+    'TransferSingle(address indexed operator, address indexed from, address indexed to, uint256 id, uint256 value)',
+);
+const erc1155TransferBatchFragment = EventFragment.from(
+    'TransferBatch(address indexed operator, address indexed from, address indexed to, uint256[] ids, uint256[] values)',
+);
+
+type RawLog = {
+    topics: string[];
+    data: string;
+};
+
+// erc20 and erc721 share the same event signature, but erc721 indexes the token id so there's an extra topic
+export const decodeERC721Transfer = (operator: string, token: string, log: RawLog): ERC721TransferAction | null => {
+    if (log.topics.length !== 4) return null;
+    if (!hasTopic(log as Log, erc721TransferFragment)) return null;
+
+    const abi = new ethers.utils.Interface([erc721TransferFragment]);
+    const parsedEvent = abi.parseLog(log);
+
+    return {
+        type: 'erc721',
+        operator: operator,
+        token: token,
+        from: parsedEvent.args['from'],
+        to: parsedEvent.args['to'],
+        tokenId: parsedEvent.args['tokenId'],
+    };
+};
+
+export const decodeERC1155Transfer = (token: string, log: RawLog): ERC1155TransferAction | null => {
+    const abi = new ethers.utils.Interface([erc1155TransferSingleFragment, erc1155TransferBatchFragment]);
+
+    if (hasTopic(log as Log, erc1155TransferSingleFragment)) {
+        const parsedEvent = abi.parseLog(log);
+
+        return {
+            type: 'erc1155',
+            operator: parsedEvent.args['operator'],
+            token: token,
+            from: parsedEvent.args['from'],
+            to: parsedEvent.args['to'],
+            ids: [parsedEvent.args['id']],
+            amounts: [parsedEvent.args['value']],
+        };
+    } else if (hasTopic(log as Log, erc1155TransferBatchFragment)) {
+        const parsedEvent = abi.parseLog(log);
+
+        return {
+            type: 'erc1155',
+            operator: parsedEvent.args['operator'],
+            token: token,
+            from: parsedEvent.args['from'],
+            to: parsedEvent.args['to'],
+            // `values` clashes with Result.values(), so use positional access
+            ids: parsedEvent.args[3],
+            amounts: parsedEvent.args[4],
+        };
+    }
+
+    return null;
+};
 
 export class TransferDecoder extends Decoder<TransferAction> {
+    // fallback decoders only get whatever the more specific decoders didn't consume
+    priority = -100;
+    topics = [getTopic('Transfer(address,address,uint256)')];
+
     constructor() {
         super('erc20');
     }
@@ -25,6 +97,8 @@ export class TransferDecoder extends Decoder<TransferAction> {
     decodeLog(state: DecoderState, node: DecoderInput, log: Log): TransferAction | null {
         if (state.isConsumed(log)) return null;
         if (!hasTopic(log, `Transfer(address,address,uint256)`)) return null;
+        // erc721 transfers are handled by ERC721TransferDecoder
+        if (log.topics.length !== 3) return null;
 
         if (node.abi) {
             const decodedEvent = node.abi.parseLog(log);
@@ -44,16 +118,91 @@ export class TransferDecoder extends Decoder<TransferAction> {
         return null;
     }
 
-    format(result: TransferAction, opts: DecodeFormatOpts): JSX.Element {
+    format(result: TransferAction, opts: DecodeFormatOpts): RenderedAction {
         return this.renderResult(
             'transfer',
             '#392b58',
-            [opts.tokens.tokens[result.token.toLowerCase()]?.isNft ? 'id' : 'amount', 'from', 'to', 'operator'],
+            ['amount', 'from', 'to', 'operator'],
             [
                 this.formatTokenAmount(opts, result.token, result.amount),
-                <DataRenderer chain={opts.chain} preferredType={'address'} data={result.from} />,
-                <DataRenderer chain={opts.chain} preferredType={'address'} data={result.to} />,
-                <DataRenderer chain={opts.chain} preferredType={'address'} data={result.operator} />,
+                this.formatAddress(result.from),
+                this.formatAddress(result.to),
+                this.formatAddress(result.operator),
+            ],
+        );
+    }
+}
+
+export class ERC721TransferDecoder extends Decoder<ERC721TransferAction> {
+    // fallback decoders only get whatever the more specific decoders didn't consume
+    priority = -100;
+    topics = [getTopic(erc721TransferFragment)];
+
+    constructor() {
+        super('erc721');
+    }
+
+    decodeLog(state: DecoderState, node: DecoderInput, log: Log): ERC721TransferAction | null {
+        if (state.isConsumed(log)) return null;
+
+        const result = decodeERC721Transfer(node.from, log.address, log);
+        if (!result) return null;
+
+        state.requestTokenMetadata(result.token);
+
+        return result;
+    }
+
+    format(result: ERC721TransferAction, opts: DecodeFormatOpts): RenderedAction {
+        return this.renderResult(
+            'transfer nft',
+            '#392b58',
+            ['token', 'from', 'to', 'operator'],
+            [
+                this.formatNft(opts, result.token, result.tokenId),
+                this.formatAddress(result.from),
+                this.formatAddress(result.to),
+                this.formatAddress(result.operator),
+            ],
+        );
+    }
+}
+
+export class ERC1155TransferDecoder extends Decoder<ERC1155TransferAction> {
+    // fallback decoders only get whatever the more specific decoders didn't consume
+    priority = -100;
+    topics = [getTopic(erc1155TransferSingleFragment), getTopic(erc1155TransferBatchFragment)];
+
+    constructor() {
+        super('erc1155');
+    }
+
+    decodeLog(state: DecoderState, node: DecoderInput, log: Log): ERC1155TransferAction | null {
+        if (state.isConsumed(log)) return null;
+
+        const result = decodeERC1155Transfer(log.address, log);
+        if (!result) return null;
+
+        state.requestTokenMetadata(result.token);
+
+        return result;
+    }
+
+    format(result: ERC1155TransferAction, opts: DecodeFormatOpts): RenderedAction {
+        const tokens: RenderedList = {
+            type: 'list',
+            values: result.ids.map((id, idx) => this.formatNft(opts, result.token, id, result.amounts[idx])),
+        };
+
+        return this.renderResult(
+            'transfer nft',
+            '#392b58',
+            [result.ids.length > 1 ? 'tokens' : 'token', 'from', 'to', 'operator'],
+            [
+                tokens,
+                this.formatAddress(result.from),
+                this.formatAddress(result.to),
+                this.formatAddress(result.operator),
             ],
         );
     }
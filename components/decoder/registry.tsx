@@ -0,0 +1,110 @@
+import { BaseAction, Decoder, DecoderInput } from './types';
+import { Log } from '@ethersproject/abstract-provider';
+import { ethers } from 'ethers';
+
+type RegisteredDecoder = {
+    decoder: Decoder<BaseAction>;
+
+    // used to break ties between decoders with the same priority
+    order: number;
+};
+
+// decoders which declare prefilters are indexed by them, so that for any given node
+// we only need to look at the decoders which could possibly apply
+type DecoderIndex = {
+    byKey: Record<string, RegisteredDecoder[]>;
+    unfiltered: RegisteredDecoder[];
+};
+
+const newIndex = (): DecoderIndex => {
+    return {
+        byKey: {},
+        unfiltered: [],
+    };
+};
+
+const addToIndex = (index: DecoderIndex, keys: string[] | undefined, entry: RegisteredDecoder) => {
+    if (!keys) {
+        index.unfiltered.push(entry);
+        return;
+    }
+
+    keys.forEach((key) => {
+        key = key.toLowerCase();
+        if (!(key in index.byKey)) {
+            index.byKey[key] = [];
+        }
+        index.byKey[key].push(entry);
+    });
+};
+
+const sortByPriority = (entries: RegisteredDecoder[]): Decoder<BaseAction>[] => {
+    return entries
+        .sort((a, b) => b.decoder.priority - a.decoder.priority || a.order - b.order)
+        .map((entry) => entry.decoder);
+};
+
+export class DecoderRegistry {
+    private decoders: Record<string, RegisteredDecoder> = {};
+
+    private callsByAddress = newIndex();
+    private callsBySelector = newIndex();
+    private logsByTopic = newIndex();
+
+    register(decoder: Decoder<BaseAction>) {
+        if (decoder.name in this.decoders) {
+            throw new Error(`decoder ${decoder.name} is already registered`);
+        }
+
+        const entry: RegisteredDecoder = {
+            decoder: decoder,
+            order: Object.keys(this.decoders).length,
+        };
+        this.decoders[decoder.name] = entry;
+
+        // don't bother dispatching to decoders which don't override the default implementation
+        if (decoder.decodeCall !== Decoder.prototype.decodeCall) {
+            if (decoder.addresses) {
+                addToIndex(this.callsByAddress, decoder.addresses, entry);
+            } else {
+                addToIndex(this.callsBySelector, decoder.selectors, entry);
+            }
+        }
+        if (decoder.decodeLog !== Decoder.prototype.decodeLog) {
+            addToIndex(this.logsByTopic, decoder.topics, entry);
+        }
+    }
+
+    getDecoder(name: string): Decoder<BaseAction> | undefined {
+        return this.decoders[name]?.decoder;
+    }
+
+    // returns the decoders which should be given a chance to decode the call, in the order they should run
+    getCallDecoders(chain: string, node: DecoderInput): Decoder<BaseAction>[] {
+        const selector = ethers.utils.hexlify(ethers.utils.arrayify(node.calldata).slice(0, 4));
+
+        const candidates = [
+            ...(this.callsByAddress.byKey[node.to.toLowerCase()] || []),
+            ...this.callsBySelector.unfiltered,
+            ...(this.callsBySelector.byKey[selector] || []),
+        ].filter((entry) => {
+            const decoder = entry.decoder;
+            if (decoder.chains && !decoder.chains.includes(chain)) return false;
+            if (decoder.selectors && !decoder.selectors.find((v) => v.toLowerCase() === selector)) return false;
+            return true;
+        });
+
+        return sortByPriority(Array.from(new Set(candidates)));
+    }
+
+    // returns the decoders which should be given a chance to decode the log, in the order they should run
+    getLogDecoders(chain: string, log: Log): Decoder<BaseAction>[] {
+        const topic = log.topics.length > 0 ? log.topics[0].toLowerCase() : '';
+
+        const candidates = [...this.logsByTopic.unfiltered, ...(this.logsByTopic.byKey[topic] || [])].filter(
+            (entry) => !entry.decoder.chains || entry.decoder.chains.includes(chain),
+        );
+
+        return sortByPriority(candidates);
+    }
+}
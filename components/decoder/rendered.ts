@@ -0,0 +1,93 @@
+// a decoded action which has been resolved against token and price metadata, but not yet turned into
+// jsx or text. everything in here must be serialisable so it can be exported, diffed and tested
+
+export type RenderedAddress = {
+    type: 'address';
+    address: string;
+};
+
+export type RenderedUsdValue = {
+    type: 'usd';
+    // formatted with formatUsd
+    value: string;
+};
+
+export type RenderedTokenAmount = {
+    type: 'token-amount';
+    token: string;
+    symbol?: string;
+
+    // the raw integer amount
+    amount: string;
+    // the amount adjusted for decimals, or the raw amount if decimals are unknown
+    formattedAmount: string;
+
+    // set if the amount is effectively infinite, such as an unlimited approval
+    unlimited?: boolean;
+
+    // value at the time of the transaction
+    historicalValue?: RenderedUsdValue;
+    // value today, if the current price is known
+    currentValue?: RenderedUsdValue;
+};
+
+export type RenderedNft = {
+    type: 'nft';
+    token: string;
+    // the name of the collection, or its symbol if it doesn't have one
+    name?: string;
+    tokenId: string;
+
+    // only set for tokens which can have more than one copy, such as erc1155
+    amount?: string;
+};
+
+export type RenderedTimestamp = {
+    type: 'timestamp';
+    // unix timestamp in seconds
+    timestamp: number;
+};
+
+export type RenderedDuration = {
+    type: 'duration';
+    // unix timestamp in seconds
+    start: number;
+    seconds: number;
+};
+
+export type RenderedText = {
+    type: 'text';
+    text: string;
+    color?: string;
+};
+
+export type RenderedList = {
+    type: 'list';
+    values: RenderedValue[];
+};
+
+export type RenderedValue =
+    | RenderedAddress
+    | RenderedUsdValue
+    | RenderedTokenAmount
+    | RenderedNft
+    | RenderedTimestamp
+    | RenderedDuration
+    | RenderedText
+    | RenderedList;
+
+export type RenderedField = {
+    name: string;
+    value: RenderedValue;
+};
+
+export type RenderedAction = {
+    // the type of the action which was rendered
+    type: string;
+
+    label: string;
+    color: string;
+    fields: RenderedField[];
+
+    children?: RenderedAction[];
+};
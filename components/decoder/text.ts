@@ -0,0 +1,61 @@
+import humanizeDuration from 'humanize-duration';
+import { DateTime } from 'luxon';
+import { RenderedAction, RenderedValue } from './rendered';
+
+const formatTimestamp = (timestamp: number): string => {
+    return DateTime.fromSeconds(timestamp, { zone: 'utc' }).toFormat('yyyy-MM-dd HH:mm:ss ZZZZ');
+};
+
+// labels are optional, and map lowercase addresses to a human readable name
+export const renderValueText = (value: RenderedValue, labels?: Record<string, string>): string => {
+    const formatAddress = (address: string, label?: string) => {
+        label = label || labels?.[address.toLowerCase()];
+        return label ? `${label} (${address})` : address;
+    };
+
+    switch (value.type) {
+        case 'address':
+            return formatAddress(value.address);
+        case 'usd':
+            return value.value;
+        case 'token-amount': {
+            const token = value.symbol || formatAddress(value.token);
+            if (value.unlimited) {
+                return `unlimited ${token}`;
+            }
+
+            let price = '';
+            if (value.historicalValue) {
+                price = ` (${value.historicalValue.value}`;
+                if (value.currentValue) {
+                    price += `, ${value.currentValue.value} today`;
+                }
+                price += ')';
+            }
+
+            return `${value.formattedAmount} ${token}${price}`;
+        }
+        case 'nft': {
+            const token = `${value.name || formatAddress(value.token)}#${value.tokenId}`;
+            return value.amount !== undefined ? `${value.amount} × ${token}` : token;
+        }
+        case 'timestamp':
+            return formatTimestamp(value.timestamp);
+        case 'duration':
+            return `${formatTimestamp(value.start + value.seconds)} (${humanizeDuration(value.seconds * 1000)})`;
+        case 'text':
+            return value.text;
+        case 'list':
+            return value.values.map((v) => renderValueText(v, labels)).join(', ');
+    }
+};
+
+// renders an action and all of its children as indented lines of text
+export const renderActionText = (action: RenderedAction, labels?: Record<string, string>, depth = 0): string => {
+    const fields = action.fields.map((field) => `${field.name}=${renderValueText(field.value, labels)}`).join(', ');
+
+    return [
+        `${'  '.repeat(depth)}[${action.label}] ${fields}`,
+        ...(action.children || []).map((child) => renderActionText(child, labels, depth + 1)),
+    ].join('\n');
+};
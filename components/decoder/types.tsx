@@ -1,27 +1,36 @@
 import { BigNumber, BigNumberish, BytesLike, ethers } from 'ethers';
-import { DataRenderer } from '../DataRenderer';
-import * as React from 'react';
-import { Tooltip } from '@mui/material';
-import { formatUsd } from '../helpers';
+import { formatUsd, getSmartUnit } from '../helpers';
 import { getChain } from '../Chains';
 import { ParamType } from 'ethers/lib/utils';
-import WithSeparator from 'react-with-separator';
-import { TraceTreeNodeLabel } from '../trace/TraceTreeItem';
 import { defaultAbiCoder, EventFragment, FunctionFragment, Result } from '@ethersproject/abi/lib';
 import { Log } from '@ethersproject/abstract-provider';
 import { NATIVE_TOKEN } from './actions';
-import { PriceMetadata } from '../metadata/prices';
+import { getPriceOfToken, PriceMetadata } from '../metadata/prices';
 import { TokenMetadata } from '../metadata/tokens';
+import {
+    RenderedAction,
+    RenderedAddress,
+    RenderedNft,
+    RenderedText,
+    RenderedTimestamp,
+    RenderedTokenAmount,
+    RenderedValue,
+} from './rendered';
+
+export const getSelector = (selector: string | FunctionFragment) => {
+    return ethers.utils.id(FunctionFragment.from(selector).format()).substring(0, 10);
+};
+
+export const getTopic = (selector: string | EventFragment) => {
+    return ethers.utils.id(EventFragment.from(selector).format());
+};
 
 export const hasSelector = (calldata: BytesLike, selector: string | FunctionFragment) => {
-    return (
-        ethers.utils.hexlify(ethers.utils.arrayify(calldata).slice(0, 4)) ===
-        ethers.utils.id(FunctionFragment.from(selector).format()).substring(0, 10)
-    );
+    return ethers.utils.hexlify(ethers.utils.arrayify(calldata).slice(0, 4)) === getSelector(selector);
 };
 
 export const hasTopic = (log: Log, selector: string | EventFragment) => {
-    return log.topics.length > 0 && log.topics[0] == ethers.utils.id(EventFragment.from(selector).format());
+    return log.topics.length > 0 && log.topics[0] == getTopic(selector);
 };
 
 export interface DecoderInput {
@@ -52,6 +61,9 @@ export interface DecoderInput {
 
 export type BaseAction = {
     type: string;
+
+    // optional: actions which should be nested under this one, such as the steps of a batched call
+    children?: BaseAction[];
 };
 
 export type DecoderOutput = {
@@ -64,6 +76,26 @@ export type MetadataRequest = {
     tokens: Set<string>;
 };
 
+export type UnexplainedNode =
+    | {
+          type: 'call';
+          path: string;
+          node: DecoderInput;
+      }
+    | {
+          type: 'log';
+          path: string;
+          node: Log;
+      };
+
+export type DecoderCoverage = {
+    // the number of call and log nodes which could have been explained by a decoder
+    total: number;
+
+    // nodes which produced no action and were not consumed by any decoder
+    unexplained: UnexplainedNode[];
+};
+
 export const isDecoderInput = (node: DecoderInput | Log): node is DecoderInput => {
     return (node as DecoderInput).id !== undefined;
 };
@@ -77,11 +109,15 @@ export const getNodeId = (node: DecoderInput | Log) => {
 };
 
 export class DecoderState {
+    // the id of the chain the transaction happened on, which might be a custom chain
+    chain: string;
+
     consumed: Set<string>;
 
     requestedMetadata: MetadataRequest;
 
-    constructor() {
+    constructor(chain: string) {
+        this.chain = chain;
         this.consumed = new Set<string>();
         this.requestedMetadata = {
             tokens: new Set<string>(),
@@ -188,6 +224,21 @@ export type DecodeFormatOpts = {
 export abstract class Decoder<T extends BaseAction> {
     name: string;
 
+    // decoders with a higher priority get the first chance to consume a node
+    priority: number = 0;
+
+    // optional: the chains this decoder applies to, if unset it applies to every chain
+    chains?: string[];
+
+    // optional: only call decodeCall for calls to one of these addresses
+    addresses?: string[];
+
+    // optional: only call decodeCall for calls with one of these selectors
+    selectors?: string[];
+
+    // optional: only call decodeLog for logs with one of these topics
+    topics?: string[];
+
     constructor(name: string) {
         this.name = name;
     }
@@ -200,7 +251,7 @@ export abstract class Decoder<T extends BaseAction> {
         return null;
     }
 
-    abstract format(result: T, opts: DecodeFormatOpts): JSX.Element;
+    abstract format(result: T, opts: DecodeFormatOpts): RenderedAction;
 
     decodeFunctionWithFragment(node: DecoderInput, functionFragment: FunctionFragment): [Result, Result | null] {
         return [
@@ -211,76 +262,105 @@ export abstract class Decoder<T extends BaseAction> {
         ];
     }
 
-    formatAddress(addr: string): JSX.Element {
-        return <DataRenderer preferredType={'address'} data={addr} />;
+    formatAddress(addr: string): RenderedAddress {
+        return {
+            type: 'address',
+            address: addr,
+        };
     }
 
-    formatTokenAmount(opts: DecodeFormatOpts, token: string, amount: BigNumberish): JSX.Element {
+    formatTokenAmount(opts: DecodeFormatOpts, token: string, amount: BigNumberish): RenderedTokenAmount {
         token = token.toLowerCase();
+        // prices are requested using the same token as the decoder returned
+        const priceToken = token;
         if (token === NATIVE_TOKEN) {
             token = getChain(opts.chain)?.nativeTokenAddress || '';
         }
+        amount = BigNumber.from(amount);
 
-        let amountFormatted = amount.toString();
-        let address = <DataRenderer chain={opts.chain} preferredType={'address'} data={token} />;
-        let price;
+        const result: RenderedTokenAmount = {
+            type: 'token-amount',
+            token: token,
+            amount: amount.toString(),
+            formattedAmount: amount.toString(),
+        };
 
         let tokenInfo = opts.tokens.tokens[token];
         if (tokenInfo !== undefined) {
             if (tokenInfo.decimals !== undefined) {
-                amountFormatted = ethers.utils.formatUnits(amount, tokenInfo.decimals);
+                result.formattedAmount = ethers.utils.formatUnits(amount, tokenInfo.decimals);
             }
             if (tokenInfo.symbol !== undefined) {
-                address = (
-                    <DataRenderer
-                        chain={opts.chain}
-                        labels={{ [token]: tokenInfo.symbol }}
-                        preferredType={'address'}
-                        data={token}
-                    />
-                );
+                result.symbol = tokenInfo.symbol;
+            }
+        }
+
+        if (priceToken === NATIVE_TOKEN) {
+            const unit = getSmartUnit(amount);
+            if (unit !== 'ether') {
+                result.formattedAmount = ethers.utils.formatUnits(amount, unit);
+                result.symbol = unit;
             }
         }
 
-        let historicalPrice = opts.prices.prices[token]?.historicalPrice;
-        let currentPrice = opts.prices.prices[token]?.currentPrice;
-        if (historicalPrice !== undefined && currentPrice !== undefined) {
-            price = (
-                <>
-                    &nbsp;(
-                    <Tooltip
-                        title={currentPrice ? formatUsd(amount.mul(currentPrice)) + ' today' : 'Current price unknown'}
-                    >
-                        <span>{formatUsd(amount.mul(historicalPrice))}</span>
-                    </Tooltip>
-                    )
-                </>
-            );
+        let historicalValue = getPriceOfToken(opts.prices, priceToken, amount.toBigInt(), 'historical');
+        let currentValue = getPriceOfToken(opts.prices, priceToken, amount.toBigInt(), 'current');
+        if (typeof historicalValue === 'bigint') {
+            result.historicalValue = { type: 'usd', value: formatUsd(historicalValue) };
+            if (typeof currentValue === 'bigint') {
+                result.currentValue = { type: 'usd', value: formatUsd(currentValue) };
+            }
+        }
+
+        return result;
+    }
+
+    formatNft(opts: DecodeFormatOpts, token: string, tokenId: BigNumberish, amount?: BigNumberish): RenderedNft {
+        token = token.toLowerCase();
+
+        const result: RenderedNft = {
+            type: 'nft',
+            token: token,
+            tokenId: tokenId.toString(),
+        };
+
+        let tokenInfo = opts.tokens.tokens[token];
+        if (tokenInfo !== undefined && (tokenInfo.name || tokenInfo.symbol)) {
+            result.name = tokenInfo.name || tokenInfo.symbol;
+        }
+        if (amount !== undefined) {
+            result.amount = amount.toString();
         }
 
-        return (
-            <>
-                {amountFormatted}&nbsp;<span style={{ color: '#7b9726' }}>{address}</span>
-                {price}
-            </>
-        );
+        return result;
+    }
+
+    formatTimestamp(timestamp: number): RenderedTimestamp {
+        return {
+            type: 'timestamp',
+            timestamp: timestamp,
+        };
     }
 
-    renderResult(nodeType: string, nodeColor: string, keys: string[], values: any[]) {
-        return (
-            <>
-                <TraceTreeNodeLabel nodeType={nodeType} nodeColor={nodeColor} />
-                &nbsp;
-                <WithSeparator separator={<>,&nbsp;</>}>
-                    {keys.map((key, idx) => {
-                        return (
-                            <React.Fragment key={`param_${idx}`}>
-                                <span style={{ color: '#a8a19f' }}>{key}</span>={values[idx]}
-                            </React.Fragment>
-                        );
-                    })}
-                </WithSeparator>
-            </>
-        );
+    formatText(text: string | number, color?: string): RenderedText {
+        return {
+            type: 'text',
+            text: text.toString(),
+            color: color,
+        };
+    }
+
+    renderResult(nodeType: string, nodeColor: string, keys: string[], values: RenderedValue[]): RenderedAction {
+        return {
+            type: this.name,
+            label: nodeType,
+            color: nodeColor,
+            fields: keys.map((key, idx) => {
+                return {
+                    name: key,
+                    value: values[idx],
+                };
+            }),
+        };
     }
 }
@@ -1,11 +1,11 @@
 import { DecodeFormatOpts, Decoder, DecoderInput, DecoderState, hasSelector, hasTopic } from './types';
-import { DataRenderer } from '../DataRenderer';
 import { BigNumber, BytesLike, ethers } from 'ethers';
-import * as React from 'react';
-import { EventFragment, Result } from '@ethersproject/abi';
+import { defaultAbiCoder, EventFragment } from '@ethersproject/abi';
 import { FunctionFragment } from '@ethersproject/abi/lib';
-import { SwapAction } from './actions';
-import { TraceEntry, TraceEntryCall } from '../api';
+import { AddLiquidityAction, NATIVE_TOKEN, RemoveLiquidityAction, SwapAction } from './actions';
+import { Log } from '@ethersproject/abstract-provider';
+import { RenderedAction, RenderedValue } from './rendered';
+import { getChain } from '../Chains';
 
 const uniswapsByRouter: Record<string, any> = {
     '0x7a250d5630B4cF539739dF2C5dAcb4c659F2488D': {
@@ -18,7 +18,52 @@ const uniswapsByRouter: Record<string, any> = {
     },
 };
 
-export class UniswapV2RouterSwapDecoder extends Decoder<SwapAction> {
+// pairs sort their tokens by address. the addresses might be checksummed, so they're compared in lowercase
+const getPairTokens = (tokenA: string, tokenB: string): [string, string] => {
+    return tokenA.toLowerCase() < tokenB.toLowerCase() ? [tokenA, tokenB] : [tokenB, tokenA];
+};
+
+const computePairAddress = (factory: string, initcodeHash: BytesLike, tokenA: string, tokenB: string) => {
+    const [token0, token1] = getPairTokens(tokenA, tokenB);
+
+    const salt = ethers.utils.solidityKeccak256(['address', 'address'], [token0, token1]);
+
+    return ethers.utils.getCreate2Address(factory, salt, initcodeHash);
+};
+
+// shared rendering for every decoder which produces a SwapAction
+abstract class UniswapSwapDecoder extends Decoder<SwapAction> {
+    format(result: SwapAction, opts: DecodeFormatOpts): RenderedAction {
+        const keys = [];
+        const values: RenderedValue[] = [];
+
+        if (result.amountIn !== undefined) {
+            keys.push('tokenIn');
+            values.push(this.formatTokenAmount(opts, result.tokenIn, result.amountIn));
+        } else if (result.amountInMax !== undefined) {
+            keys.push('tokenInMax');
+            values.push(this.formatTokenAmount(opts, result.tokenIn, result.amountInMax));
+        }
+
+        if (result.amountOut !== undefined) {
+            keys.push('amountOut');
+            values.push(this.formatTokenAmount(opts, result.tokenOut, result.amountOut));
+        } else if (result.amountOutMin !== undefined) {
+            keys.push('amountOutMin');
+            values.push(this.formatTokenAmount(opts, result.tokenOut, result.amountOutMin));
+        }
+
+        keys.push('recipient');
+        values.push(this.formatAddress(result.recipient));
+
+        keys.push('actor');
+        values.push(this.formatAddress(result.operator));
+
+        return this.renderResult('swap', '#645e9d', keys, values);
+    }
+}
+
+export class UniswapV2RouterSwapDecoder extends UniswapSwapDecoder {
     functions = {
         'swapExactTokensForTokens(uint256 amountIn,uint256 amountOutMin,address[] memory path,address to,uint256 deadline) returns (uint[] memory amounts)':
             {
@@ -85,6 +130,9 @@ export class UniswapV2RouterSwapDecoder extends Decoder<SwapAction> {
             },
     };
 
+    chains = ['ethereum'];
+    addresses = Object.keys(uniswapsByRouter);
+
     constructor() {
         super('uniswap-v2-router-swap');
     }
@@ -149,16 +197,16 @@ export class UniswapV2RouterSwapDecoder extends Decoder<SwapAction> {
             const abi = new ethers.utils.Interface([EventFragment.from(swapEventSelector)]);
 
             const swapEvents = node.logs.filter((log) => hasTopic(log, swapEventSelector));
-            const [firstToken0, firstToken1] = this.getTokens(path[0], path[1]);
-            const firstPairAddress = this.computePairAddress(
+            const [firstToken0, firstToken1] = getPairTokens(path[0], path[1]);
+            const firstPairAddress = computePairAddress(
                 routerInfo.factory,
                 routerInfo.initcodeHash,
                 firstToken0,
                 firstToken1,
             );
 
-            const [lastToken0, lastToken1] = this.getTokens(path[path.length - 2], path[path.length - 1]);
-            const lastPairAddress = this.computePairAddress(
+            const [lastToken0, lastToken1] = getPairTokens(path[path.length - 2], path[path.length - 1]);
+            const lastPairAddress = computePairAddress(
                 routerInfo.factory,
                 routerInfo.initcodeHash,
                 lastToken0,
@@ -219,47 +267,6 @@ export class UniswapV2RouterSwapDecoder extends Decoder<SwapAction> {
         return swapResult;
     }
 
-    format(result: SwapAction, opts: DecodeFormatOpts): JSX.Element {
-        const keys = [];
-        const values = [];
-
-        if (result.amountIn !== undefined) {
-            keys.push('tokenIn');
-            values.push(this.formatTokenAmount(opts, result.tokenIn, result.amountIn));
-        } else if (result.amountInMax !== undefined) {
-            keys.push('tokenInMax');
-            values.push(this.formatTokenAmount(opts, result.tokenIn, result.amountInMax));
-        }
-
-        if (result.amountOut !== undefined) {
-            keys.push('amountOut');
-            values.push(this.formatTokenAmount(opts, result.tokenOut, result.amountOut));
-        } else if (result.amountOutMin !== undefined) {
-            keys.push('amountOutMin');
-            values.push(this.formatTokenAmount(opts, result.tokenOut, result.amountOutMin));
-        }
-
-        keys.push('recipient');
-        values.push(<DataRenderer chain={opts.chain} preferredType={'address'} data={result.recipient} />);
-
-        keys.push('actor');
-        values.push(<DataRenderer chain={opts.chain} preferredType={'address'} data={result.operator} />);
-
-        return this.renderResult('swap', '#645e9d', keys, values);
-    }
-
-    getTokens(tokenA: string, tokenB: string): [string, string] {
-        return tokenA < tokenB ? [tokenA, tokenB] : [tokenB, tokenA];
-    }
-
-    computePairAddress(factory: string, initcodeHash: BytesLike, tokenA: string, tokenB: string) {
-        const [token0, token1] = this.getTokens(tokenA, tokenB);
-
-        const salt = ethers.utils.solidityKeccak256(['address', 'address'], [token0, token1]);
-
-        return ethers.utils.getCreate2Address(factory, salt, initcodeHash);
-    }
-
     consumeSwaps(state: DecoderState, node: DecoderInput) {
         node.children
             ?.filter((call) => call.type === 'call')
@@ -311,431 +318,656 @@ export class UniswapV2RouterSwapDecoder extends Decoder<SwapAction> {
     }
 }
 
-export type UniswapV2RouterAddLiquidityResult = {
-    type: string;
-    actor: string;
-    recipient: string;
-    pool: string;
-    tokenA: string;
-    tokenB: string;
-
-    amountADesired: BigNumber;
-    amountBDesired: BigNumber;
-    amountAMin: BigNumber;
-    amountBMin: BigNumber;
-
-    amountA?: BigNumber;
-    amountB?: BigNumber;
-    liquidity?: BigNumber;
+const uniswapV3sByRouter: Record<string, any> = {
+    // SwapRouter
+    '0xE592427A0AEce92De3Edee1F18E0157C05861564': {
+        factory: '0x1F98431c8aD98523631AE4a59f267346ea31F984',
+        initcodeHash: '0xe34f199b19b2b4f47f68442619d555527d244f78a3297ea89325f843f87b8b54',
+        hasDeadline: true,
+    },
+    // SwapRouter02
+    '0x68b3465833fb72A70ecDF485E0e4C7bD8665Fc45': {
+        factory: '0x1F98431c8aD98523631AE4a59f267346ea31F984',
+        initcodeHash: '0xe34f199b19b2b4f47f68442619d555527d244f78a3297ea89325f843f87b8b54',
+        hasDeadline: false,
+    },
 };
 
-export class UniswapV2RouterAddLiquidityDecoder extends Decoder<UniswapV2RouterAddLiquidityResult> {
+// SwapRouter02 uses these sentinel values in place of a real recipient
+const V3_MSG_SENDER = '0x0000000000000000000000000000000000000001';
+const V3_ADDRESS_THIS = '0x0000000000000000000000000000000000000002';
+
+export class UniswapV3RouterSwapDecoder extends UniswapSwapDecoder {
     functions = {
-        'addLiquidity(address tokenA,address tokenB,uint256 amountADesired,uint256 amountBDesired,uint256 amountAMin,uint256 amountBMin,address to,uint256 deadline) returns (uint amountA, uint amountB, uint liquidity)':
+        'exactInputSingle((address tokenIn,address tokenOut,uint24 fee,address recipient,uint256 deadline,uint256 amountIn,uint256 amountOutMinimum,uint160 sqrtPriceLimitX96) params) returns (uint256 amountOut)':
             {
-                eth: false,
+                exactIn: true,
+                single: true,
+                hasDeadline: true,
             },
-        'addLiquidityETH(address token,uint256 amountTokenDesired,uint256 amountTokenMin,uint256 amountETHMin,address to,uint256) returns (uint amountToken, uint amountETH, uint liquidity)':
+        'exactInput((bytes path,address recipient,uint256 deadline,uint256 amountIn,uint256 amountOutMinimum) params) returns (uint256 amountOut)':
             {
-                eth: true,
+                exactIn: true,
+                single: false,
+                hasDeadline: true,
+            },
+        'exactOutputSingle((address tokenIn,address tokenOut,uint24 fee,address recipient,uint256 deadline,uint256 amountOut,uint256 amountInMaximum,uint160 sqrtPriceLimitX96) params) returns (uint256 amountIn)':
+            {
+                exactIn: false,
+                single: true,
+                hasDeadline: true,
+            },
+        'exactOutput((bytes path,address recipient,uint256 deadline,uint256 amountOut,uint256 amountInMaximum) params) returns (uint256 amountIn)':
+            {
+                exactIn: false,
+                single: false,
+                hasDeadline: true,
+            },
+        'exactInputSingle((address tokenIn,address tokenOut,uint24 fee,address recipient,uint256 amountIn,uint256 amountOutMinimum,uint160 sqrtPriceLimitX96) params) returns (uint256 amountOut)':
+            {
+                exactIn: true,
+                single: true,
+                hasDeadline: false,
+            },
+        'exactInput((bytes path,address recipient,uint256 amountIn,uint256 amountOutMinimum) params) returns (uint256 amountOut)':
+            {
+                exactIn: true,
+                single: false,
+                hasDeadline: false,
+            },
+        'exactOutputSingle((address tokenIn,address tokenOut,uint24 fee,address recipient,uint256 amountOut,uint256 amountInMaximum,uint160 sqrtPriceLimitX96) params) returns (uint256 amountIn)':
+            {
+                exactIn: false,
+                single: true,
+                hasDeadline: false,
+            },
+        'exactOutput((bytes path,address recipient,uint256 amountOut,uint256 amountInMaximum) params) returns (uint256 amountIn)':
+            {
+                exactIn: false,
+                single: false,
+                hasDeadline: false,
             },
     };
 
+    multicallFunctions = [
+        'multicall(bytes[] data)',
+        'multicall(uint256 deadline,bytes[] data)',
+        'multicall(bytes32 previousBlockhash,bytes[] data)',
+    ];
+
+    // calls which move the output of a swap out of the router, only meaningful inside a multicall
+    unwrapFunctions = ['unwrapWETH9(uint256 amountMinimum,address recipient)', 'unwrapWETH9(uint256 amountMinimum)'];
+    sweepFunctions = [
+        'sweepToken(address token,uint256 amountMinimum,address recipient)',
+        'sweepToken(address token,uint256 amountMinimum)',
+    ];
+
+    swapEventFragment = EventFragment.from(
+        'Swap(address indexed sender, address indexed recipient, int256 amount0, int256 amount1, uint160 sqrtPriceX96, uint128 liquidity, int24 tick)',
+    );
+
+    chains = ['ethereum', 'polygon', 'optimism', 'arbitrum'];
+    addresses = Object.keys(uniswapV3sByRouter);
+
     constructor() {
-        super('uniswap-v2-router-add-liquidity');
+        super('uniswap-v3-router-swap');
     }
 
-    decodeCall(state: DecoderState, node: DecoderInput): UniswapV2RouterAddLiquidityResult | null {
+    decodeCall(state: DecoderState, node: DecoderInput): SwapAction | SwapAction[] | null {
         if (state.isConsumed(node)) return null;
         if (node.type !== 'call') return null;
 
+        const routerInfo = uniswapV3sByRouter[node.to];
+        if (!routerInfo) return null;
+
+        if (this.multicallFunctions.find((name) => hasSelector(node.calldata, name))) {
+            return this.decodeMulticall(state, node, routerInfo);
+        }
+
+        return this.decodeSwap(state, node, node.from, routerInfo);
+    }
+
+    // each entry in a multicall is a delegatecall back into the router, so the operator must come from the outer call
+    decodeMulticall(state: DecoderState, node: DecoderInput, routerInfo: any): SwapAction[] | null {
+        if (!node.children) return null;
+
+        state.consume(node);
+
+        const results: SwapAction[] = [];
+        node.children
+            .filter((child) => child.type === 'delegatecall' && child.to === node.to)
+            .forEach((child) => {
+                const swapResult = this.decodeSwap(state, child, node.from, routerInfo);
+                if (swapResult) {
+                    results.push(swapResult);
+                    return;
+                }
+
+                // the router held onto the output, so whoever receives it is the real recipient
+                const pendingSwap = [...results].reverse().find((result) => result.recipient === node.to);
+
+                const unwrapFunction = this.unwrapFunctions.find((name) => hasSelector(child.calldata, name));
+                if (unwrapFunction) {
+                    const [inputs] = this.decodeFunctionWithFragment(child, FunctionFragment.from(unwrapFunction));
+                    state.consumeAllRecursively(child);
+
+                    if (pendingSwap) {
+                        pendingSwap.recipient = inputs['recipient'] || node.from;
+                    }
+                    return;
+                }
+
+                const sweepFunction = this.sweepFunctions.find((name) => hasSelector(child.calldata, name));
+                if (sweepFunction) {
+                    const [inputs] = this.decodeFunctionWithFragment(child, FunctionFragment.from(sweepFunction));
+                    state.consumeAllRecursively(child);
+
+                    if (pendingSwap && pendingSwap.tokenOut === inputs['token']) {
+                        pendingSwap.recipient = inputs['recipient'] || node.from;
+                    }
+                    return;
+                }
+
+                if (hasSelector(child.calldata, 'refundETH()')) {
+                    state.consumeAllRecursively(child);
+                }
+            });
+
+        return results;
+    }
+
+    decodeSwap(state: DecoderState, node: DecoderInput, operator: string, routerInfo: any): SwapAction | null {
         const functionInfo = Object.entries(this.functions).find(([name, func]) => {
-            return hasSelector(node.calldata, name);
+            return func.hasDeadline === routerInfo.hasDeadline && hasSelector(node.calldata, name);
         });
 
         if (!functionInfo) return null;
 
         const [inputs, outputs] = this.decodeFunctionWithFragment(node, FunctionFragment.from(functionInfo[0]));
+        const params = inputs['params'];
 
-        const functionMetadata = functionInfo[1];
+        const swapMetadata = functionInfo[1];
 
-        const result = {
+        let tokens: string[];
+        let fees: number[];
+        if (swapMetadata.single) {
+            tokens = [params['tokenIn'], params['tokenOut']];
+            fees = [params['fee']];
+        } else {
+            [tokens, fees] = this.parsePath(params['path']);
+
+            // exact output paths are encoded backwards, starting from the output token
+            if (!swapMetadata.exactIn) {
+                tokens.reverse();
+                fees.reverse();
+            }
+        }
+
+        // consume the swap and all the payments made through the callback
+        state.consume(node);
+        node.children
+            ?.filter((v) => v.type === 'call' && hasSelector(v.calldata, 'swap(address,bool,int256,uint160,bytes)'))
+            .forEach((v) => this.consumePoolSwap(state, v));
+
+        let recipient = params['recipient'];
+        if (recipient === V3_MSG_SENDER) {
+            recipient = operator;
+        } else if (recipient === V3_ADDRESS_THIS || recipient === ethers.constants.AddressZero) {
+            recipient = node.to;
+        }
+
+        const swapResult: SwapAction = {
             type: this.name,
-            actor: node.from,
-            recipient: inputs['to'],
-            tokenA: functionMetadata.eth ? inputs['token'] : inputs['tokenA'],
-            tokenB: functionMetadata.eth ? '0xeeeeeeeeeeeeeeeeeeeeeeeeeeeeeeeeeeeeeeee' : inputs['tokenB'],
-            amountAMin: functionMetadata.eth ? inputs['amountTokenMin'] : inputs['amountAMin'],
-            amountBMin: functionMetadata.eth ? inputs['amountETHMin'] : inputs['amountBMin'],
-            amountADesired: functionMetadata.eth ? inputs['amountTokenMin'] : inputs['amountAMin'],
-            amountBDesired: functionMetadata.eth ? undefined : inputs['amountBMin'],
+            operator: operator,
+            recipient: recipient,
+            tokenIn: tokens[0],
+            tokenOut: tokens[tokens.length - 1],
         };
 
-        state.requestTokenMetadata(result.tokenA);
-        state.requestTokenMetadata(result.tokenB);
-        state.requestTokenMetadata(result.pool);
+        // flag that we want token metadata to render the result
+        state.requestTokenMetadata(swapResult.tokenIn);
+        state.requestTokenMetadata(swapResult.tokenOut);
 
-        return result;
+        // pull info from from calldata
+        if (swapMetadata.exactIn) {
+            swapResult.amountIn = params['amountIn'];
+            swapResult.amountOutMin = params['amountOutMinimum'];
+        } else {
+            swapResult.amountOut = params['amountOut'];
+            swapResult.amountInMax = params['amountInMaximum'];
+        }
+
+        // pull info from events
+        this.applySwapEvents(swapResult, this.collectSwapEvents(node), tokens, fees, routerInfo);
+
+        // pull info from returndata
+        if (outputs) {
+            if (swapMetadata.exactIn) {
+                swapResult.amountOut = outputs['amountOut'];
+            } else {
+                swapResult.amountIn = outputs['amountIn'];
+            }
+        }
+
+        return swapResult;
     }
 
-    format(result: UniswapV2RouterAddLiquidityResult, opts: DecodeFormatOpts): JSX.Element {
-        return this.renderResult(
-            'add liquidity',
-            '#6c969d',
-            ['tokenA', 'tokenB', 'liquidity', 'recipient', 'actor'],
-            [
-                this.formatTokenAmount(opts, result.tokenA, result.amountA),
-                this.formatTokenAmount(opts, result.tokenB, result.amountB),
-                this.formatTokenAmount(opts, result.pool, result.liquidity),
-                <DataRenderer chain={opts.chain} preferredType={'address'} data={result.recipient} />,
-                <DataRenderer chain={opts.chain} preferredType={'address'} data={result.actor} />,
-            ],
+    // fill in the real amounts of a swap using the Swap events emitted by the first and last pool in the path
+    applySwapEvents(swapResult: SwapAction, swapEvents: Log[], tokens: string[], fees: number[], routerInfo: any) {
+        if (swapEvents.length === 0) return;
+
+        const abi = new ethers.utils.Interface([this.swapEventFragment]);
+
+        const firstPoolAddress = this.computePoolAddress(
+            routerInfo.factory,
+            routerInfo.initcodeHash,
+            tokens[0],
+            tokens[1],
+            fees[0],
+        );
+        const lastPoolAddress = this.computePoolAddress(
+            routerInfo.factory,
+            routerInfo.initcodeHash,
+            tokens[tokens.length - 2],
+            tokens[tokens.length - 1],
+            fees[fees.length - 1],
         );
+
+        const firstSwapEvent = swapEvents.find((event) => event.address === firstPoolAddress);
+        const lastSwapEvent = [...swapEvents].reverse().find((event) => event.address === lastPoolAddress);
+
+        // positive amounts flow into the pool, negative amounts flow out of it
+        if (firstSwapEvent) {
+            const parsedEvent = abi.parseLog(firstSwapEvent);
+
+            swapResult.amountIn = this.isToken0(tokens[0], tokens[1])
+                ? parsedEvent.args['amount0']
+                : parsedEvent.args['amount1'];
+        }
+
+        if (lastSwapEvent) {
+            const parsedEvent = abi.parseLog(lastSwapEvent);
+
+            const amount: BigNumber = this.isToken0(tokens[tokens.length - 1], tokens[tokens.length - 2])
+                ? parsedEvent.args['amount0']
+                : parsedEvent.args['amount1'];
+            swapResult.amountOut = amount.mul(-1);
+        }
     }
 
-    // handles the _addLiquidity function
-    handleAddLiquidity(node: TraceEntryCall, subcalls: TraceEntryCall[], state: DecodeState): boolean {
-        return subcalls[0].input.substring(0, 10) === ethers.utils.id('createPair(address,address)').substring(0, 10);
+    // the path is packed as token (20 bytes), fee (3 bytes), token (20 bytes), ...
+    parsePath(path: BytesLike): [string[], number[]] {
+        const bytes = ethers.utils.arrayify(path);
+
+        const tokens = [];
+        const fees = [];
+
+        let offset = 0;
+        while (true) {
+            tokens.push(ethers.utils.getAddress(ethers.utils.hexlify(bytes.slice(offset, offset + 20))));
+            offset += 20;
+
+            if (offset + 3 > bytes.length) break;
+
+            fees.push(BigNumber.from(bytes.slice(offset, offset + 3)).toNumber());
+            offset += 3;
+        }
+
+        return [tokens, fees];
     }
 
-    decodeAddLiquidity(
-        node: TraceEntryCall,
-        state: DecodeState,
-        inputs: Result,
-        outputs: Result,
-        subcalls: TraceEntryCall[],
-    ) {
-        let idx = this.handleAddLiquidity(node, subcalls, state) ? 1 : 0;
-
-        // handle the transfer from tokenA -> pair
-        this.handleTransferFrom(state, subcalls[idx]);
-
-        // handle the transfer from tokenB -> pair
-        this.handleTransfer(state, subcalls[idx + 1]);
-
-        // handle the mint call
-        this.handleRecursively(state, subcalls[idx + 2]);
-
-        return [
-            subcalls[idx + 2].to,
-            inputs['tokenA'],
-            inputs['tokenB'],
-            outputs['amountA'],
-            outputs['amountB'],
-            outputs['liquidity'],
-            inputs['to'],
-        ];
+    isToken0(token: string, otherToken: string): boolean {
+        return BigNumber.from(token).lt(BigNumber.from(otherToken));
     }
 
-    decodeAddLiquidityETH(
-        node: TraceEntryCall,
-        state: DecodeState,
-        inputs: Result,
-        outputs: Result,
-        subcalls: TraceEntryCall[],
-    ) {
-        let idx = this.handleAddLiquidity(node, subcalls, state) ? 1 : 0;
+    computePoolAddress(factory: string, initcodeHash: BytesLike, tokenA: string, tokenB: string, fee: number) {
+        const [token0, token1] = this.isToken0(tokenA, tokenB) ? [tokenA, tokenB] : [tokenB, tokenA];
 
-        // handle the transfer from tokenA -> pair
-        this.handleTransferFrom(state, subcalls[idx]);
+        const salt = ethers.utils.keccak256(
+            ethers.utils.defaultAbiCoder.encode(['address', 'address', 'uint24'], [token0, token1, fee]),
+        );
 
-        // handle the weth deposit
-        this.handleRecursively(state, subcalls[idx + 1]);
+        return ethers.utils.getCreate2Address(factory, salt, initcodeHash);
+    }
 
-        // handle the weth transfer
-        this.handleRecursively(state, subcalls[idx + 2]);
+    collectSwapEvents(node: DecoderInput): Log[] {
+        const swapEvents: Log[] = [];
 
-        // handle the mint call
-        this.handleRecursively(state, subcalls[idx + 3]);
+        const visit = (node: DecoderInput) => {
+            node.logs?.filter((log) => hasTopic(log, this.swapEventFragment)).forEach((log) => swapEvents.push(log));
+            node.children?.forEach(visit);
+        };
+        visit(node);
 
-        // handle the optional eth refund
-        if (idx + 4 < subcalls.length) {
-            this.handleRecursively(state, subcalls[idx + 4]);
-        }
+        return swapEvents;
+    }
+
+    // consume a call to UniswapV3Pool.swap, the transfer out of the pool, and the callback which pays the pool. for
+    // multihop exact output swaps, the callback will swap through the next pool in the path
+    consumePoolSwap(state: DecoderState, node: DecoderInput) {
+        state.consume(node);
 
-        return [
-            subcalls[idx + 3].to,
-            inputs['token'],
-            '0xeeeeeeeeeeeeeeeeeeeeeeeeeeeeeeeeeeeeeeee',
-            outputs['amountToken'],
-            outputs['amountETH'],
-            outputs['liquidity'],
-            inputs['to'],
-        ];
+        node.logs?.filter((log) => hasTopic(log, this.swapEventFragment)).forEach((log) => state.consume(log));
+
+        node.children?.forEach((child) => {
+            if (child.type === 'staticcall') {
+                state.consumeAll(child);
+            } else if (hasSelector(child.calldata, 'transfer(address,uint256)')) {
+                state.consumeTransfer(child);
+            } else if (hasSelector(child.calldata, 'uniswapV3SwapCallback(int256,int256,bytes)')) {
+                state.consume(child);
+
+                child.children?.forEach((payment) => {
+                    if (hasSelector(payment.calldata, 'swap(address,bool,int256,uint160,bytes)')) {
+                        this.consumePoolSwap(state, payment);
+                    } else if (hasSelector(payment.calldata, 'transferFrom(address,address,uint256)')) {
+                        state.consumeTransferFrom(payment);
+                    } else if (hasSelector(payment.calldata, 'transferFrom(address,address,uint160,address)')) {
+                        // paying through permit2, which pulls the tokens on our behalf
+                        state.consume(payment);
+                        payment.children
+                            ?.filter((v) => hasSelector(v.calldata, 'transferFrom(address,address,uint256)'))
+                            .forEach((v) => state.consumeTransferFrom(v));
+                    } else if (hasSelector(payment.calldata, 'transfer(address,uint256)')) {
+                        state.consumeTransfer(payment);
+                    } else if (hasSelector(payment.calldata, 'deposit()')) {
+                        // paying with eth, the router wraps it first
+                        state.consumeAll(payment);
+                    } else if (payment.type === 'staticcall') {
+                        state.consumeAll(payment);
+                    }
+                });
+            }
+        });
     }
 }
 
-export type UniswapV2RouterRemoveLiquidityResult = {
-    type: string;
-    actor: string;
-    recipient: string;
-    pool: string;
-    tokenA: string;
-    tokenB: string;
-    amountA: BigNumber;
-    amountB: BigNumber;
-    liquidity: BigNumber;
+// the router wraps eth before adding it to a pair, so the pair is always with the wrapped native token
+const computeLiquidityPairAddress = (
+    state: DecoderState,
+    routerInfo: any,
+    eth: boolean,
+    inputs: ethers.utils.Result,
+): string => {
+    const tokenB = eth ? getChain(state.chain)?.wrappedNativeTokenAddress : inputs['tokenB'];
+    if (!tokenB) return '';
+
+    return computePairAddress(
+        routerInfo.factory,
+        routerInfo.initcodeHash,
+        eth ? inputs['token'] : inputs['tokenA'],
+        tokenB,
+    );
 };
 
-export class UniswapV2RouterRemoveLiquidityDecoder extends Decoder<UniswapV2RouterRemoveLiquidityResult> {
-    addLiquidityFunctions = {
-        'removeLiquidity(address tokenA,address tokenB,uint256 liquidity,uint256 amountAMin,uint256 amountBMin,address to,uint256 deadline) returns (uint amountA, uint amountB)':
-            this.decodeRemoveLiquidity.bind(this),
-        'removeLiquidityETH(address token,uint256 liquidity,uint256 amountTokenMin,uint256 amountETHMin,address to,uint256 deadline) returns (uint amountToken, uint amountETH)':
-            this.decodeRemoveLiquidityETH.bind(this),
-        'removeLiquidityWithPermit(address tokenA,address tokenB,uint256 liquidity,uint256 amountAMin,uint256 amountBMin,address to,uint256 deadline,bool approveMax,uint8 v,bytes32 r,bytes32 s) returns (uint amountA, uint amountB)':
-            this.decodeRemoveLiquidityWithPermit.bind(this),
-        'removeLiquidityETHWithPermit(address token,uint256 liquidity,uint256 amountTokenMin,uint256 amountETHMin,address to,uint256 deadline,bool approveMax,uint8 v,bytes32 r,bytes32 s) returns (uint amountToken, uint amountETH)':
-            this.decodeRemoveLiquidityETHWithPermit.bind(this),
-        'removeLiquidityETHSupportingFeeOnTransferTokens(address token,uint256 liquidity,uint256 amountTokenMin,uint256 amountETHMin,address to,uint256 deadline) returns (uint amountETH)':
-            this.decodeRemoveLiquidityETHSupportingFeeOnTransferTokens.bind(this),
-        'removeLiquidityETHWithPermitSupportingFeeOnTransferTokens(address token,uint256 liquidity,uint256 amountTokenMin,uint256 amountETHMin,address to,uint256 deadline,bool approveMax,uint8 v,bytes32 r,bytes32 s) returns (uint amountETH)':
-            this.decodeRemoveLiquidityETHWithPermitSupportingFeeOnTransferTokens.bind(this),
+export class UniswapV2RouterAddLiquidityDecoder extends Decoder<AddLiquidityAction> {
+    functions = {
+        'addLiquidity(address tokenA,address tokenB,uint256 amountADesired,uint256 amountBDesired,uint256 amountAMin,uint256 amountBMin,address to,uint256 deadline) returns (uint amountA, uint amountB, uint liquidity)':
+            {
+                eth: false,
+            },
+        'addLiquidityETH(address token,uint256 amountTokenDesired,uint256 amountTokenMin,uint256 amountETHMin,address to,uint256 deadline) returns (uint amountToken, uint amountETH, uint liquidity)':
+            {
+                eth: true,
+            },
     };
 
+    chains = ['ethereum'];
+    addresses = Object.keys(uniswapsByRouter);
+
     constructor() {
-        super('uniswap-v2-router-remove-liquidity');
+        super('uniswap-v2-router-add-liquidity');
     }
 
-    decode(node: TraceEntry, state: DecodeState): UniswapV2RouterRemoveLiquidityResult | null {
-        if (state.handled[node.path]) return null;
-
+    decodeCall(state: DecoderState, node: DecoderInput): AddLiquidityAction | null {
+        if (state.isConsumed(node)) return null;
         if (node.type !== 'call') return null;
 
-        let selector = node.input.substring(0, 10);
-        let decoder = Object.entries(this.addLiquidityFunctions).find(([name, func]) => {
-            return ethers.utils.id(FunctionFragment.from(name).format()).substring(0, 10) === selector;
+        const routerInfo = uniswapsByRouter[node.to];
+        if (!routerInfo) return null;
+
+        const functionInfo = Object.entries(this.functions).find(([name, func]) => {
+            return hasSelector(node.calldata, name);
         });
 
-        if (!decoder) return null;
+        if (!functionInfo) return null;
 
-        state.handled[node.path] = true;
+        const [inputs, outputs] = this.decodeFunctionWithFragment(node, FunctionFragment.from(functionInfo[0]));
 
-        let [inputs, outputs] = this.decodeFunctionWithFragment(node, FunctionFragment.from(decoder[0]));
+        const functionMetadata = functionInfo[1];
 
-        let subcalls: TraceEntryCall[] = node.children.filter(
-            (v) => v.type === 'call' && v.variant === 'call',
-        ) as TraceEntryCall[];
+        const result: AddLiquidityAction = {
+            type: this.name,
+            operator: node.from,
+            recipient: inputs['to'],
+            // the trace might not have the calls to the pair, in which case this is where it has to be
+            pool: computeLiquidityPairAddress(state, routerInfo, functionMetadata.eth, inputs),
+            tokenA: functionMetadata.eth ? inputs['token'] : inputs['tokenA'],
+            tokenB: functionMetadata.eth ? NATIVE_TOKEN : inputs['tokenB'],
+            amountADesired: functionMetadata.eth ? inputs['amountTokenDesired'] : inputs['amountADesired'],
+            amountBDesired: functionMetadata.eth ? node.value : inputs['amountBDesired'],
+            amountAMin: functionMetadata.eth ? inputs['amountTokenMin'] : inputs['amountAMin'],
+            amountBMin: functionMetadata.eth ? inputs['amountETHMin'] : inputs['amountBMin'],
+        };
 
-        let [pool, tokenA, tokenB, amountA, amountB, liquidity, to] = decoder[1](
-            node,
-            state,
-            inputs,
-            outputs,
-            subcalls,
-        );
+        // consume events and calls if we have them
+        state.consume(node);
+        node.children
+            ?.filter((v) => v.type === 'call')
+            .forEach((v) => {
+                if (hasSelector(v.calldata, 'createPair(address,address)')) {
+                    // the pair didn't exist yet, so the router created it first
+                    state.consumeAllRecursively(v);
+                } else if (hasSelector(v.calldata, 'transferFrom(address,address,uint256)')) {
+                    state.consumeTransferFrom(v);
+                } else if (hasSelector(v.calldata, 'transfer(address,uint256)')) {
+                    state.consumeTransfer(v);
+                } else if (hasSelector(v.calldata, 'deposit()')) {
+                    state.consumeAll(v);
+                } else if (hasSelector(v.calldata, 'mint(address)')) {
+                    // this also consumes the lp tokens being minted to the recipient
+                    state.consumeAllRecursively(v);
+                    result.pool = v.to;
+                } else if (functionMetadata.eth && v.to === node.from && !v.value.isZero()) {
+                    // eth refund
+                    state.consumeAll(v);
+                }
+            });
 
-        this.requestTokenMetadata(state, tokenA);
-        this.requestTokenMetadata(state, tokenB);
-        this.requestTokenMetadata(state, pool);
+        // pull info from returndata
+        if (outputs) {
+            result.amountA = functionMetadata.eth ? outputs['amountToken'] : outputs['amountA'];
+            result.amountB = functionMetadata.eth ? outputs['amountETH'] : outputs['amountB'];
+            result.liquidity = outputs['liquidity'];
+        }
 
-        return {
-            type: this.name,
-            actor: node.from,
-            recipient: to,
-            pool: pool,
-            tokenA: tokenA,
-            tokenB: tokenB,
-            amountA: amountA,
-            amountB: amountB,
-            liquidity: liquidity,
-        };
+        state.requestTokenMetadata(result.tokenA);
+        state.requestTokenMetadata(result.tokenB);
+        if (result.pool) {
+            state.requestTokenMetadata(result.pool);
+        }
+
+        return result;
     }
 
-    format(result: UniswapV2RouterRemoveLiquidityResult, opts: DecodeFormatOpts): JSX.Element {
-        return this.renderResult(
-            'remove liquidity',
-            '#392b58',
-            ['tokenA', 'tokenB', 'liquidity', 'recipient', 'actor'],
-            [
+    format(result: AddLiquidityAction, opts: DecodeFormatOpts): RenderedAction {
+        const keys = [];
+        const values: RenderedValue[] = [];
+
+        if (result.amountA !== undefined && result.amountB !== undefined) {
+            keys.push('tokenA', 'tokenB');
+            values.push(
                 this.formatTokenAmount(opts, result.tokenA, result.amountA),
                 this.formatTokenAmount(opts, result.tokenB, result.amountB),
-                this.formatTokenAmount(opts, result.pool, result.liquidity),
-                <DataRenderer chain={opts.chain} preferredType={'address'} data={result.recipient} />,
-                <DataRenderer chain={opts.chain} preferredType={'address'} data={result.actor} />,
-            ],
-        );
-    }
+            );
+        } else {
+            keys.push('tokenADesired', 'tokenBDesired');
+            values.push(
+                this.formatTokenAmount(opts, result.tokenA, result.amountADesired),
+                this.formatTokenAmount(opts, result.tokenB, result.amountBDesired),
+            );
+        }
 
-    // handles the removeLiquidity function
-    handleRemoveLiquidity(
-        node: TraceEntryCall,
-        subcalls: TraceEntryCall[],
-        state: DecodeState,
-        offset: number,
-    ): number {
-        // handle the transfer from tokenA -> pair
-        this.handleTransferFrom(state, subcalls[offset]);
+        if (result.liquidity !== undefined) {
+            keys.push('liquidity');
+            values.push(this.formatTokenAmount(opts, result.pool, result.liquidity));
+        }
 
-        // handle the burn call
-        this.handleRecursively(state, subcalls[offset + 1]);
+        keys.push('recipient', 'actor');
+        values.push(this.formatAddress(result.recipient), this.formatAddress(result.operator));
 
-        return offset + 2;
+        return this.renderResult('add liquidity', '#6c969d', keys, values);
     }
+}
 
-    decodeRemoveLiquidity(
-        node: TraceEntryCall,
-        state: DecodeState,
-        inputs: Result,
-        outputs: Result,
-        subcalls: TraceEntryCall[],
-    ) {
-        this.handleRemoveLiquidity(node, subcalls, state, 0);
-
-        return [
-            subcalls[0].to,
-            inputs['tokenA'],
-            inputs['tokenB'],
-            outputs['amountA'],
-            outputs['amountB'],
-            inputs['liquidity'],
-            inputs['to'],
-        ];
-    }
+export class UniswapV2RouterRemoveLiquidityDecoder extends Decoder<RemoveLiquidityAction> {
+    functions = {
+        'removeLiquidity(address tokenA,address tokenB,uint256 liquidity,uint256 amountAMin,uint256 amountBMin,address to,uint256 deadline) returns (uint amountA, uint amountB)':
+            {
+                eth: false,
+                fee: false,
+            },
+        'removeLiquidityETH(address token,uint256 liquidity,uint256 amountTokenMin,uint256 amountETHMin,address to,uint256 deadline) returns (uint amountToken, uint amountETH)':
+            {
+                eth: true,
+                fee: false,
+            },
+        'removeLiquidityWithPermit(address tokenA,address tokenB,uint256 liquidity,uint256 amountAMin,uint256 amountBMin,address to,uint256 deadline,bool approveMax,uint8 v,bytes32 r,bytes32 s) returns (uint amountA, uint amountB)':
+            {
+                eth: false,
+                fee: false,
+            },
+        'removeLiquidityETHWithPermit(address token,uint256 liquidity,uint256 amountTokenMin,uint256 amountETHMin,address to,uint256 deadline,bool approveMax,uint8 v,bytes32 r,bytes32 s) returns (uint amountToken, uint amountETH)':
+            {
+                eth: true,
+                fee: false,
+            },
+        'removeLiquidityETHSupportingFeeOnTransferTokens(address token,uint256 liquidity,uint256 amountTokenMin,uint256 amountETHMin,address to,uint256 deadline) returns (uint amountETH)':
+            {
+                eth: true,
+                fee: true,
+            },
+        'removeLiquidityETHWithPermitSupportingFeeOnTransferTokens(address token,uint256 liquidity,uint256 amountTokenMin,uint256 amountETHMin,address to,uint256 deadline,bool approveMax,uint8 v,bytes32 r,bytes32 s) returns (uint amountETH)':
+            {
+                eth: true,
+                fee: true,
+            },
+    };
 
-    decodeRemoveLiquidityETH(
-        node: TraceEntryCall,
-        state: DecodeState,
-        inputs: Result,
-        outputs: Result,
-        subcalls: TraceEntryCall[],
-    ) {
-        this.handleRemoveLiquidity(node, subcalls, state, 0);
-
-        // handle the transfer
-        this.handleTransfer(state, subcalls[2]);
-
-        // handle the weth withdraw
-        this.handleRecursively(state, subcalls[3]);
-
-        // handle the eth return
-        state.handled[subcalls[4].path] = true;
-
-        return [
-            subcalls[0].to,
-            inputs['token'],
-            '0xeeeeeeeeeeeeeeeeeeeeeeeeeeeeeeeeeeeeeeee',
-            outputs['amountToken'],
-            outputs['amountETH'],
-            inputs['liquidity'],
-            inputs['to'],
-        ];
-    }
+    chains = ['ethereum'];
+    addresses = Object.keys(uniswapsByRouter);
 
-    decodeRemoveLiquidityWithPermit(
-        node: TraceEntryCall,
-        state: DecodeState,
-        inputs: Result,
-        outputs: Result,
-        subcalls: TraceEntryCall[],
-    ) {
-        this.handleRemoveLiquidity(node, subcalls, state, 1);
-
-        return [
-            subcalls[0].to,
-            inputs['tokenA'],
-            inputs['tokenB'],
-            outputs['amountA'],
-            outputs['amountB'],
-            inputs['liquidity'],
-            inputs['to'],
-        ];
+    constructor() {
+        super('uniswap-v2-router-remove-liquidity');
     }
 
-    decodeRemoveLiquidityETHWithPermit(
-        node: TraceEntryCall,
-        state: DecodeState,
-        inputs: Result,
-        outputs: Result,
-        subcalls: TraceEntryCall[],
-    ) {
-        let offset = this.handleRemoveLiquidity(node, subcalls, state, 1);
-
-        // handle the transfer
-        this.handleTransfer(state, subcalls[offset]);
-
-        // handle the weth withdraw
-        this.handleRecursively(state, subcalls[offset + 1]);
-
-        // handle the eth return
-        state.handled[subcalls[offset + 2].path] = true;
-
-        return [
-            subcalls[0].to,
-            inputs['token'],
-            '0xeeeeeeeeeeeeeeeeeeeeeeeeeeeeeeeeeeeeeeee',
-            outputs['amountToken'],
-            outputs['amountETH'],
-            inputs['liquidity'],
-            inputs['to'],
-        ];
-    }
+    decodeCall(state: DecoderState, node: DecoderInput): RemoveLiquidityAction | null {
+        if (state.isConsumed(node)) return null;
+        if (node.type !== 'call') return null;
+
+        const routerInfo = uniswapsByRouter[node.to];
+        if (!routerInfo) return null;
 
-    decodeRemoveLiquidityETHSupportingFeeOnTransferTokens(
-        node: TraceEntryCall,
-        state: DecodeState,
-        inputs: Result,
-        outputs: Result,
-        subcalls: TraceEntryCall[],
-    ) {
-        let offset = this.handleRemoveLiquidity(node, subcalls, state, 0);
+        const functionInfo = Object.entries(this.functions).find(([name, func]) => {
+            return hasSelector(node.calldata, name);
+        });
 
-        // handle the transfer
-        this.handleTransfer(state, subcalls[offset]);
+        if (!functionInfo) return null;
 
-        // handle the weth withdraw
-        this.handleRecursively(state, subcalls[offset + 1]);
+        const [inputs, outputs] = this.decodeFunctionWithFragment(node, FunctionFragment.from(functionInfo[0]));
 
-        // handle the eth return
-        state.handled[subcalls[offset + 2].path] = true;
+        const functionMetadata = functionInfo[1];
 
-        let staticcalls = node.children.filter(
-            (v): v is TraceEntryCall => v.type === 'call' && v.variant === 'staticcall',
-        );
-        let output = BigNumber.from(staticcalls[staticcalls.length - 1].output);
-
-        return [
-            subcalls[0].to,
-            inputs['token'],
-            '0xeeeeeeeeeeeeeeeeeeeeeeeeeeeeeeeeeeeeeeee',
-            output,
-            outputs['amountETH'],
-            inputs['liquidity'],
-            inputs['to'],
-        ];
-    }
+        const result: RemoveLiquidityAction = {
+            type: this.name,
+            operator: node.from,
+            recipient: inputs['to'],
+            pool: computeLiquidityPairAddress(state, routerInfo, functionMetadata.eth, inputs),
+            tokenA: functionMetadata.eth ? inputs['token'] : inputs['tokenA'],
+            tokenB: functionMetadata.eth ? NATIVE_TOKEN : inputs['tokenB'],
+            liquidity: inputs['liquidity'],
+            amountAMin: functionMetadata.eth ? inputs['amountTokenMin'] : inputs['amountAMin'],
+            amountBMin: functionMetadata.eth ? inputs['amountETHMin'] : inputs['amountBMin'],
+        };
 
-    decodeRemoveLiquidityETHWithPermitSupportingFeeOnTransferTokens(
-        node: TraceEntryCall,
-        state: DecodeState,
-        inputs: Result,
-        outputs: Result,
-        subcalls: TraceEntryCall[],
-    ) {
-        let offset = this.handleRemoveLiquidity(node, subcalls, state, 1);
+        // consume events and calls if we have them
+        state.consume(node);
+        node.children
+            ?.filter((v) => v.type === 'call')
+            .forEach((v) => {
+                if (hasSelector(v.calldata, 'permit(address,address,uint256,uint256,uint8,bytes32,bytes32)')) {
+                    state.consumeAll(v);
+                } else if (hasSelector(v.calldata, 'transferFrom(address,address,uint256)')) {
+                    // the lp tokens being sent back to the pair
+                    state.consumeTransferFrom(v);
+                    result.pool = v.to;
+                } else if (hasSelector(v.calldata, 'burn(address)')) {
+                    // this also consumes the tokens being sent out of the pair
+                    state.consumeAllRecursively(v);
+                    result.pool = v.to;
+                } else if (hasSelector(v.calldata, 'transfer(address,uint256)')) {
+                    state.consumeTransfer(v);
+
+                    if (functionMetadata.fee) {
+                        // the router forwards its entire balance, which is the only way to know what was received
+                        const [, amount] = defaultAbiCoder.decode(
+                            ['address', 'uint256'],
+                            ethers.utils.arrayify(v.calldata).slice(4),
+                        );
+                        result.amountA = amount;
+                    }
+                } else if (hasSelector(v.calldata, 'withdraw(uint256)')) {
+                    state.consumeAllRecursively(v);
+                } else if (functionMetadata.eth && !v.value.isZero()) {
+                    // eth being sent to the recipient
+                    state.consumeAll(v);
+                }
+            });
 
-        // handle the transfer
-        this.handleTransfer(state, subcalls[offset]);
+        // pull info from returndata
+        if (outputs) {
+            if (functionMetadata.fee) {
+                result.amountB = outputs['amountETH'];
+            } else {
+                result.amountA = functionMetadata.eth ? outputs['amountToken'] : outputs['amountA'];
+                result.amountB = functionMetadata.eth ? outputs['amountETH'] : outputs['amountB'];
+            }
+        }
+
+        state.requestTokenMetadata(result.tokenA);
+        state.requestTokenMetadata(result.tokenB);
+        if (result.pool) {
+            state.requestTokenMetadata(result.pool);
+        }
+
+        return result;
+    }
 
-        // handle the weth withdraw
-        this.handleRecursively(state, subcalls[offset + 1]);
+    format(result: RemoveLiquidityAction, opts: DecodeFormatOpts): RenderedAction {
+        const keys = [];
+        const values: RenderedValue[] = [];
 
-        // handle the eth return
-        state.handled[subcalls[offset + 2].path] = true;
+        if (result.amountA !== undefined && result.amountB !== undefined) {
+            keys.push('tokenA', 'tokenB');
+            values.push(
+                this.formatTokenAmount(opts, result.tokenA, result.amountA),
+                this.formatTokenAmount(opts, result.tokenB, result.amountB),
+            );
+        } else {
+            keys.push('tokenAMin', 'tokenBMin');
+            values.push(
+                this.formatTokenAmount(opts, result.tokenA, result.amountAMin),
+                this.formatTokenAmount(opts, result.tokenB, result.amountBMin),
+            );
+        }
 
-        let staticcalls = node.children.filter(
-            (v): v is TraceEntryCall => v.type === 'call' && v.variant === 'staticcall',
+        keys.push('liquidity', 'recipient', 'actor');
+        values.push(
+            this.formatTokenAmount(opts, result.pool, result.liquidity),
+            this.formatAddress(result.recipient),
+            this.formatAddress(result.operator),
         );
-        let output = BigNumber.from(staticcalls[staticcalls.length - 1].output);
-
-        return [
-            subcalls[0].to,
-            inputs['token'],
-            '0xeeeeeeeeeeeeeeeeeeeeeeeeeeeeeeeeeeeeeeee',
-            output,
-            outputs['amountETH'],
-            inputs['liquidity'],
-            inputs['to'],
-        ];
+
+        return this.renderResult('remove liquidity', '#392b58', keys, values);
     }
 }
@@ -0,0 +1,586 @@
+import { DecodeFormatOpts, Decoder, DecoderInput, DecoderState, hasSelector, hasTopic } from './types';
+import { BigNumber, ethers } from 'ethers';
+import { defaultAbiCoder, EventFragment, FunctionFragment, ParamType } from '@ethersproject/abi/lib';
+import { Log } from '@ethersproject/abstract-provider';
+import { NATIVE_TOKEN, SwapAction, TransferAction } from './actions';
+import { UniswapV3RouterSwapDecoder } from './uniswap';
+import { RenderedAction } from './rendered';
+
+const universalRoutersByAddress: Record<string, any> = {
+    '0xEf1c6E67703c7BD7107eed8303Fbe6EC2554BF6B': {
+        permit2: '0x000000000022D473030F116dDEE9F6B43aC78BA3',
+        v3: {
+            factory: '0x1F98431c8aD98523631AE4a59f267346ea31F984',
+            initcodeHash: '0xe34f199b19b2b4f47f68442619d555527d244f78a3297ea89325f843f87b8b54',
+        },
+    },
+    '0x3fC91A3afd70395Cd496C647d5a6CC9D4B2b7FAD': {
+        permit2: '0x000000000022D473030F116dDEE9F6B43aC78BA3',
+        v3: {
+            factory: '0x1F98431c8aD98523631AE4a59f267346ea31F984',
+            initcodeHash: '0xe34f199b19b2b4f47f68442619d555527d244f78a3297ea89325f843f87b8b54',
+        },
+    },
+};
+
+// see Commands.sol in the universal router, the top bits of each command are flags
+const COMMAND_TYPE_MASK = 0x3f;
+
+const commandInputs: Record<number, { name: string; params: ParamType[] }> = {
+    0x00: {
+        name: 'V3_SWAP_EXACT_IN',
+        params: ['address recipient', 'uint256 amountIn', 'uint256 amountOutMin', 'bytes path', 'bool payerIsUser'].map(
+            (v) => ParamType.from(v),
+        ),
+    },
+    0x01: {
+        name: 'V3_SWAP_EXACT_OUT',
+        params: ['address recipient', 'uint256 amountOut', 'uint256 amountInMax', 'bytes path', 'bool payerIsUser'].map(
+            (v) => ParamType.from(v),
+        ),
+    },
+    0x04: {
+        name: 'SWEEP',
+        params: ['address token', 'address recipient', 'uint256 amountMin'].map((v) => ParamType.from(v)),
+    },
+    0x05: {
+        name: 'TRANSFER',
+        params: ['address token', 'address recipient', 'uint256 value'].map((v) => ParamType.from(v)),
+    },
+    0x06: {
+        name: 'PAY_PORTION',
+        params: ['address token', 'address recipient', 'uint256 bips'].map((v) => ParamType.from(v)),
+    },
+    0x08: {
+        name: 'V2_SWAP_EXACT_IN',
+        params: [
+            'address recipient',
+            'uint256 amountIn',
+            'uint256 amountOutMin',
+            'address[] path',
+            'bool payerIsUser',
+        ].map((v) => ParamType.from(v)),
+    },
+    0x09: {
+        name: 'V2_SWAP_EXACT_OUT',
+        params: [
+            'address recipient',
+            'uint256 amountOut',
+            'uint256 amountInMax',
+            'address[] path',
+            'bool payerIsUser',
+        ].map((v) => ParamType.from(v)),
+    },
+    0x0a: {
+        name: 'PERMIT2_PERMIT',
+        params: [
+            'tuple(tuple(address token, uint160 amount, uint48 expiration, uint48 nonce) details, address spender, uint256 sigDeadline) permitSingle',
+            'bytes signature',
+        ].map((v) => ParamType.from(v)),
+    },
+    0x0b: {
+        name: 'WRAP_ETH',
+        params: ['address recipient', 'uint256 amountMin'].map((v) => ParamType.from(v)),
+    },
+    0x0c: {
+        name: 'UNWRAP_WETH',
+        params: ['address recipient', 'uint256 amountMin'].map((v) => ParamType.from(v)),
+    },
+};
+
+// the universal router uses these sentinel values in place of a real recipient
+const UR_MSG_SENDER = '0x0000000000000000000000000000000000000001';
+const UR_ADDRESS_THIS = '0x0000000000000000000000000000000000000002';
+
+export type UniversalRouterSwapAction = SwapAction & {
+    command: 'v2-swap' | 'v3-swap';
+};
+
+export type UniversalRouterTransferAction = TransferAction & {
+    command: 'wrap' | 'unwrap' | 'sweep' | 'transfer' | 'pay-portion';
+};
+
+export type UniversalRouterPermitAction = {
+    type: string;
+    command: 'permit2-permit';
+
+    operator: string;
+
+    owner: string;
+    spender: string;
+    token: string;
+    amount: BigNumber;
+    expiration: number;
+};
+
+export type UniversalRouterCommandAction =
+    | UniversalRouterSwapAction
+    | UniversalRouterTransferAction
+    | UniversalRouterPermitAction;
+
+export type UniversalRouterExecuteAction = {
+    type: string;
+    command: 'execute';
+
+    operator: string;
+
+    children: UniversalRouterCommandAction[];
+};
+
+export type UniversalRouterAction = UniversalRouterExecuteAction | UniversalRouterCommandAction;
+
+type TakeCall = (predicate: (node: DecoderInput) => boolean) => DecoderInput | undefined;
+
+export class UniversalRouterDecoder extends Decoder<UniversalRouterAction> {
+    functions = ['execute(bytes commands,bytes[] inputs,uint256 deadline)', 'execute(bytes commands,bytes[] inputs)'];
+
+    v2SwapEventFragment = EventFragment.from(
+        'Swap(address indexed sender, uint amount0In, uint amount1In, uint amount0Out, uint amount1Out, address indexed to)',
+    );
+
+    // the universal router talks to pools the same way SwapRouter does, so reuse its helpers
+    v3 = new UniswapV3RouterSwapDecoder();
+
+    chains = ['ethereum', 'polygon', 'optimism', 'arbitrum'];
+    addresses = Object.keys(universalRoutersByAddress);
+
+    constructor() {
+        super('uniswap-universal-router');
+    }
+
+    decodeCall(state: DecoderState, node: DecoderInput): UniversalRouterExecuteAction | null {
+        if (state.isConsumed(node)) return null;
+        if (node.type !== 'call') return null;
+
+        const routerInfo = universalRoutersByAddress[node.to];
+        if (!routerInfo) return null;
+
+        const functionName = this.functions.find((name) => hasSelector(node.calldata, name));
+        if (!functionName) return null;
+
+        const [inputs] = this.decodeFunctionWithFragment(node, FunctionFragment.from(functionName));
+
+        state.consume(node);
+
+        // reading balances has no effect, so there's nothing to explain
+        node.children?.filter((v) => v.type === 'staticcall').forEach((v) => state.consumeAll(v));
+
+        // commands are executed in order, so the calls made by a command directly follow those of the previous one.
+        // a command only ever takes the next call, if it doesn't match then the command didn't make it (e.g. because
+        // an earlier swap already paid the pair) and it's left for the next command
+        const calls = node.children?.filter((v) => v.type !== 'staticcall') || [];
+        let cursor = 0;
+        const takeCall: TakeCall = (predicate) => {
+            if (cursor >= calls.length || !predicate(calls[cursor])) return undefined;
+
+            return calls[cursor++];
+        };
+
+        const commands = ethers.utils.arrayify(inputs['commands']);
+        const results: UniversalRouterCommandAction[] = [];
+        for (let idx = 0; idx < commands.length; idx++) {
+            // we don't know which calls an unknown command made, so the calls after it can't be matched up either
+            const commandInfo = commandInputs[commands[idx] & COMMAND_TYPE_MASK];
+            if (!commandInfo) break;
+
+            const commandParams = defaultAbiCoder.decode(commandInfo.params, inputs['inputs'][idx]);
+
+            const result = this.decodeCommand(state, node, routerInfo, commandInfo.name, commandParams, takeCall);
+            if (result) {
+                results.push(result);
+            }
+        }
+
+        return {
+            type: this.name,
+            command: 'execute',
+            operator: node.from,
+            children: results,
+        };
+    }
+
+    decodeCommand(
+        state: DecoderState,
+        node: DecoderInput,
+        routerInfo: any,
+        command: string,
+        params: ethers.utils.Result,
+        takeCall: TakeCall,
+    ): UniversalRouterCommandAction | null {
+        switch (command) {
+            case 'V3_SWAP_EXACT_IN':
+            case 'V3_SWAP_EXACT_OUT':
+                return this.decodeV3Swap(state, node, routerInfo, command === 'V3_SWAP_EXACT_IN', params, takeCall);
+            case 'V2_SWAP_EXACT_IN':
+            case 'V2_SWAP_EXACT_OUT':
+                return this.decodeV2Swap(state, node, routerInfo, command === 'V2_SWAP_EXACT_IN', params, takeCall);
+            case 'WRAP_ETH':
+                return this.decodeWrap(state, node, params, takeCall);
+            case 'UNWRAP_WETH':
+                return this.decodeUnwrap(state, node, params, takeCall);
+            case 'SWEEP':
+                return this.decodePayment(state, node, 'sweep', params, takeCall);
+            case 'TRANSFER':
+                return this.decodePayment(state, node, 'transfer', params, takeCall);
+            case 'PAY_PORTION':
+                return this.decodePayment(state, node, 'pay-portion', params, takeCall);
+            case 'PERMIT2_PERMIT':
+                return this.decodePermit(state, node, routerInfo, params, takeCall);
+        }
+
+        return null;
+    }
+
+    decodeV3Swap(
+        state: DecoderState,
+        node: DecoderInput,
+        routerInfo: any,
+        exactIn: boolean,
+        params: ethers.utils.Result,
+        takeCall: TakeCall,
+    ): UniversalRouterSwapAction {
+        const [tokens, fees] = this.v3.parsePath(params['path']);
+
+        // exact output paths are encoded backwards, starting from the output token
+        if (!exactIn) {
+            tokens.reverse();
+            fees.reverse();
+        }
+
+        // exact input swaps call each pool in turn, exact output swaps recurse through the callback
+        const poolCalls: DecoderInput[] = [];
+        for (let i = 0; i < (exactIn ? fees.length : 1); i++) {
+            const poolCall = takeCall((v) => hasSelector(v.calldata, 'swap(address,bool,int256,uint160,bytes)'));
+            if (!poolCall) break;
+
+            this.v3.consumePoolSwap(state, poolCall);
+            poolCalls.push(poolCall);
+        }
+
+        const swapResult: UniversalRouterSwapAction = {
+            type: this.name,
+            command: 'v3-swap',
+            operator: node.from,
+            recipient: this.mapRecipient(node, params['recipient']),
+            tokenIn: tokens[0],
+            tokenOut: tokens[tokens.length - 1],
+        };
+
+        state.requestTokenMetadata(swapResult.tokenIn);
+        state.requestTokenMetadata(swapResult.tokenOut);
+
+        if (exactIn) {
+            swapResult.amountIn = params['amountIn'];
+            swapResult.amountOutMin = params['amountOutMin'];
+        } else {
+            swapResult.amountOut = params['amountOut'];
+            swapResult.amountInMax = params['amountInMax'];
+        }
+
+        this.v3.applySwapEvents(
+            swapResult,
+            poolCalls.flatMap((v) => this.v3.collectSwapEvents(v)),
+            tokens,
+            fees,
+            routerInfo.v3,
+        );
+
+        return swapResult;
+    }
+
+    decodeV2Swap(
+        state: DecoderState,
+        node: DecoderInput,
+        routerInfo: any,
+        exactIn: boolean,
+        params: ethers.utils.Result,
+        takeCall: TakeCall,
+    ): UniversalRouterSwapAction {
+        const path: string[] = params['path'];
+
+        // the input is paid to the first pair up front, either directly or through permit2
+        const payment = takeCall(
+            (v) =>
+                (v.to === path[0] && hasSelector(v.calldata, 'transfer(address,uint256)')) ||
+                (v.to === routerInfo.permit2 &&
+                    hasSelector(v.calldata, 'transferFrom(address,address,uint160,address)')),
+        );
+        if (payment) {
+            this.consumePayment(state, payment);
+        }
+
+        const pairCalls: DecoderInput[] = [];
+        for (let i = 0; i < path.length - 1; i++) {
+            const pairCall = takeCall((v) => hasSelector(v.calldata, 'swap(uint256,uint256,address,bytes)'));
+            if (!pairCall) break;
+
+            state.consumeAll(pairCall);
+            pairCall.children?.forEach((v) => {
+                if (v.type === 'staticcall') {
+                    state.consumeAll(v);
+                } else if (hasSelector(v.calldata, 'transfer(address,uint256)')) {
+                    state.consumeTransfer(v);
+                }
+            });
+            pairCalls.push(pairCall);
+        }
+
+        const swapResult: UniversalRouterSwapAction = {
+            type: this.name,
+            command: 'v2-swap',
+            operator: node.from,
+            recipient: this.mapRecipient(node, params['recipient']),
+            tokenIn: path[0],
+            tokenOut: path[path.length - 1],
+        };
+
+        state.requestTokenMetadata(swapResult.tokenIn);
+        state.requestTokenMetadata(swapResult.tokenOut);
+
+        if (exactIn) {
+            swapResult.amountIn = params['amountIn'];
+            swapResult.amountOutMin = params['amountOutMin'];
+        } else {
+            swapResult.amountOut = params['amountOut'];
+            swapResult.amountInMax = params['amountInMax'];
+        }
+
+        // pairs are always swapped through in path order, so the first and last swap events tell us the amounts
+        const abi = new ethers.utils.Interface([this.v2SwapEventFragment]);
+        const firstSwapEvent = pairCalls.length > 0 ? this.findLog(pairCalls[0], this.v2SwapEventFragment) : undefined;
+        const lastSwapEvent =
+            pairCalls.length === path.length - 1
+                ? this.findLog(pairCalls[pairCalls.length - 1], this.v2SwapEventFragment)
+                : undefined;
+
+        if (firstSwapEvent) {
+            const parsedEvent = abi.parseLog(firstSwapEvent);
+
+            swapResult.amountIn = this.v3.isToken0(path[0], path[1])
+                ? parsedEvent.args['amount0In']
+                : parsedEvent.args['amount1In'];
+        }
+
+        if (lastSwapEvent) {
+            const parsedEvent = abi.parseLog(lastSwapEvent);
+
+            swapResult.amountOut = this.v3.isToken0(path[path.length - 1], path[path.length - 2])
+                ? parsedEvent.args['amount0Out']
+                : parsedEvent.args['amount1Out'];
+        }
+
+        return swapResult;
+    }
+
+    decodeWrap(
+        state: DecoderState,
+        node: DecoderInput,
+        params: ethers.utils.Result,
+        takeCall: TakeCall,
+    ): UniversalRouterTransferAction | null {
+        const deposit = takeCall((v) => hasSelector(v.calldata, 'deposit()'));
+        if (!deposit) return null;
+
+        state.consumeAll(deposit);
+
+        const recipient = this.mapRecipient(node, params['recipient']);
+        if (recipient !== node.to) {
+            const transfer = takeCall(
+                (v) => v.to === deposit.to && hasSelector(v.calldata, 'transfer(address,uint256)'),
+            );
+            if (transfer) {
+                state.consumeTransfer(transfer);
+            }
+        }
+
+        state.requestTokenMetadata(deposit.to);
+
+        return {
+            type: this.name,
+            command: 'wrap',
+            operator: node.from,
+            from: node.to,
+            to: recipient,
+            token: deposit.to,
+            amount: deposit.value,
+        };
+    }
+
+    decodeUnwrap(
+        state: DecoderState,
+        node: DecoderInput,
+        params: ethers.utils.Result,
+        takeCall: TakeCall,
+    ): UniversalRouterTransferAction | null {
+        const withdraw = takeCall((v) => hasSelector(v.calldata, 'withdraw(uint256)'));
+        if (!withdraw) return null;
+
+        // this also consumes the eth being sent back to the router
+        state.consumeAllRecursively(withdraw);
+
+        const [amount] = defaultAbiCoder.decode(['uint256'], ethers.utils.arrayify(withdraw.calldata).slice(4));
+
+        const recipient = this.mapRecipient(node, params['recipient']);
+        if (recipient !== node.to) {
+            const send = takeCall((v) => v.to === recipient && !v.value.isZero());
+            if (send) {
+                state.consumeAllRecursively(send);
+            }
+        }
+
+        return {
+            type: this.name,
+            command: 'unwrap',
+            operator: node.from,
+            from: node.to,
+            to: recipient,
+            token: NATIVE_TOKEN,
+            amount: amount,
+        };
+    }
+
+    // SWEEP, TRANSFER, and PAY_PORTION all pay out of the router's balance, either in eth or in tokens
+    decodePayment(
+        state: DecoderState,
+        node: DecoderInput,
+        command: 'sweep' | 'transfer' | 'pay-portion',
+        params: ethers.utils.Result,
+        takeCall: TakeCall,
+    ): UniversalRouterTransferAction | null {
+        const recipient = this.mapRecipient(node, params['recipient']);
+
+        if (params['token'] === ethers.constants.AddressZero) {
+            const send = takeCall((v) => v.to === recipient && !v.value.isZero());
+            if (!send) return null;
+
+            state.consumeAllRecursively(send);
+
+            return {
+                type: this.name,
+                command: command,
+                operator: node.from,
+                from: node.to,
+                to: recipient,
+                token: NATIVE_TOKEN,
+                amount: send.value,
+            };
+        }
+
+        const decodeTransfer = (v: DecoderInput) =>
+            defaultAbiCoder.decode(['address', 'uint256'], ethers.utils.arrayify(v.calldata).slice(4));
+
+        const transfer = takeCall(
+            (v) =>
+                v.to === params['token'] &&
+                hasSelector(v.calldata, 'transfer(address,uint256)') &&
+                decodeTransfer(v)[0] === recipient,
+        );
+        if (!transfer) return null;
+
+        state.consumeTransfer(transfer);
+        state.requestTokenMetadata(params['token']);
+
+        const [, amount] = decodeTransfer(transfer);
+
+        return {
+            type: this.name,
+            command: command,
+            operator: node.from,
+            from: node.to,
+            to: recipient,
+            token: params['token'],
+            amount: amount,
+        };
+    }
+
+    decodePermit(
+        state: DecoderState,
+        node: DecoderInput,
+        routerInfo: any,
+        params: ethers.utils.Result,
+        takeCall: TakeCall,
+    ): UniversalRouterPermitAction | null {
+        const permitCall = takeCall(
+            (v) =>
+                v.to === routerInfo.permit2 &&
+                hasSelector(v.calldata, 'permit(address,((address,uint160,uint48,uint48),address,uint256),bytes)'),
+        );
+        if (permitCall) {
+            state.consumeAllRecursively(permitCall);
+        }
+
+        const permitSingle = params['permitSingle'];
+
+        state.requestTokenMetadata(permitSingle['details']['token']);
+
+        return {
+            type: this.name,
+            command: 'permit2-permit',
+            operator: node.from,
+            owner: node.from,
+            spender: permitSingle['spender'],
+            token: permitSingle['details']['token'],
+            amount: permitSingle['details']['amount'],
+            expiration: permitSingle['details']['expiration'],
+        };
+    }
+
+    consumePayment(state: DecoderState, payment: DecoderInput) {
+        if (hasSelector(payment.calldata, 'transfer(address,uint256)')) {
+            state.consumeTransfer(payment);
+        } else {
+            state.consume(payment);
+            payment.children
+                ?.filter((v) => hasSelector(v.calldata, 'transferFrom(address,address,uint256)'))
+                .forEach((v) => state.consumeTransferFrom(v));
+        }
+    }
+
+    mapRecipient(node: DecoderInput, recipient: string): string {
+        if (recipient === UR_MSG_SENDER) return node.from;
+        if (recipient === UR_ADDRESS_THIS) return node.to;
+        return recipient;
+    }
+
+    findLog(node: DecoderInput, fragment: EventFragment): Log | undefined {
+        return node.logs?.find((log) => hasTopic(log, fragment));
+    }
+
+    format(result: UniversalRouterAction, opts: DecodeFormatOpts): RenderedAction {
+        switch (result.command) {
+            case 'execute':
+                return this.renderResult(
+                    'execute',
+                    '#645e9d',
+                    ['commands', 'actor'],
+                    [this.formatText(result.children.length), this.formatAddress(result.operator)],
+                );
+            case 'v2-swap':
+            case 'v3-swap':
+                return this.v3.format(result, opts);
+            case 'permit2-permit':
+                return this.renderResult(
+                    'permit2 permit',
+                    '#6c969d',
+                    ['amount', 'spender', 'expiration', 'owner'],
+                    [
+                        this.formatTokenAmount(opts, result.token, result.amount),
+                        this.formatAddress(result.spender),
+                        this.formatTimestamp(result.expiration),
+                        this.formatAddress(result.owner),
+                    ],
+                );
+            default:
+                return this.renderResult(
+                    result.command.replace('-', ' '),
+                    '#392b58',
+                    ['amount', 'recipient', 'operator'],
+                    [
+                        this.formatTokenAmount(opts, result.token, result.amount),
+                        this.formatAddress(result.to),
+                        this.formatAddress(result.operator),
+                    ],
+                );
+        }
+    }
+}
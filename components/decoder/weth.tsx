@@ -0,0 +1,79 @@
+import { DecodeFormatOpts, Decoder, DecoderInput, DecoderState, getSelector, hasSelector, hasTopic } from './types';
+import { EventFragment, FunctionFragment } from '@ethersproject/abi/lib';
+import { NATIVE_TOKEN, WrapAction } from './actions';
+import { getChain } from '../Chains';
+import { ethers } from 'ethers';
+import { RenderedAction } from './rendered';
+
+const withdrawalEventFragment = EventFragment.from('Withdrawal(address indexed src, uint256 wad)');
+
+export class WrappedNativeTokenDecoder extends Decoder<WrapAction> {
+    // custom chains can be added at any time, so the address is checked against the chain being decoded instead.
+    // sending native tokens with no calldata has an empty selector
+    selectors = ['0x', getSelector('deposit()'), getSelector('withdraw(uint256)')];
+
+    constructor() {
+        super('wrapped-native-token');
+    }
+
+    decodeCall(state: DecoderState, node: DecoderInput): WrapAction | null {
+        if (state.isConsumed(node)) return null;
+        if (node.type !== 'call') return null;
+
+        const wrappedNativeToken = getChain(state.chain)?.wrappedNativeTokenAddress;
+        if (!wrappedNativeToken || wrappedNativeToken.toLowerCase() !== node.to.toLowerCase()) return null;
+
+        // sending native tokens with no calldata falls back to deposit()
+        const isDeposit =
+            hasSelector(node.calldata, 'deposit()') ||
+            (ethers.utils.arrayify(node.calldata).length === 0 && !node.value.isZero());
+        if (isDeposit) {
+            // consume the Deposit event
+            state.consumeAll(node);
+
+            return {
+                type: this.name,
+                operation: 'wrap',
+                operator: node.from,
+                account: node.from,
+                token: node.to,
+                amount: node.value,
+            };
+        }
+
+        if (hasSelector(node.calldata, 'withdraw(uint256)')) {
+            const [inputs] = this.decodeFunctionWithFragment(node, FunctionFragment.from('withdraw(uint256 wad)'));
+
+            // consume the Withdrawal event and the native tokens being sent back, but not whatever the account did
+            // when it received them
+            state.consume(node);
+            node.logs?.filter((log) => hasTopic(log, withdrawalEventFragment)).forEach((log) => state.consume(log));
+            const refund = node.children?.find((child) => child.type === 'call' && child.value.eq(inputs['wad']));
+            if (refund) state.consume(refund);
+
+            return {
+                type: this.name,
+                operation: 'unwrap',
+                operator: node.from,
+                account: node.from,
+                token: node.to,
+                amount: inputs['wad'],
+            };
+        }
+
+        return null;
+    }
+
+    format(result: WrapAction, opts: DecodeFormatOpts): RenderedAction {
+        return this.renderResult(
+            result.operation,
+            '#6c969d',
+            ['amount', 'token', 'account'],
+            [
+                this.formatTokenAmount(opts, NATIVE_TOKEN, result.amount),
+                this.formatAddress(result.token),
+                this.formatAddress(result.account),
+            ],
+        );
+    }
+}
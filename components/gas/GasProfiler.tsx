@@ -0,0 +1,199 @@
+import * as React from 'react';
+import { useContext } from 'react';
+import { Button, Table, TableBody, TableCell, TableHead, TableRow, TableSortLabel, Typography } from '@mui/material';
+import { TraceEntryCall, TraceResponse } from '../api';
+import { TraceMetadata } from '../types';
+import { DataRenderer } from '../DataRenderer';
+import { LabelMetadataContext } from '../metadata/labels';
+import { precompiles } from '../precompiles';
+import {
+    aggregateGasProfile,
+    buildGasProfile,
+    flattenGasProfile,
+    GasAggregate,
+    GasFrame,
+    getGasSelector,
+} from './profile';
+
+const FRAME_HEIGHT = 20;
+
+// frames narrower than this fraction of the chart aren't drawn, there can be far too many of them to be useful
+const MIN_FRAME_WIDTH = 0.002;
+
+const DEFAULT_TABLE_ROWS = 20;
+
+type GasProfilerProps = {
+    traceResult: TraceResponse;
+    traceMetadata: TraceMetadata;
+
+    // optional: called when the user wants to see a node in the call trace
+    focusTraceNode?: (path: string) => void;
+};
+
+const getFunctionName = (traceMetadata: TraceMetadata, node: TraceEntryCall): string => {
+    if (node.isPrecompile) return precompiles[node.to]?.name || 'call';
+
+    const selector = getGasSelector(node);
+    if (selector === 'constructor' || selector === 'fallback') return selector;
+
+    try {
+        return traceMetadata.abis[node.to][node.codehash].getFunction(selector).name;
+    } catch {
+        return selector;
+    }
+};
+
+// the same contract is always drawn in the same color
+const getFrameColor = (address: string, reverted: boolean): string => {
+    const hue = parseInt(address.substring(2, 8), 16) % 360;
+    return `hsl(${hue}, 70%, ${reverted ? 88 : 75}%)`;
+};
+
+const formatGas = (gas: number, total: number): string => {
+    return `${gas} (${total > 0 ? ((gas / total) * 100).toFixed(1) : '0.0'}%)`;
+};
+
+type SortKey = 'calls' | 'inclusive' | 'self';
+
+export const GasProfiler = (props: GasProfilerProps) => {
+    const { traceResult, traceMetadata, focusTraceNode } = props;
+
+    const labelMetadata = useContext(LabelMetadataContext);
+
+    const root = React.useMemo(() => buildGasProfile(traceResult.entrypoint), [traceResult]);
+    const aggregates = React.useMemo(() => aggregateGasProfile(root), [root]);
+
+    const [zoom, setZoom] = React.useState<GasFrame>(root);
+    React.useEffect(() => setZoom(root), [root]);
+
+    const [sortKey, setSortKey] = React.useState<SortKey>('inclusive');
+    const [showAll, setShowAll] = React.useState(false);
+
+    const describeFrame = (node: TraceEntryCall) => {
+        const address = node.to.toLowerCase();
+        const name = labelMetadata.labels[address] || `${address.substring(0, 6)}…${address.substring(38)}`;
+        return `${name}.${getFunctionName(traceMetadata, node)}`;
+    };
+
+    const frames = flattenGasProfile(zoom).filter(
+        (frame) => zoom.inclusive > 0 && frame.inclusive / zoom.inclusive >= MIN_FRAME_WIDTH,
+    );
+    const maxDepth = frames.reduce((max, frame) => Math.max(max, frame.depth), zoom.depth);
+
+    const sortedAggregates = aggregates.slice().sort((a, b) => b[sortKey] - a[sortKey]);
+    const shownAggregates = showAll ? sortedAggregates : sortedAggregates.slice(0, DEFAULT_TABLE_ROWS);
+
+    const sortableHeader = (key: SortKey, name: string) => (
+        <TableCell align="right" sortDirection={sortKey === key ? 'desc' : false}>
+            <TableSortLabel active={sortKey === key} direction={'desc'} onClick={() => setSortKey(key)}>
+                {name}
+            </TableSortLabel>
+        </TableCell>
+    );
+
+    return (
+        <>
+            <div className="flex flex-row items-center">
+                <Typography variant={'body2'} color={'#606161'}>
+                    {zoom === root
+                        ? 'Click a call to find it in the call trace, or shift click to zoom in.'
+                        : `Zoomed into ${describeFrame(zoom.node)} at ${zoom.node.path}.`}
+                </Typography>
+                {zoom !== root ? (
+                    <Button size={'small'} onClick={() => setZoom(root)}>
+                        Reset Zoom
+                    </Button>
+                ) : null}
+            </div>
+            <div
+                style={{
+                    position: 'relative',
+                    height: (maxDepth - zoom.depth + 1) * FRAME_HEIGHT,
+                    margin: '6px 0',
+                    overflow: 'hidden',
+                }}
+            >
+                {frames.map((frame) => {
+                    const left = (frame.start - zoom.start) / zoom.inclusive;
+                    const width = Math.min(frame.inclusive / zoom.inclusive, 1 - left);
+                    const description = describeFrame(frame.node);
+
+                    return (
+                        <div
+                            key={frame.node.path}
+                            title={`${description} at ${frame.node.path}\ninclusive gas: ${formatGas(
+                                frame.inclusive,
+                                root.inclusive,
+                            )}\nself gas: ${formatGas(frame.self, root.inclusive)}`}
+                            onClick={(event) => {
+                                if (event.shiftKey) {
+                                    setZoom(frame);
+                                } else {
+                                    focusTraceNode?.(frame.node.path);
+                                }
+                            }}
+                            style={{
+                                position: 'absolute',
+                                left: `${left * 100}%`,
+                                width: `${width * 100}%`,
+                                top: (frame.depth - zoom.depth) * FRAME_HEIGHT,
+                                height: FRAME_HEIGHT - 1,
+                                lineHeight: `${FRAME_HEIGHT - 1}px`,
+                                padding: '0 4px',
+                                boxSizing: 'border-box',
+                                borderRight: '1px solid white',
+                                backgroundColor: getFrameColor(frame.node.to, frame.node.status === 0),
+                                textDecoration: frame.node.status === 0 ? 'line-through' : undefined,
+                                fontFamily: 'monospace',
+                                fontSize: '12px',
+                                whiteSpace: 'nowrap',
+                                overflow: 'hidden',
+                                textOverflow: 'ellipsis',
+                                cursor: 'pointer',
+                            }}
+                        >
+                            {description}
+                        </div>
+                    );
+                })}
+            </div>
+
+            <Table size={'small'} sx={{ maxWidth: { md: '100vw', lg: '75vw' } }}>
+                <TableHead>
+                    <TableRow>
+                        <TableCell>Contract</TableCell>
+                        <TableCell>Function</TableCell>
+                        {sortableHeader('calls', 'Calls')}
+                        {sortableHeader('inclusive', 'Inclusive Gas')}
+                        {sortableHeader('self', 'Self Gas')}
+                    </TableRow>
+                </TableHead>
+                <TableBody>
+                    {shownAggregates.map((aggregate: GasAggregate) => (
+                        <TableRow
+                            key={`${aggregate.address}:${aggregate.codehash}:${aggregate.selector}`}
+                            hover
+                            sx={{ cursor: 'pointer' }}
+                            onClick={() => focusTraceNode?.(aggregate.node.path)}
+                        >
+                            <TableCell>
+                                <DataRenderer preferredType={'address'} data={aggregate.address} />
+                            </TableCell>
+                            <TableCell sx={{ fontFamily: 'monospace' }}>
+                                {getFunctionName(traceMetadata, aggregate.node)}
+                            </TableCell>
+                            <TableCell align="right">{aggregate.calls}</TableCell>
+                            <TableCell align="right">{formatGas(aggregate.inclusive, root.inclusive)}</TableCell>
+                            <TableCell align="right">{formatGas(aggregate.self, root.inclusive)}</TableCell>
+                        </TableRow>
+                    ))}
+                </TableBody>
+            </Table>
+            {sortedAggregates.length > DEFAULT_TABLE_ROWS ? (
+                <Button size={'small'} onClick={() => setShowAll(!showAll)}>
+                    {showAll ? 'Show Less' : `Show All ${sortedAggregates.length}`}
+                </Button>
+            ) : null}
+        </>
+    );
+};
@@ -0,0 +1,117 @@
+import { TraceEntryCall } from '../api';
+
+// a call in the flamegraph. frames are laid out in gas, so a frame starts where its previous sibling ended
+export type GasFrame = {
+    node: TraceEntryCall;
+    depth: number;
+
+    // the offset of the frame from the start of the entrypoint
+    start: number;
+
+    // inclusive gas is everything the call used, while self gas excludes what its subcalls used
+    inclusive: number;
+    self: number;
+
+    children: GasFrame[];
+};
+
+export type GasAggregate = {
+    address: string;
+    codehash: string;
+
+    // the function selector, or 'constructor' and 'fallback' for calls which don't have one
+    selector: string;
+
+    // the first call, so the user can jump to it
+    node: TraceEntryCall;
+
+    calls: number;
+    inclusive: number;
+    self: number;
+};
+
+export const getGasSelector = (node: TraceEntryCall): string => {
+    if (node.variant === 'create' || node.variant === 'create2') return 'constructor';
+    if (node.input.length < 10) return 'fallback';
+
+    return node.input.substring(0, 10).toLowerCase();
+};
+
+export const buildGasProfile = (entrypoint: TraceEntryCall): GasFrame => {
+    const visit = (node: TraceEntryCall, depth: number, start: number): GasFrame => {
+        const children: GasFrame[] = [];
+
+        let offset = start;
+        node.children.forEach((child) => {
+            if (child.type !== 'call') return;
+
+            const frame = visit(child, depth + 1, offset);
+            children.push(frame);
+            offset += frame.inclusive;
+        });
+
+        const childGas = children.reduce((total, child) => total + child.inclusive, 0);
+
+        return {
+            node: node,
+            depth: depth,
+            start: start,
+            inclusive: node.gasUsed,
+            // refunds can make a call look like it used less gas than its subcalls
+            self: Math.max(0, node.gasUsed - childGas),
+            children: children,
+        };
+    };
+
+    return visit(entrypoint, 0, 0);
+};
+
+// returns every frame in the profile, parents before their children
+export const flattenGasProfile = (root: GasFrame): GasFrame[] => {
+    const frames: GasFrame[] = [];
+
+    const visit = (frame: GasFrame) => {
+        frames.push(frame);
+        frame.children.forEach(visit);
+    };
+    visit(root);
+
+    return frames;
+};
+
+// sums up gas per contract and function. recursive calls only count towards inclusive gas once, otherwise a function
+// which calls itself would look like it used more gas than the whole transaction
+export const aggregateGasProfile = (root: GasFrame): GasAggregate[] => {
+    const aggregates: Record<string, GasAggregate> = {};
+
+    const visit = (frame: GasFrame, activeKeys: Set<string>) => {
+        const node = frame.node;
+        const selector = getGasSelector(node);
+        const key = `${node.to.toLowerCase()}:${node.codehash}:${selector}`;
+
+        if (!(key in aggregates)) {
+            aggregates[key] = {
+                address: node.to.toLowerCase(),
+                codehash: node.codehash,
+                selector: selector,
+                node: node,
+                calls: 0,
+                inclusive: 0,
+                self: 0,
+            };
+        }
+
+        const aggregate = aggregates[key];
+        aggregate.calls++;
+        aggregate.self += frame.self;
+        if (!activeKeys.has(key)) {
+            aggregate.inclusive += frame.inclusive;
+        }
+
+        const childKeys = new Set(activeKeys).add(key);
+        frame.children.forEach((child) => visit(child, childKeys));
+    };
+    visit(root, new Set());
+
+    return Object.values(aggregates).sort((a, b) => b.inclusive - a.inclusive || b.self - a.self);
+};
@@ -5,7 +5,7 @@ import { formatUnits, ParamType } from 'ethers/lib/utils';
 import { createTheme } from '@mui/material';
 // noinspection ES6UnusedImports
 import {} from '@mui/lab/themeAugmentation';
-import { TraceEntry, TraceEntryCall } from './api';
+import { TraceEntry, TraceEntryCall, TraceResponse } from './api';
 
 type TreeItemContentProps = {
     children: React.ReactNode;
@@ -162,6 +162,50 @@ export const chunkString = (str: string, len: number): string[] => {
     return r;
 };
 
+export const buildTraceMetadata = (traceResponse: TraceResponse): TraceMetadata => {
+    let metadata: TraceMetadata = {
+        abis: {},
+        nodesByPath: {},
+    };
+
+    let preprocess = (node: TraceEntry) => {
+        metadata.nodesByPath[node.path] = node;
+
+        if (node.type === 'call') {
+            node.children.forEach(preprocess);
+        }
+    };
+    preprocess(traceResponse.entrypoint);
+
+    for (let [address, entries] of Object.entries(traceResponse.addresses)) {
+        metadata.abis[address] = {};
+        for (let [codehash, info] of Object.entries(entries)) {
+            metadata.abis[address][codehash] = new ethers.utils.Interface([
+                ...Object.values(info.functions),
+                ...Object.values(info.events),
+                ...Object.values(info.errors).filter(
+                    (v) =>
+                        !(
+                            // lmao wtf ethers
+                            (
+                                (v.name === 'Error' &&
+                                    v.inputs &&
+                                    v.inputs.length === 1 &&
+                                    v.inputs[0].type === 'string') ||
+                                (v.name === 'Panic' &&
+                                    v.inputs &&
+                                    v.inputs.length === 1 &&
+                                    v.inputs[0].type === 'uint256')
+                            )
+                        ),
+                ),
+            ]);
+        }
+    }
+
+    return metadata;
+};
+
 export const findAffectedContract = (metadata: TraceMetadata, node: TraceEntry): [TraceEntryCall, TraceEntryCall[]] => {
     let path: TraceEntryCall[] = [];
 
@@ -185,6 +229,17 @@ export const findAffectedContract = (metadata: TraceMetadata, node: TraceEntry):
     throw new Error("strange, didn't find parent node");
 };
 
+// native token amounts which would be tiny in ether are easier to read in gwei or wei
+export const getSmartUnit = (value: BigNumberish): 'ether' | 'gwei' | 'wei' => {
+    value = BigNumber.from(value).abs();
+    if (value.isZero() || value.gte(BigNumber.from(100000000000000))) {
+        return 'ether';
+    } else if (value.gte(BigNumber.from(100000))) {
+        return 'gwei';
+    }
+    return 'wei';
+};
+
 export const formatUnitsSmartly = (value: BigNumberish, nativeUnit?: string): string => {
     nativeUnit = (nativeUnit || 'eth').toUpperCase();
 
@@ -193,14 +248,7 @@ export const formatUnitsSmartly = (value: BigNumberish, nativeUnit?: string): st
         return `0 ${nativeUnit}`;
     }
 
-    let chosenUnit;
-    if (value.gte(BigNumber.from(100000000000000))) {
-        chosenUnit = 'ether';
-    } else if (value.gte(BigNumber.from(100000))) {
-        chosenUnit = 'gwei';
-    } else {
-        chosenUnit = 'wei';
-    }
+    let chosenUnit: string = getSmartUnit(value);
 
     let formattedValue = formatUnits(value, chosenUnit);
 
@@ -0,0 +1,75 @@
+import * as React from 'react';
+
+type WindowedList = {
+    containerRef: React.RefObject<HTMLDivElement>;
+
+    // the rows in [start, end) are the ones which should be rendered
+    start: number;
+    end: number;
+
+    // scrolls the page so that the row is in the middle of the screen, even if it isn't rendered yet
+    scrollToRow: (index: number) => void;
+};
+
+// renders only the rows of a list which are on screen. every row must be exactly rowHeight pixels tall, and the list
+// is expected to scroll with the page rather than inside its own container
+export const useWindowedList = (rowCount: number, rowHeight: number, overscan: number = 20): WindowedList => {
+    const containerRef = React.useRef<HTMLDivElement>(null);
+
+    // until the list has been measured, assume it's at the top of the screen
+    const [range, setRange] = React.useState<{ start: number; end: number }>();
+
+    const updateRange = React.useCallback(() => {
+        const container = containerRef.current;
+        if (!container) return;
+
+        const top = container.getBoundingClientRect().top;
+        const start = Math.min(rowCount, Math.max(0, Math.floor(-top / rowHeight) - overscan));
+        const end = Math.min(rowCount, Math.max(start, Math.ceil((window.innerHeight - top) / rowHeight) + overscan));
+
+        setRange((prevRange) =>
+            prevRange && prevRange.start === start && prevRange.end === end ? prevRange : { start, end },
+        );
+    }, [rowCount, rowHeight, overscan]);
+
+    React.useEffect(() => {
+        let frame: number | undefined;
+        const onScroll = () => {
+            if (frame !== undefined) return;
+
+            frame = window.requestAnimationFrame(() => {
+                frame = undefined;
+                updateRange();
+            });
+        };
+
+        updateRange();
+        window.addEventListener('scroll', onScroll, { passive: true });
+        window.addEventListener('resize', onScroll);
+        return () => {
+            window.removeEventListener('scroll', onScroll);
+            window.removeEventListener('resize', onScroll);
+            if (frame !== undefined) window.cancelAnimationFrame(frame);
+        };
+    }, [updateRange]);
+
+    const scrollToRow = React.useCallback(
+        (index: number) => {
+            const container = containerRef.current;
+            if (!container) return;
+
+            const rowTop = container.getBoundingClientRect().top + window.scrollY + index * rowHeight;
+            window.scrollTo({ top: rowTop - (window.innerHeight - rowHeight) / 2 });
+        },
+        [rowHeight],
+    );
+
+    const { start, end } = range || { start: 0, end: overscan * 2 };
+
+    return {
+        containerRef: containerRef,
+        start: Math.min(start, rowCount),
+        end: Math.min(end, rowCount),
+        scrollToRow: scrollToRow,
+    };
+};
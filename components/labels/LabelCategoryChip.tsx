@@ -0,0 +1,27 @@
+import * as React from 'react';
+import { Chip } from '@mui/material';
+import { LabelCategory, labelCategories } from './categories';
+
+type LabelCategoryChipProps = {
+    category: LabelCategory;
+    color?: string;
+
+    // small enough to sit inline with an address in the trace
+    dense?: boolean;
+};
+
+export const LabelCategoryChip = (props: LabelCategoryChipProps) => {
+    const { category, color, dense } = props;
+
+    return (
+        <Chip
+            label={labelCategories[category].name}
+            size={'small'}
+            sx={{
+                color: '#ffffff',
+                backgroundColor: color || labelCategories[category].color,
+                ...(dense ? { height: '16px', fontSize: '10px', marginLeft: '4px', verticalAlign: 'middle' } : {}),
+            }}
+        />
+    );
+};
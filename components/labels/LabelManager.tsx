@@ -0,0 +1,393 @@
+import * as React from 'react';
+import {
+    Button,
+    FormControlLabel,
+    Grid,
+    MenuItem,
+    Switch,
+    Table,
+    TableBody,
+    TableCell,
+    TableHead,
+    TableRow,
+    TextField,
+    Typography,
+} from '@mui/material';
+import { ethers } from 'ethers';
+import { ChainConfig, getSupportedChains, SupportedChains } from '../Chains';
+import {
+    CustomLabel,
+    CustomLabels,
+    exportLabelPackCsv,
+    exportLabelPackJson,
+    isLabelSubmissionEnabled,
+    LabelEntry,
+    listLabels,
+    loadCustomLabels,
+    mergeLabelPack,
+    parseLabelPack,
+    saveCustomLabels,
+    searchLabels,
+    setCustomLabel,
+    setLabelSubmissionEnabled,
+    submitLabel,
+} from './store';
+import { LabelCategory, labelCategories } from './categories';
+import { LabelCategoryChip } from './LabelCategoryChip';
+
+const download = (name: string, contents: string, type: string) => {
+    const url = URL.createObjectURL(new Blob([contents], { type: type }));
+
+    const anchor = document.createElement('a');
+    anchor.href = url;
+    anchor.download = name;
+    anchor.click();
+
+    URL.revokeObjectURL(url);
+};
+
+type LabelStyle = Pick<CustomLabel, 'category' | 'color'>;
+
+type LabelStyleFieldsProps = {
+    value: LabelStyle;
+    onChange: (value: LabelStyle) => void;
+};
+
+const LabelStyleFields = (props: LabelStyleFieldsProps) => {
+    const { value, onChange } = props;
+
+    return (
+        <>
+            <TextField
+                select
+                size={'small'}
+                variant={'standard'}
+                sx={{ minWidth: '110px' }}
+                value={value.category || ''}
+                onChange={(event) =>
+                    onChange({ ...value, category: (event.target.value as LabelCategory) || undefined })
+                }
+            >
+                <MenuItem value={''}>None</MenuItem>
+                {Object.entries(labelCategories).map(([category, { name }]) => (
+                    <MenuItem key={category} value={category}>
+                        {name}
+                    </MenuItem>
+                ))}
+            </TextField>
+            <input
+                type="color"
+                title={'Color'}
+                className="ml-2 align-middle"
+                disabled={!value.category}
+                value={value.color || (value.category ? labelCategories[value.category].color : '#000000')}
+                onChange={(event) => onChange({ ...value, color: event.target.value })}
+            />
+        </>
+    );
+};
+
+const LabelSourceCell = (props: { entry: LabelEntry }) => {
+    const { entry } = props;
+
+    return (
+        <TableCell sx={{ color: '#606161' }}>
+            {entry.source === 'pack' ? `Imported${entry.pack ? ` from ${entry.pack}` : ''}` : 'You'}
+        </TableCell>
+    );
+};
+
+type LabelRowProps = {
+    entry: LabelEntry;
+    onSave: (label: string, style?: LabelStyle) => void;
+};
+
+const LabelRow = (props: LabelRowProps) => {
+    const { entry, onSave } = props;
+
+    const [editing, setEditing] = React.useState(false);
+    const [label, setLabel] = React.useState(entry.label);
+    const [style, setStyle] = React.useState<LabelStyle>({});
+
+    const save = () => {
+        onSave(label, style);
+        setEditing(false);
+    };
+
+    return (
+        <TableRow>
+            <TableCell sx={{ fontFamily: 'monospace' }}>{entry.address}</TableCell>
+            <TableCell>
+                {editing ? (
+                    <TextField
+                        size={'small'}
+                        variant={'standard'}
+                        fullWidth
+                        autoFocus
+                        value={label}
+                        onChange={(event) => setLabel(event.target.value)}
+                        onKeyUp={(event) => {
+                            if (event.key === 'Enter') save();
+                            if (event.key === 'Escape') setEditing(false);
+                        }}
+                    />
+                ) : (
+                    entry.label
+                )}
+            </TableCell>
+            <TableCell sx={{ whiteSpace: 'nowrap' }}>
+                {editing ? (
+                    <LabelStyleFields value={style} onChange={setStyle} />
+                ) : entry.category ? (
+                    <LabelCategoryChip category={entry.category} color={entry.color} />
+                ) : null}
+            </TableCell>
+            <LabelSourceCell entry={entry} />
+            <TableCell align="right" sx={{ whiteSpace: 'nowrap' }}>
+                {editing ? (
+                    <Button size={'small'} onClick={save}>
+                        Save
+                    </Button>
+                ) : (
+                    <Button
+                        size={'small'}
+                        onClick={() => {
+                            setLabel(entry.label);
+                            setStyle({ category: entry.category, color: entry.color });
+                            setEditing(true);
+                        }}
+                    >
+                        Edit
+                    </Button>
+                )}
+                <Button size={'small'} onClick={() => onSave('')}>
+                    Delete
+                </Button>
+            </TableCell>
+        </TableRow>
+    );
+};
+
+export const LabelManager = () => {
+    // everything here lives in local storage, so it can only be loaded on the client
+    const [chains, setChains] = React.useState<ChainConfig[]>(SupportedChains);
+    const [labels, setLabels] = React.useState<CustomLabels>({});
+    const [submitEnabled, setSubmitEnabled] = React.useState(false);
+    React.useEffect(() => {
+        setChains(getSupportedChains());
+        setLabels(loadCustomLabels());
+        setSubmitEnabled(isLabelSubmissionEnabled());
+    }, []);
+
+    const [chain, setChain] = React.useState('ethereum');
+    const [query, setQuery] = React.useState('');
+    const [newAddress, setNewAddress] = React.useState('');
+    const [newLabel, setNewLabel] = React.useState('');
+    const [newStyle, setNewStyle] = React.useState<LabelStyle>({});
+    const [message, setMessage] = React.useState<{ error: boolean; text: string }>();
+    const inputRef = React.useRef<HTMLInputElement>(null);
+
+    const entries = listLabels(labels, chain);
+    const filteredEntries = searchLabels(entries, query);
+
+    const updateLabels = (newLabels: CustomLabels) => {
+        saveCustomLabels(newLabels);
+        setLabels(newLabels);
+    };
+
+    const saveLabel = (address: string, label: string, style?: LabelStyle) => {
+        // the color only makes sense alongside a category
+        updateLabels(
+            setCustomLabel(labels, chain, address, label, style && { ...style, color: style.category && style.color }),
+        );
+        if (label) {
+            submitLabel(chain, address, label);
+        }
+    };
+
+    const addLabel = () => {
+        if (!ethers.utils.isAddress(newAddress)) {
+            setMessage({ error: true, text: `${newAddress} is not an address` });
+            return;
+        }
+        if (!newLabel.trim()) {
+            setMessage({ error: true, text: 'the label is empty' });
+            return;
+        }
+
+        saveLabel(newAddress, newLabel, newStyle);
+        setNewAddress('');
+        setNewLabel('');
+        setNewStyle({});
+        setMessage(undefined);
+    };
+
+    const importFiles = (fileList: FileList | null) => {
+        if (!fileList || fileList.length === 0) return;
+
+        Promise.all(
+            Array.from(fileList).map((file) => file.text().then((text) => parseLabelPack(file.name, text, chain))),
+        )
+            .then((loaded) => {
+                const imported = loaded.flat();
+                updateLabels(mergeLabelPack(labels, imported));
+                setMessage({ error: false, text: `imported ${imported.length} labels` });
+            })
+            .catch((e) => {
+                console.log('failed to import labels', e);
+                setMessage({ error: true, text: e instanceof Error ? e.message : String(e) });
+            });
+    };
+
+    return (
+        <div className="dark:invert">
+            <Typography variant={'h6'} className="my-3">
+                Labels
+            </Typography>
+            <Grid container spacing={1} alignItems={'flex-end'}>
+                <Grid item xs={6} md={3}>
+                    <TextField
+                        select
+                        size={'small'}
+                        variant={'standard'}
+                        fullWidth
+                        label={'Chain'}
+                        value={chain}
+                        onChange={(event) => setChain(event.target.value)}
+                    >
+                        {chains.map((v) => (
+                            <MenuItem key={v.id} value={v.id}>
+                                {v.displayName}
+                            </MenuItem>
+                        ))}
+                    </TextField>
+                </Grid>
+                <Grid item xs={6} md={9}>
+                    <TextField
+                        size={'small'}
+                        variant={'standard'}
+                        fullWidth
+                        label={'Search'}
+                        placeholder={'Address or label'}
+                        value={query}
+                        onChange={(event) => setQuery(event.target.value)}
+                    />
+                </Grid>
+            </Grid>
+
+            <Table size={'small'} sx={{ marginTop: '12px' }}>
+                <TableHead>
+                    <TableRow>
+                        <TableCell>Address</TableCell>
+                        <TableCell>Label</TableCell>
+                        <TableCell>Category</TableCell>
+                        <TableCell>Source</TableCell>
+                        <TableCell />
+                    </TableRow>
+                </TableHead>
+                <TableBody>
+                    {filteredEntries.map((entry) => (
+                        <LabelRow
+                            key={entry.address}
+                            entry={entry}
+                            onSave={(label, style) => saveLabel(entry.address, label, style)}
+                        />
+                    ))}
+                    <TableRow>
+                        <TableCell>
+                            <TextField
+                                size={'small'}
+                                variant={'standard'}
+                                fullWidth
+                                placeholder={'0x...'}
+                                value={newAddress}
+                                onChange={(event) => setNewAddress(event.target.value)}
+                            />
+                        </TableCell>
+                        <TableCell>
+                            <TextField
+                                size={'small'}
+                                variant={'standard'}
+                                fullWidth
+                                placeholder={'Label'}
+                                value={newLabel}
+                                onChange={(event) => setNewLabel(event.target.value)}
+                                onKeyUp={(event) => {
+                                    if (event.key === 'Enter') addLabel();
+                                }}
+                            />
+                        </TableCell>
+                        <TableCell sx={{ whiteSpace: 'nowrap' }}>
+                            <LabelStyleFields value={newStyle} onChange={setNewStyle} />
+                        </TableCell>
+                        <TableCell />
+                        <TableCell align="right">
+                            <Button size={'small'} onClick={addLabel}>
+                                Add
+                            </Button>
+                        </TableCell>
+                    </TableRow>
+                </TableBody>
+            </Table>
+            <Typography variant={'body2'} color={'#606161'} sx={{ marginTop: '6px' }}>
+                {filteredEntries.length === entries.length
+                    ? `${entries.length} labels`
+                    : `${filteredEntries.length} of ${entries.length} labels`}
+            </Typography>
+
+            <div className="flex flex-row flex-wrap items-center my-3">
+                <Button size={'small'} onClick={() => inputRef.current?.click()}>
+                    Import
+                </Button>
+                <input
+                    ref={inputRef}
+                    type="file"
+                    accept=".json,.csv,application/json,text/csv"
+                    multiple
+                    hidden
+                    onChange={(event) => {
+                        importFiles(event.target.files);
+                        // allow the same file to be chosen again
+                        event.target.value = '';
+                    }}
+                />
+                <Button
+                    size={'small'}
+                    onClick={() => download(`labels-${chain}.json`, exportLabelPackJson(entries), 'application/json')}
+                >
+                    Export JSON
+                </Button>
+                <Button
+                    size={'small'}
+                    onClick={() => download(`labels-${chain}.csv`, exportLabelPackCsv(entries), 'text/csv')}
+                >
+                    Export CSV
+                </Button>
+                <Button
+                    size={'small'}
+                    onClick={() => download('labels.json', exportLabelPackJson(listLabels(labels)), 'application/json')}
+                >
+                    Export All Chains
+                </Button>
+            </div>
+            {message ? (
+                <Typography variant={'body2'} color={message.error ? '#ed335f' : '#7b9726'}>
+                    {message.text}
+                </Typography>
+            ) : null}
+
+            <FormControlLabel
+                control={
+                    <Switch
+                        checked={submitEnabled}
+                        onChange={(event) => {
+                            setLabelSubmissionEnabled(event.target.checked);
+                            setSubmitEnabled(event.target.checked);
+                        }}
+                    />
+                }
+                label={'Submit new Ethereum labels to the public tag database'}
+            />
+        </div>
+    );
+};
@@ -0,0 +1,25 @@
+export type LabelCategory = 'exchange' | 'bridge' | 'attacker' | 'team' | 'mev' | 'protocol' | 'token' | 'other';
+
+export const labelCategories: Record<LabelCategory, { name: string; color: string }> = {
+    exchange: { name: 'Exchange', color: '#1976d2' },
+    bridge: { name: 'Bridge', color: '#7b1fa2' },
+    attacker: { name: 'Attacker', color: '#ed335f' },
+    team: { name: 'Team Wallet', color: '#067034' },
+    mev: { name: 'MEV Bot', color: '#e65100' },
+    protocol: { name: 'Protocol', color: '#00838f' },
+    token: { name: 'Token', color: '#7b9726' },
+    other: { name: 'Other', color: '#606161' },
+};
+
+// accepts either the id or the display name of a category, ignoring case
+export const parseLabelCategory = (value: string): LabelCategory | undefined => {
+    value = value.trim().toLowerCase();
+
+    return (Object.keys(labelCategories) as LabelCategory[]).find(
+        (category) => category === value || labelCategories[category].name.toLowerCase() === value,
+    );
+};
+
+export const isLabelColor = (value: string): boolean => {
+    return /^#[0-9a-f]{6}$/i.test(value);
+};
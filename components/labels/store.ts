@@ -0,0 +1,327 @@
+import { ethers } from 'ethers';
+import { isLabelColor, LabelCategory, parseLabelCategory } from './categories';
+
+export type CustomLabel = {
+    label: string;
+    category?: LabelCategory;
+
+    // overrides the color of the category
+    color?: string;
+
+    // whether the user added the label themselves, or imported it from a label pack
+    source: 'user' | 'pack';
+
+    // the name of the file the label was imported from
+    pack?: string;
+};
+
+// labels which the user has added themselves, keyed by chain and then by lowercase address
+export type CustomLabels = Record<string, Record<string, CustomLabel>>;
+
+export type LabelEntry = CustomLabel & {
+    chain: string;
+    address: string;
+};
+
+const prefLabelsKey = 'pref:labels';
+const prefSubmitLabelsKey = 'pref:submitLabels';
+
+export const loadCustomLabels = (): CustomLabels => {
+    if (typeof window === 'undefined') return {};
+
+    let stored: Record<string, Record<string, string | CustomLabel>>;
+    try {
+        stored = JSON.parse(window.localStorage.getItem(prefLabelsKey) || '{}');
+    } catch {
+        return {};
+    }
+
+    // labels used to be stored as plain strings, before they had categories
+    return Object.fromEntries(
+        Object.entries(stored).map(([chain, chainLabels]) => [
+            chain,
+            Object.fromEntries(
+                Object.entries(chainLabels).map(([address, label]) => [
+                    address,
+                    typeof label === 'string' ? { label: label, source: 'user' } : label,
+                ]),
+            ),
+        ]),
+    );
+};
+
+export const saveCustomLabels = (labels: CustomLabels) => {
+    window.localStorage.setItem(prefLabelsKey, JSON.stringify(labels));
+};
+
+// returns a copy of the labels with the label set, or removed if it's empty. unless they're given, the category
+// and color are kept and the label is attributed to the user
+export const setCustomLabel = (
+    labels: CustomLabels,
+    chain: string,
+    address: string,
+    label: string,
+    details?: Partial<Omit<CustomLabel, 'label'>>,
+): CustomLabels => {
+    const chainLabels = { ...labels[chain] };
+
+    address = address.toLowerCase();
+    if (label.trim()) {
+        const existing = chainLabels[address];
+
+        const customLabel: CustomLabel = {
+            label: label.trim(),
+            category: existing?.category,
+            color: existing?.color,
+            source: 'user',
+            ...details,
+        };
+        // keep the stored json free of undefined fields
+        (Object.keys(customLabel) as Array<keyof CustomLabel>).forEach((key) => {
+            if (customLabel[key] === undefined) delete customLabel[key];
+        });
+
+        chainLabels[address] = customLabel;
+    } else {
+        delete chainLabels[address];
+    }
+
+    return { ...labels, [chain]: chainLabels };
+};
+
+export const listLabels = (labels: CustomLabels, chain?: string): LabelEntry[] => {
+    return Object.entries(labels)
+        .filter(([labelChain]) => chain === undefined || labelChain === chain)
+        .flatMap(([labelChain, chainLabels]) =>
+            Object.entries(chainLabels).map(([address, label]) => ({
+                ...label,
+                chain: labelChain,
+                address: address,
+            })),
+        )
+        .sort((a, b) => a.chain.localeCompare(b.chain) || a.label.localeCompare(b.label));
+};
+
+// matches the query against both the address and the label, ignoring case
+export const searchLabels = (entries: LabelEntry[], query: string): LabelEntry[] => {
+    query = query.trim().toLowerCase();
+    if (!query) return entries;
+
+    return entries.filter(
+        (entry) =>
+            entry.address.includes(query) ||
+            entry.label.toLowerCase().includes(query) ||
+            entry.category?.includes(query),
+    );
+};
+
+export const mergeLabelPack = (labels: CustomLabels, entries: LabelEntry[]): CustomLabels => {
+    return entries.reduce((result, entry) => {
+        const { chain, address, label, ...details } = entry;
+        return setCustomLabel(result, chain, address, label, details);
+    }, labels);
+};
+
+// label packs are shared as either json shaped like {"chain": {"0x...": "label"}}, or as csv with a chain, address,
+// label, category, and color column. in json, labels with a category or color are objects instead of strings
+
+type PackLabel = string | { label: string; category?: string; color?: string };
+
+export const exportLabelPackJson = (entries: LabelEntry[]): string => {
+    const pack: Record<string, Record<string, PackLabel>> = {};
+    entries.forEach((entry) => {
+        if (!(entry.chain in pack)) pack[entry.chain] = {};
+
+        pack[entry.chain][entry.address] =
+            entry.category || entry.color
+                ? { label: entry.label, category: entry.category, color: entry.color }
+                : entry.label;
+    });
+    return JSON.stringify(pack, null, 2);
+};
+
+const escapeCsvField = (value: string): string => {
+    return /[",\r\n]/.test(value) ? `"${value.replace(/"/g, '""')}"` : value;
+};
+
+export const exportLabelPackCsv = (entries: LabelEntry[]): string => {
+    return [
+        'chain,address,label,category,color',
+        ...entries.map((entry) =>
+            [entry.chain, entry.address, entry.label, entry.category || '', entry.color || '']
+                .map(escapeCsvField)
+                .join(','),
+        ),
+    ].join('\n');
+};
+
+const parseCsv = (contents: string): string[][] => {
+    const rows: string[][] = [];
+    let row: string[] = [];
+    let field = '';
+    let quoted = false;
+
+    for (let i = 0; i < contents.length; i++) {
+        const c = contents[i];
+        if (quoted) {
+            if (c === '"' && contents[i + 1] === '"') {
+                field += '"';
+                i++;
+            } else if (c === '"') {
+                quoted = false;
+            } else {
+                field += c;
+            }
+        } else if (c === '"') {
+            quoted = true;
+        } else if (c === ',') {
+            row.push(field);
+            field = '';
+        } else if (c === '\n' || c === '\r') {
+            if (c === '\r' && contents[i + 1] === '\n') i++;
+            row.push(field);
+            rows.push(row);
+            row = [];
+            field = '';
+        } else {
+            field += c;
+        }
+    }
+    if (field || row.length > 0) {
+        row.push(field);
+        rows.push(row);
+    }
+
+    return rows.filter((row) => row.some((field) => field.trim()));
+};
+
+const toEntry = (name: string, pack: string, chain: string, address: string, value: any): LabelEntry => {
+    if (!ethers.utils.isAddress(address)) {
+        throw new Error(`${name}: ${address} is not an address`);
+    }
+
+    const { label, category, color }: PackLabel & object = typeof value === 'string' ? { label: value } : value || {};
+    if (typeof label !== 'string') {
+        throw new Error(`${name}: the label for ${address} is not a string`);
+    }
+
+    const entry: LabelEntry = {
+        chain: chain,
+        address: address.toLowerCase(),
+        label: label.trim(),
+        source: 'pack',
+        pack: pack,
+    };
+    if (category) {
+        entry.category = parseLabelCategory(String(category));
+        if (!entry.category) {
+            throw new Error(`${name}: ${category} is not a category`);
+        }
+    }
+    if (color) {
+        if (!isLabelColor(String(color))) {
+            throw new Error(`${name}: ${color} is not a color like #ff0000`);
+        }
+        entry.color = String(color).toLowerCase();
+    }
+    return entry;
+};
+
+const parseLabelPackCsv = (name: string, contents: string, defaultChain: string): LabelEntry[] => {
+    const rows = parseCsv(contents);
+    if (rows.length === 0) return [];
+
+    // the header is optional, and without a chain column every label is for the default chain
+    const header = rows[0].map((field) => field.trim().toLowerCase());
+    const hasHeader = header.includes('address');
+    const columns = hasHeader
+        ? header
+        : rows[0].length >= 3
+        ? ['chain', 'address', 'label', 'category', 'color']
+        : ['address', 'label'];
+
+    const addressColumn = columns.indexOf('address');
+    const labelColumn = columns.indexOf('label');
+    const chainColumn = columns.indexOf('chain');
+    const categoryColumn = columns.indexOf('category');
+    const colorColumn = columns.indexOf('color');
+    if (labelColumn === -1) {
+        throw new Error(`${name} doesn't have a label column`);
+    }
+
+    return rows.slice(hasHeader ? 1 : 0).map((row, idx) => {
+        const line = idx + (hasHeader ? 2 : 1);
+        const chain = chainColumn !== -1 ? row[chainColumn]?.trim() : defaultChain;
+
+        return toEntry(`${name} line ${line}`, name, chain || defaultChain, (row[addressColumn] || '').trim(), {
+            label: row[labelColumn] || '',
+            category: categoryColumn !== -1 ? row[categoryColumn]?.trim() : undefined,
+            color: colorColumn !== -1 ? row[colorColumn]?.trim() : undefined,
+        });
+    });
+};
+
+const parseLabelPackJson = (name: string, json: any, defaultChain: string): LabelEntry[] => {
+    if (Array.isArray(json)) {
+        return json.map((entry, idx) =>
+            toEntry(`${name} entry ${idx}`, name, entry?.chain || defaultChain, entry?.address, entry),
+        );
+    }
+    if (!json || typeof json !== 'object') {
+        throw new Error(`${name} doesn't look like a label pack`);
+    }
+
+    // either {"0x...": "label"} for the default chain, or {"chain": {"0x...": "label"}}
+    return Object.entries(json).flatMap(([key, value]) => {
+        if (ethers.utils.isAddress(key)) {
+            return [toEntry(name, name, defaultChain, key, value)];
+        }
+        if (!value || typeof value !== 'object') {
+            throw new Error(`${name}: labels for ${key} must be an object keyed by address`);
+        }
+        return Object.entries(value).map(([address, label]) => toEntry(name, name, key, address, label));
+    });
+};
+
+export const parseLabelPack = (name: string, contents: string, defaultChain: string): LabelEntry[] => {
+    if (name.toLowerCase().endsWith('.csv')) {
+        return parseLabelPackCsv(name, contents, defaultChain);
+    }
+
+    let json: any;
+    try {
+        json = JSON.parse(contents);
+    } catch (e) {
+        throw new Error(`${name} is not valid json`);
+    }
+    return parseLabelPackJson(name, json, defaultChain);
+};
+
+// sending labels to the public tag database is opt-in, since they might be private
+export const isLabelSubmissionEnabled = (): boolean => {
+    if (typeof window === 'undefined') return false;
+
+    try {
+        return !!JSON.parse(window.localStorage.getItem(prefSubmitLabelsKey) || 'false');
+    } catch {
+        return false;
+    }
+};
+
+export const setLabelSubmissionEnabled = (enabled: boolean) => {
+    window.localStorage.setItem(prefSubmitLabelsKey, JSON.stringify(enabled));
+};
+
+export const submitLabel = (chain: string, address: string, label: string) => {
+    // the tag database only knows about ethereum
+    if (chain !== 'ethereum' || !isLabelSubmissionEnabled()) return;
+
+    fetch(`https://tags.eth.samczsun.com/api/v1/address/${address}`, {
+        method: 'POST',
+        body: JSON.stringify({
+            label: label,
+        }),
+    })
+        .then(console.log)
+        .catch(console.log);
+};
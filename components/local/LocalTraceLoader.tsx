@@ -0,0 +1,92 @@
+import * as React from 'react';
+import { Typography } from '@mui/material';
+import { LocalFileKind, LocalTraceFiles, mergeLocalFiles, parseLocalFile } from './files';
+
+type LocalTraceLoaderProps = {
+    files: LocalTraceFiles;
+    onChange: (files: LocalTraceFiles) => void;
+};
+
+const fileDescriptions: Record<LocalFileKind, string> = {
+    trace: 'Trace',
+    transaction: 'Transaction',
+    receipt: 'Receipt',
+    block: 'Block',
+};
+
+export const LocalTraceLoader = (props: LocalTraceLoaderProps) => {
+    const { files, onChange } = props;
+
+    const [dragging, setDragging] = React.useState(false);
+    const [error, setError] = React.useState<string>();
+    const inputRef = React.useRef<HTMLInputElement>(null);
+
+    const loadFiles = (fileList: FileList | null) => {
+        if (!fileList || fileList.length === 0) return;
+
+        Promise.all(Array.from(fileList).map((file) => file.text().then((text) => parseLocalFile(file.name, text))))
+            .then((loaded) => {
+                onChange(loaded.reduce(mergeLocalFiles, files));
+                setError(undefined);
+            })
+            .catch((e) => {
+                console.log('failed to load local files', e);
+                setError(e instanceof Error ? e.message : String(e));
+            });
+    };
+
+    return (
+        <div className="dark:invert">
+            <div
+                className={`flex flex-col place-items-center outline-1 outline-dashed outline-[#0000002d] py-8 px-3 my-5 cursor-pointer hover:bg-[#cbffcb] ${
+                    dragging ? 'bg-[#cbffcb]' : ''
+                }`}
+                onClick={() => inputRef.current?.click()}
+                onDragOver={(event) => {
+                    event.preventDefault();
+                    setDragging(true);
+                }}
+                onDragLeave={() => setDragging(false)}
+                onDrop={(event) => {
+                    event.preventDefault();
+                    setDragging(false);
+                    loadFiles(event.dataTransfer.files);
+                }}
+            >
+                <Typography variant={'body1'}>Drop a saved trace here, or click to choose files</Typography>
+                <Typography variant={'body2'} color={'#606161'}>
+                    The transaction, receipt, and block are optional, and can be added at any time
+                </Typography>
+                <input
+                    ref={inputRef}
+                    type="file"
+                    accept=".json,application/json"
+                    multiple
+                    hidden
+                    onChange={(event) => {
+                        loadFiles(event.target.files);
+                        // allow the same file to be chosen again
+                        event.target.value = '';
+                    }}
+                />
+            </div>
+            <Typography variant={'body2'}>
+                {(Object.keys(fileDescriptions) as LocalFileKind[]).map((kind) => (
+                    <span key={kind} className="mr-4" style={{ color: files[kind] ? '#7b9726' : '#a8a19f' }}>
+                        {files[kind] ? '✓' : '✗'}&nbsp;{fileDescriptions[kind]}
+                    </span>
+                ))}
+                {Object.keys(files).length > 0 ? (
+                    <button className="hover:opacity-60 underline" onClick={() => onChange({})}>
+                        Clear
+                    </button>
+                ) : null}
+            </Typography>
+            {error ? (
+                <Typography variant={'body2'} color={'#ed335f'}>
+                    {error}
+                </Typography>
+            ) : null}
+        </div>
+    );
+};
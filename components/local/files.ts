@@ -0,0 +1,91 @@
+import { ethers } from 'ethers';
+import { Block, TransactionReceipt, TransactionResponse } from '@ethersproject/abstract-provider';
+import { TraceResponse } from '../api';
+
+// everything which can be loaded from local files. only the trace is required
+export type LocalTraceFiles = {
+    trace?: TraceResponse;
+    transaction?: TransactionResponse;
+    receipt?: TransactionReceipt;
+    block?: Block;
+};
+
+export type LocalFileKind = keyof LocalTraceFiles;
+
+const isObject = (value: any): boolean => {
+    return !!value && typeof value === 'object' && !Array.isArray(value);
+};
+
+// figures out what a json document is by looking for fields which only that kind of document has
+export const detectLocalFileKind = (json: any): LocalFileKind | undefined => {
+    if (!isObject(json)) return undefined;
+
+    if ('entrypoint' in json && 'addresses' in json) return 'trace';
+    if ('cumulativeGasUsed' in json && 'logs' in json) return 'receipt';
+    if ('transactions' in json && 'miner' in json) return 'block';
+    if ('nonce' in json && 'from' in json && ('gas' in json || 'gasLimit' in json)) return 'transaction';
+
+    return undefined;
+};
+
+const parseDocument = (formatter: ethers.providers.Formatter, kind: LocalFileKind, json: any): LocalTraceFiles => {
+    // the transaction, receipt, and block can either be exactly as returned by the node or as serialized
+    // by ethers, and the formatter understands both
+    switch (kind) {
+        case 'trace':
+            return { trace: json };
+        case 'transaction':
+            return { transaction: formatter.transactionResponse(json) };
+        case 'receipt':
+            return { receipt: formatter.receipt(json) };
+        case 'block':
+            return { block: formatter.block(json) };
+    }
+};
+
+// parses the contents of a single file. a file may either contain one document, or a bundle
+// of documents keyed by their kind such as {"trace": ..., "receipt": ...}
+export const parseLocalFile = (name: string, contents: string): LocalTraceFiles => {
+    let json: any;
+    try {
+        json = JSON.parse(contents);
+    } catch (e) {
+        throw new Error(`${name} is not valid json`);
+    }
+
+    const formatter = new ethers.providers.Formatter();
+
+    const kind = detectLocalFileKind(json);
+    if (kind) {
+        return parseDocument(formatter, kind, json);
+    }
+
+    const bundleKinds = (['trace', 'transaction', 'receipt', 'block'] as LocalFileKind[]).filter(
+        (kind) => isObject(json) && detectLocalFileKind(json[kind]) === kind,
+    );
+    if (bundleKinds.length === 0) {
+        throw new Error(`${name} doesn't look like a trace, transaction, receipt, or block`);
+    }
+
+    return bundleKinds.reduce((result, kind) => {
+        return { ...result, ...parseDocument(formatter, kind, json[kind]) };
+    }, {} as LocalTraceFiles);
+};
+
+// merges newly loaded files into what has already been loaded, making sure everything refers to the same transaction
+export const mergeLocalFiles = (existing: LocalTraceFiles, loaded: LocalTraceFiles): LocalTraceFiles => {
+    const merged = { ...existing, ...loaded };
+
+    const hashes = [merged.trace?.txhash, merged.transaction?.hash, merged.receipt?.transactionHash]
+        .filter((hash): hash is string => !!hash)
+        .map((hash) => hash.toLowerCase());
+    if (new Set(hashes).size > 1) {
+        throw new Error(`files refer to different transactions: ${Array.from(new Set(hashes)).join(', ')}`);
+    }
+
+    if (merged.block && merged.receipt && merged.block.hash.toLowerCase() !== merged.receipt.blockHash.toLowerCase()) {
+        throw new Error(`block ${merged.block.hash} doesn't contain the transaction`);
+    }
+
+    return merged;
+};
@@ -1,17 +1,110 @@
 import React from 'react';
+import { TraceResponse } from '../api';
+import { precompiles } from '../precompiles';
+import { CustomLabels, loadCustomLabels, setCustomLabel } from '../labels/store';
+import { LabelCategory } from '../labels/categories';
+
+// where a label came from, so that users can tell how much to trust it
+export type LabelSource = 'trace' | 'precompile' | 'user' | 'pack';
+
+export type LabelInfo = {
+    label: string;
+    source: LabelSource;
+    category?: LabelCategory;
+    color?: string;
+
+    // the name of the label pack, if the label was imported from one
+    pack?: string;
+};
 
 export type LabelMetadata = {
     updater: React.Dispatch<React.SetStateAction<LabelMetadata>>;
+
+    // the label to show for each address
     labels: Record<string, string>;
-    customLabels: Record<string, Record<string, string>>;
+    details: Record<string, LabelInfo>;
+    customLabels: CustomLabels;
+
+    // the labels from the trace and precompiles, which are shown again when a custom label is cleared
+    baseDetails: Record<string, LabelInfo>;
 };
 
 export const defaultLabelMetadata = (): LabelMetadata => {
     return {
         updater: () => {},
         labels: {},
+        details: {},
         customLabels: {},
+        baseDetails: {},
     };
 };
 
 export const LabelMetadataContext = React.createContext(defaultLabelMetadata());
+
+// builds the labels for every address in the trace. custom labels take precedence over the ones from the trace
+export const buildLabelMetadata = (
+    chain: string,
+    traceResponse: TraceResponse,
+    updater: React.Dispatch<React.SetStateAction<LabelMetadata>>,
+): LabelMetadata => {
+    let baseDetails: Record<string, LabelInfo> = {};
+    let customLabels = loadCustomLabels();
+
+    for (let address of Object.keys(precompiles)) {
+        baseDetails[address] = { label: 'Precompile', source: 'precompile' };
+    }
+
+    for (let [address, entries] of Object.entries(traceResponse.addresses)) {
+        for (let info of Object.values(entries)) {
+            if (!baseDetails[address]?.label && info.label) {
+                baseDetails[address] = { label: info.label, source: 'trace' };
+            }
+        }
+    }
+
+    for (let address of Object.keys(baseDetails)) {
+        if (baseDetails[address].label === 'Vyper_contract') {
+            baseDetails[address].label = `Vyper_contract (0x${address.substring(2, 6)}..${address.substring(38, 42)})`;
+        }
+    }
+
+    let details = { ...baseDetails };
+    Object.entries(customLabels[chain] || {}).forEach(([address, label]) => (details[address] = { ...label }));
+
+    return {
+        updater: updater,
+        labels: Object.fromEntries(Object.entries(details).map(([address, info]) => [address, info.label])),
+        details: details,
+        customLabels: customLabels,
+        baseDetails: baseDetails,
+    };
+};
+
+// returns the labels to show after the user sets a custom label. an empty label deletes it, and the address goes back
+// to the label from the trace, if it had one
+export const applyCustomLabel = (
+    metadata: LabelMetadata,
+    chain: string,
+    address: string,
+    label: string,
+): LabelMetadata => {
+    address = address.toLowerCase();
+
+    const customLabels = setCustomLabel(metadata.customLabels, chain, address, label);
+    const labels = { ...metadata.labels };
+    const details = { ...metadata.details };
+
+    const customLabel = customLabels[chain]?.[address];
+    if (customLabel) {
+        labels[address] = customLabel.label;
+        details[address] = { ...customLabel };
+    } else if (metadata.baseDetails[address]) {
+        labels[address] = metadata.baseDetails[address].label;
+        details[address] = { ...metadata.baseDetails[address] };
+    } else {
+        delete labels[address];
+        delete details[address];
+    }
+
+    return { ...metadata, labels: labels, details: details, customLabels: customLabels };
+};
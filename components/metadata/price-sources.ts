@@ -0,0 +1,358 @@
+import { ethers } from 'ethers';
+import { ChainConfig } from '../Chains';
+import { NATIVE_TOKEN } from '../decoder/actions';
+import { fetchTokenInfos } from './tokens';
+import { parsePrice, PRICE_DECIMALS, PriceInfo, PriceQuery, PriceSource, toDefiLlamaId } from './prices';
+
+type CoinInfo = {
+    confidence: number;
+    decimals?: number;
+    price: number;
+    symbol: string;
+    timestamp: number;
+};
+
+type DefiLlamaResponse = {
+    coins: Record<string, CoinInfo>;
+};
+
+const isNativeToken = (chain: ChainConfig, token: string): boolean => {
+    return token === NATIVE_TOKEN || token === chain.nativeTokenAddress.toLowerCase();
+};
+
+// prices from the DefiLlama coins api, which knows about most tokens on the chains it supports
+export class DefiLlamaPriceSource implements PriceSource {
+    private readonly endpoint: string;
+
+    constructor(endpoint = 'https://coins.llama.fi') {
+        this.endpoint = endpoint.replace(/\/+$/, '');
+    }
+
+    private async fetchCoins(path: string): Promise<Record<string, CoinInfo>> {
+        const resp = await fetch(`${this.endpoint}${path}`);
+        if (!resp.ok) {
+            throw new Error(`failed to fetch prices: ${resp.status} ${resp.statusText}`);
+        }
+
+        const json: DefiLlamaResponse = await resp.json();
+        return json.coins || {};
+    }
+
+    async getPrices(chain: ChainConfig, tokens: string[], when: PriceQuery): Promise<Record<string, PriceInfo>> {
+        const ids: Record<string, string> = {};
+        tokens.forEach((token) => {
+            const id = toDefiLlamaId(chain, token);
+            if (id) ids[token] = id;
+        });
+
+        const allIds = Array.from(new Set(Object.values(ids)));
+        if (allIds.length === 0) return {};
+
+        const [current, historical] = await Promise.all([
+            this.fetchCoins(`/prices/current/${allIds.join(',')}`),
+            this.fetchCoins(`/prices/historical/${when.timestamp}/${allIds.join(',')}`),
+        ]);
+
+        const result: Record<string, PriceInfo> = {};
+        Object.entries(ids).forEach(([token, id]) => {
+            if (!current[id] && !historical[id]) return;
+
+            result[token] = {
+                // coingecko ids don't come with decimals, but those are only used for native tokens
+                decimals: current[id]?.decimals || historical[id]?.decimals || 18,
+                currentPrice: current[id] ? parsePrice(current[id].price) : undefined,
+                historicalPrice: historical[id] ? parsePrice(historical[id].price) : undefined,
+            };
+        });
+        return result;
+    }
+}
+
+// prices are decimal strings or numbers in usd. if only a price is given, it's used as both the current
+// and the historical price
+export type StaticPriceEntry = {
+    decimals: number;
+    price?: number | string;
+    currentPrice?: number | string;
+    historicalPrice?: number | string;
+};
+
+// prices keyed by chain and then by token address, or NATIVE_TOKEN for the native token
+export type StaticPriceFile = Record<string, Record<string, StaticPriceEntry>>;
+
+export const parseStaticPriceFile = (json: any): StaticPriceFile => {
+    if (!json || typeof json !== 'object' || Array.isArray(json)) {
+        throw new Error('price file must be an object keyed by chain');
+    }
+
+    return Object.fromEntries(
+        Object.entries(json).map(([chain, entries]) => {
+            if (!entries || typeof entries !== 'object') {
+                throw new Error(`prices for ${chain} must be an object keyed by token`);
+            }
+
+            return [
+                chain,
+                Object.fromEntries(
+                    Object.entries(entries as Record<string, StaticPriceEntry>).map(([token, entry]) => {
+                        if (typeof entry?.decimals !== 'number') {
+                            throw new Error(`price of ${token} on ${chain} is missing decimals`);
+                        }
+                        return [token.toLowerCase(), entry];
+                    }),
+                ),
+            ];
+        }),
+    );
+};
+
+// prices from a json file, so that values can be shown without any network access
+export class StaticPriceSource implements PriceSource {
+    private readonly load: () => Promise<StaticPriceFile>;
+    private prices?: Promise<StaticPriceFile>;
+
+    constructor(prices: StaticPriceFile | (() => Promise<StaticPriceFile>)) {
+        this.load = typeof prices === 'function' ? prices : () => Promise.resolve(prices);
+    }
+
+    static fromUrl(url: string): StaticPriceSource {
+        return new StaticPriceSource(() =>
+            fetch(url)
+                .then((resp) => resp.json())
+                .then(parseStaticPriceFile),
+        );
+    }
+
+    async getPrices(chain: ChainConfig, tokens: string[]): Promise<Record<string, PriceInfo>> {
+        if (!this.prices) {
+            this.prices = this.load();
+        }
+        const entries = (await this.prices)[chain.id] || {};
+
+        const result: Record<string, PriceInfo> = {};
+        tokens.forEach((token) => {
+            const entry = entries[token] || (isNativeToken(chain, token) ? entries[NATIVE_TOKEN] : undefined);
+            if (!entry) return;
+
+            const currentPrice = entry.currentPrice ?? entry.price;
+            const historicalPrice = entry.historicalPrice ?? entry.price;
+            result[token] = {
+                decimals: entry.decimals,
+                currentPrice: currentPrice !== undefined ? parsePrice(currentPrice) : undefined,
+                historicalPrice: historicalPrice !== undefined ? parsePrice(historicalPrice) : undefined,
+            };
+        });
+        return result;
+    }
+}
+
+type UniswapDeployment = {
+    factory: string;
+
+    // the stablecoin which is treated as being worth exactly one dollar
+    usdToken: string;
+};
+
+const UNISWAP_V3_FACTORY = '0x1F98431c8aD98523631AE4a59f267346ea31F984';
+
+export const uniswapDeployments: Record<string, UniswapDeployment> = {
+    ethereum: { factory: UNISWAP_V3_FACTORY, usdToken: '0xA0b86991c6218b36c1d19D4a2e9Eb0cE3606eB48' },
+    polygon: { factory: UNISWAP_V3_FACTORY, usdToken: '0x2791Bca1f2de4661ED88A30C99A7a9449Aa84174' },
+    optimism: { factory: UNISWAP_V3_FACTORY, usdToken: '0x0b2C639c533813f4Aa9D7837CAf62653d097Ff85' },
+    arbitrum: { factory: UNISWAP_V3_FACTORY, usdToken: '0xaf88d065e77c8cC2239327C5EDb3A432268e5831' },
+};
+
+const UNISWAP_FEE_TIERS = [100, 500, 3000, 10000];
+
+const factoryInterface = new ethers.utils.Interface([
+    'function getPool(address tokenA, address tokenB, uint24 fee) view returns (address)',
+]);
+
+const poolInterface = new ethers.utils.Interface([
+    'function liquidity() view returns (uint128)',
+    'function slot0() view returns (uint160 sqrtPriceX96, int24 tick, uint16 observationIndex, uint16 observationCardinality, uint16 observationCardinalityNext, uint8 feeProtocol, bool unlocked)',
+    'function observe(uint32[] secondsAgos) view returns (int56[] tickCumulatives, uint160[] secondsPerLiquidityCumulativeX128s)',
+]);
+
+const Q192 = 2n ** 192n;
+
+// converts a raw price of token0 in units of token1 into a fixed point price, adjusting for decimals
+const scaleRawPrice = (numerator: bigint, denominator: bigint, decimals0: number, decimals1: number): bigint => {
+    const exponent = PRICE_DECIMALS + decimals0 - decimals1;
+    return exponent >= 0
+        ? (numerator * 10n ** BigInt(exponent)) / denominator
+        : numerator / (denominator * 10n ** BigInt(-exponent));
+};
+
+export type UniswapPriceSourceOptions = {
+    // if set, prices are averaged over this many seconds using the pool's oracle instead of using the spot price.
+    // pools without enough observations fall back to the spot price
+    twapSeconds?: number;
+};
+
+// prices derived from uniswap v3 pools as of the block the transaction was included in. tokens are priced against
+// a stablecoin, either directly or through the wrapped native token, using whichever pool has the most liquidity
+export class UniswapPriceSource implements PriceSource {
+    private readonly provider: ethers.providers.Provider;
+    private readonly opts: UniswapPriceSourceOptions;
+
+    constructor(provider: ethers.providers.Provider, opts: UniswapPriceSourceOptions = {}) {
+        this.provider = provider;
+        this.opts = opts;
+    }
+
+    private async call(
+        to: string,
+        iface: ethers.utils.Interface,
+        method: string,
+        args: any[],
+        blockTag: ethers.providers.BlockTag,
+    ) {
+        const result = await this.provider.call({ to: to, data: iface.encodeFunctionData(method, args) }, blockTag);
+        return iface.decodeFunctionResult(method, result);
+    }
+
+    // finds the pool between the two tokens with the most liquidity at the given block
+    private async findPool(
+        factory: string,
+        tokenA: string,
+        tokenB: string,
+        blockTag: ethers.providers.BlockTag,
+    ): Promise<string | undefined> {
+        const pools = await Promise.all(
+            UNISWAP_FEE_TIERS.map(async (fee) => {
+                const [pool] = await this.call(factory, factoryInterface, 'getPool', [tokenA, tokenB, fee], blockTag);
+                if (pool === ethers.constants.AddressZero) return undefined;
+
+                const [liquidity] = await this.call(pool, poolInterface, 'liquidity', [], blockTag);
+                return { pool: pool as string, liquidity: (liquidity as ethers.BigNumber).toBigInt() };
+            }),
+        );
+
+        return pools
+            .filter((v): v is { pool: string; liquidity: bigint } => v !== undefined && v.liquidity > 0n)
+            .sort((a, b) => (b.liquidity > a.liquidity ? 1 : b.liquidity < a.liquidity ? -1 : 0))[0]?.pool;
+    }
+
+    // returns the price of token0 in token1, as a fixed point number
+    private async getPoolPrice(
+        pool: string,
+        decimals0: number,
+        decimals1: number,
+        blockTag: ethers.providers.BlockTag,
+    ): Promise<bigint> {
+        if (this.opts.twapSeconds) {
+            try {
+                const [tickCumulatives] = await this.call(
+                    pool,
+                    poolInterface,
+                    'observe',
+                    [[this.opts.twapSeconds, 0]],
+                    blockTag,
+                );
+                const averageTick =
+                    (tickCumulatives[1] as ethers.BigNumber).sub(tickCumulatives[0]).toNumber() / this.opts.twapSeconds;
+
+                return parsePrice(Math.pow(1.0001, averageTick) * Math.pow(10, decimals0 - decimals1));
+            } catch (e) {
+                console.log('failed to fetch twap, falling back to spot price', pool, e);
+            }
+        }
+
+        const [sqrtPriceX96] = await this.call(pool, poolInterface, 'slot0', [], blockTag);
+        const sqrtPrice = (sqrtPriceX96 as ethers.BigNumber).toBigInt();
+        return scaleRawPrice(sqrtPrice * sqrtPrice, Q192, decimals0, decimals1);
+    }
+
+    // returns the price of the base token in the quote token, or undefined if there's no pool between them
+    private async getPairPrice(
+        factory: string,
+        base: string,
+        quote: string,
+        decimals: Record<string, number>,
+        blockTag: ethers.providers.BlockTag,
+    ): Promise<bigint | undefined> {
+        if (base === quote) return 10n ** BigInt(PRICE_DECIMALS);
+
+        const pool = await this.findPool(factory, base, quote, blockTag);
+        if (!pool) return undefined;
+
+        // pools always price token0 in token1, where token0 is the lower address
+        const [token0, token1] = base < quote ? [base, quote] : [quote, base];
+        const price = await this.getPoolPrice(pool, decimals[token0], decimals[token1], blockTag);
+        if (token0 === base) return price;
+
+        return price === 0n ? undefined : 10n ** BigInt(PRICE_DECIMALS * 2) / price;
+    }
+
+    private async getUsdPrice(
+        deployment: UniswapDeployment,
+        wrappedNative: string,
+        token: string,
+        decimals: Record<string, number>,
+        blockTag: ethers.providers.BlockTag,
+    ): Promise<bigint | undefined> {
+        const usdToken = deployment.usdToken.toLowerCase();
+
+        const direct = await this.getPairPrice(deployment.factory, token, usdToken, decimals, blockTag);
+        if (direct !== undefined || token === wrappedNative) return direct;
+
+        const [inNative, nativeInUsd] = await Promise.all([
+            this.getPairPrice(deployment.factory, token, wrappedNative, decimals, blockTag),
+            this.getPairPrice(deployment.factory, wrappedNative, usdToken, decimals, blockTag),
+        ]);
+        if (inNative === undefined || nativeInUsd === undefined) return undefined;
+
+        return (inNative * nativeInUsd) / 10n ** BigInt(PRICE_DECIMALS);
+    }
+
+    async getPrices(chain: ChainConfig, tokens: string[], when: PriceQuery): Promise<Record<string, PriceInfo>> {
+        // every price goes through the wrapped native token if there's no direct pair, so we can't do without it
+        const deployment = uniswapDeployments[chain.id];
+        if (!deployment || !chain.wrappedNativeTokenAddress) return {};
+
+        const wrappedNative = chain.wrappedNativeTokenAddress.toLowerCase();
+        const usdToken = deployment.usdToken.toLowerCase();
+
+        // the native token is priced using its wrapped version
+        const addresses = Object.fromEntries(
+            tokens.map((token) => [token, isNativeToken(chain, token) ? wrappedNative : token.toLowerCase()]),
+        );
+
+        const tokenInfos = await fetchTokenInfos(
+            this.provider,
+            Array.from(new Set([...Object.values(addresses), wrappedNative, usdToken])),
+        );
+        const decimals: Record<string, number> = {};
+        Object.entries(tokenInfos).forEach(([token, info]) => {
+            if (info.decimals !== undefined) decimals[token] = info.decimals;
+        });
+
+        const getPrice = (token: string, blockTag: ethers.providers.BlockTag) => {
+            return this.getUsdPrice(deployment, wrappedNative, token, decimals, blockTag).catch((e) => {
+                console.log('failed to fetch uniswap price', token, blockTag, e);
+                return undefined;
+            });
+        };
+
+        const result: Record<string, PriceInfo> = {};
+        await Promise.all(
+            Object.entries(addresses).map(async ([token, address]) => {
+                if (decimals[address] === undefined) return;
+
+                const [currentPrice, historicalPrice] = await Promise.all([
+                    getPrice(address, 'latest'),
+                    when.blockNumber !== undefined ? getPrice(address, when.blockNumber) : undefined,
+                ]);
+                if (currentPrice === undefined && historicalPrice === undefined) return;
+
+                result[token] = {
+                    decimals: decimals[address],
+                    currentPrice: currentPrice,
+                    historicalPrice: historicalPrice,
+                };
+            }),
+        );
+        return result;
+    }
+}
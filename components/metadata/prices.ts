@@ -2,26 +2,40 @@ import * as React from 'react';
 import { ChainConfig, getChain } from '../Chains';
 import { NATIVE_TOKEN } from '../decoder/actions';
 
-type CoinInfo = {
-    confidence: number;
+// prices are fixed point numbers with this many decimals, so that tokens worth a tiny fraction of a cent
+// can still be priced
+export const PRICE_DECIMALS = 18;
+
+// usd values are fixed point numbers with this many decimals, which is what formatUsd expects
+const USD_DECIMALS = 22;
+
+export type PriceInfo = {
     decimals: number;
-    price: number;
-    symbol: string;
-    timestamp: number;
+
+    // undefined if the price isn't known, which is not the same as the token being worthless
+    currentPrice?: bigint;
+    historicalPrice?: bigint;
 };
 
-type DefiLlamaResponse = {
-    coins: Record<string, CoinInfo>;
+// the point in time that historical prices should be fetched for
+export type PriceQuery = {
+    timestamp: number;
+
+    // on-chain sources need the block, and can only return current prices without it
+    blockNumber?: number;
 };
 
-export type PriceInfo = {
-    decimals: number;
-    currentPrice: bigint;
-    historicalPrice: bigint;
+// somewhere prices can be loaded from. tokens are either addresses or NATIVE_TOKEN, and tokens whose price
+// isn't known should be left out of the result
+export type PriceSource = {
+    getPrices(chain: ChainConfig, tokens: string[], when: PriceQuery): Promise<Record<string, PriceInfo>>;
 };
 
 export type PriceMetadata = {
     updater: React.Dispatch<React.SetStateAction<PriceMetadata>>;
+
+    // if there is no source then nothing will be fetched, and every price is unknown
+    source?: PriceSource;
     status: Record<string, 'pending' | 'fetched'>;
     prices: Record<string, PriceInfo>;
 };
@@ -36,86 +50,100 @@ export const defaultPriceMetadata = (): PriceMetadata => {
 
 export const PriceMetadataContext = React.createContext(defaultPriceMetadata());
 
-export const toDefiLlamaId = (chainInfo: ChainConfig, token: string) => {
+// returns undefined if there's no way to price the token, such as on custom chains which DefiLlama doesn't support
+export const toDefiLlamaId = (chainInfo: ChainConfig, token: string): string | undefined => {
     if (token === chainInfo.nativeTokenAddress || token == NATIVE_TOKEN) {
         return chainInfo.coingeckoId;
     }
 
-    return `${chainInfo.defillamaPrefix}:${token}`;
+    return chainInfo.defillamaPrefix ? `${chainInfo.defillamaPrefix}:${token}` : undefined;
 };
 
+export const toDefiLlamaIds = (chainInfo: ChainConfig, tokens: Iterable<string>): string[] => {
+    return Array.from(tokens)
+        .map((token) => toDefiLlamaId(chainInfo, token))
+        .filter((id): id is string => id !== undefined);
+};
+
+// parses a decimal price such as 0.00001234 or "1234.5" into a fixed point price
+export const parsePrice = (price: number | string): bigint => {
+    let value = typeof price === 'number' || /e/i.test(price) ? Number(price).toFixed(PRICE_DECIMALS) : price.trim();
+
+    const [whole, fraction = ''] = value.split('.');
+    return BigInt(whole + fraction.substring(0, PRICE_DECIMALS).padEnd(PRICE_DECIMALS, '0'));
+};
+
+// converts an amount of a token into its value in usd, in the format expected by formatUsd
+export const toUsdValue = (amount: bigint, decimals: number, price: bigint): bigint => {
+    return (amount * price * 10n ** BigInt(USD_DECIMALS)) / 10n ** BigInt(decimals + PRICE_DECIMALS);
+};
+
+// returns the value of the amount in usd, or whether the price is still being fetched or isn't known at all
 export const getPriceOfToken = (
     metadata: PriceMetadata,
-    id: string,
+    token: string,
     amount: bigint,
     type: 'current' | 'historical',
-): bigint | null => {
-    if (metadata.status[id] !== 'fetched') return null;
-
-    const priceInfo = metadata.prices[id];
-    return (
-        amount *
-        BigInt(10 ** (18 - priceInfo.decimals)) *
-        (type === 'current' ? priceInfo.currentPrice : priceInfo.historicalPrice)
-    );
+): bigint | 'pending' | 'unknown' => {
+    token = token.toLowerCase();
+    if (metadata.status[token] !== 'fetched') return 'pending';
+
+    const priceInfo = metadata.prices[token];
+    const price = type === 'current' ? priceInfo?.currentPrice : priceInfo?.historicalPrice;
+    if (price === undefined) return 'unknown';
+
+    return toUsdValue(amount, priceInfo.decimals, price);
 };
 
-export const fetchDefiLlamaPrices = (
+export const fetchPrices = (
     setMetadata: React.Dispatch<React.SetStateAction<PriceMetadata>>,
-    ids: string[],
-    when: number,
+    source: PriceSource | undefined,
+    chain: ChainConfig,
+    tokens: Iterable<string>,
+    when: PriceQuery,
 ): Promise<void> => {
+    if (!source) return Promise.resolve();
+
+    const allTokens = Array.from(new Set(Array.from(tokens).map((token) => token.toLowerCase())));
+
     return new Promise<void>((resolve, reject) => {
         setTimeout(() => {
             setMetadata((prevState) => {
                 const newState = { ...prevState };
 
-                const filteredIds = ids.filter((id) => newState.status[id] === undefined);
+                const filteredTokens = allTokens.filter((token) => newState.status[token] === undefined);
 
-                if (filteredIds.length === 0) {
+                if (filteredTokens.length === 0) {
                     resolve();
                     return prevState;
                 }
 
-                filteredIds.forEach((id) => (newState.status[id] = 'pending'));
-                Promise.all([
-                    fetch(`https://coins.llama.fi/prices/current/${filteredIds.join(',')}`)
-                        .then((resp) => resp.json())
-                        .then((resp) => resp.coins),
-                    fetch(`https://coins.llama.fi/prices/historical/${when}/${filteredIds.join(',')}`)
-                        .then((resp) => resp.json())
-                        .then((resp) => resp.coins),
-                ])
-                    .then(([current, historical]) => {
-                        resolve();
-
-                        setMetadata((prevState) => {
-                            let newState = { ...prevState };
-                            filteredIds.forEach((id) => {
-                                newState.status[id] = 'fetched';
-                                newState.prices[id] = {
-                                    decimals: 18,
-                                    currentPrice: 0n,
-                                    historicalPrice: 0n,
-                                };
-
-                                if (current[id]) {
-                                    if (current[id].decimals) {
-                                        newState.prices[id].decimals = current[id].decimals;
-                                    }
-                                    newState.prices[id].currentPrice = BigInt((current[id].price * 10000) | 0);
-                                }
-                                if (historical[id]) {
-                                    if (historical[id].decimals) {
-                                        newState.prices[id].decimals = historical[id].decimals;
-                                    }
-                                    newState.prices[id].historicalPrice = BigInt((historical[id].price * 10000) | 0);
-                                }
-                            });
-                            return newState;
+                filteredTokens.forEach((token) => (newState.status[token] = 'pending'));
+
+                const finish = (prices: Record<string, PriceInfo>) => {
+                    setMetadata((prevState) => {
+                        let newState = { ...prevState };
+                        filteredTokens.forEach((token) => {
+                            // tokens which the source didn't return are marked as fetched so they show up as unknown
+                            newState.status[token] = 'fetched';
+                            if (prices[token]) {
+                                newState.prices[token] = prices[token];
+                            }
                         });
+                        return newState;
+                    });
+                };
+
+                source
+                    .getPrices(chain, filteredTokens, when)
+                    .then((prices) => {
+                        resolve();
+                        finish(prices);
                     })
-                    .catch(reject);
+                    .catch((e) => {
+                        finish({});
+                        reject(e);
+                    });
 
                 return newState;
             });
@@ -1,5 +1,5 @@
-import { ChainConfig, getChain, SupportedChains } from '../Chains';
-import { BaseProvider, JsonRpcBatchProvider } from '@ethersproject/providers';
+import { ChainConfig, getChain, getSupportedChains } from '../Chains';
+import { BaseProvider, JsonRpcBatchProvider, JsonRpcProvider } from '@ethersproject/providers';
 import React from 'react';
 import { ethers } from 'ethers';
 import { defaultAbiCoder, ParamType } from '@ethersproject/abi';
@@ -7,8 +7,11 @@ import { NATIVE_TOKEN } from '../decoder/actions';
 
 export type TokenInfo = {
     symbol?: string;
+    name?: string;
     decimals?: number;
+    // supports erc721
     isNft?: boolean;
+    isErc1155?: boolean;
 };
 
 export type TokenMetadata = {
@@ -20,13 +23,13 @@ export type TokenMetadata = {
 export const defaultTokenMetadata = (): TokenMetadata => {
     return {
         updater: () => {},
-        status: SupportedChains.reduce((o, chain) => {
+        status: getSupportedChains().reduce((o, chain) => {
             return {
                 ...o,
                 [chain.nativeTokenAddress]: 'fetched',
             };
         }, {}),
-        tokens: SupportedChains.reduce((o, chain) => {
+        tokens: getSupportedChains().reduce((o, chain) => {
             return {
                 ...o,
                 [chain.nativeTokenAddress]: {
@@ -41,9 +44,208 @@ export const defaultTokenMetadata = (): TokenMetadata => {
 
 export const TokenMetadataContext = React.createContext(defaultTokenMetadata());
 
+// deployed at the same address on almost every chain, see https://github.com/mds1/multicall
+const MULTICALL3_ADDRESS = '0xcA11bde05977b3631167028862bE2a173976CA11';
+
+// keeps each eth_call well under the gas limit, even for transactions which touch hundreds of tokens
+const MULTICALL_BATCH_SIZE = 100;
+
+const multicallInterface = new ethers.utils.Interface([
+    'function aggregate3((address target, bool allowFailure, bytes callData)[] calls) payable returns ((bool success, bytes returnData)[] returnData)',
+]);
+
+const tokenInterface = new ethers.utils.Interface([
+    'function decimals()',
+    'function symbol()',
+    'function name()',
+    'function supportsInterface(bytes4)',
+]);
+
+const ERC721_INTERFACE_ID = '0x80ac58cd';
+const ERC1155_INTERFACE_ID = '0xd9b67a26';
+
+// the calls made for every token, in the order decodeTokenInfo expects the results
+const tokenCalls = [
+    tokenInterface.encodeFunctionData('decimals'),
+    tokenInterface.encodeFunctionData('symbol'),
+    tokenInterface.encodeFunctionData('name'),
+    tokenInterface.encodeFunctionData('supportsInterface', [ERC721_INTERFACE_ID]),
+    tokenInterface.encodeFunctionData('supportsInterface', [ERC1155_INTERFACE_ID]),
+];
+
+export type CallResult = {
+    success: boolean;
+    returnData: string;
+};
+
+type Call = {
+    target: string;
+    callData: string;
+};
+
+// token metadata only needs eth_call, so anything which can make one will do
+export type CallProvider = Pick<BaseProvider, 'call'>;
+
+// some older tokens such as MKR return bytes32 instead of a string from name() and symbol()
+const decodeString = (returnData: string): string | undefined => {
+    if (ethers.utils.hexDataLength(returnData) === 32) {
+        return ethers.utils.toUtf8String(returnData.replace(/(00)+$/g, ''), ethers.utils.Utf8ErrorFuncs.ignore);
+    }
+
+    try {
+        return defaultAbiCoder.decode([ParamType.from('string')], returnData)[0].toString();
+    } catch {
+        return undefined;
+    }
+};
+
+const decodeBool = (result: CallResult): boolean => {
+    return result.success && result.returnData.length > 2 ? BigInt(result.returnData) == 1n : false;
+};
+
+// turns the results of tokenCalls into a TokenInfo, ignoring anything which failed or returned garbage
+export const decodeTokenInfo = (results: CallResult[]): TokenInfo => {
+    const [decimals, symbol, name, isErc721, isErc1155] = results;
+
+    const info: TokenInfo = {
+        isNft: decodeBool(isErc721),
+        isErc1155: decodeBool(isErc1155),
+    };
+
+    if (decimals.success && ethers.utils.hexDataLength(decimals.returnData) === 32) {
+        const value = BigInt(decimals.returnData);
+        if (value <= 255n) {
+            info.decimals = Number(value);
+        }
+    }
+    if (symbol.success) {
+        info.symbol = decodeString(symbol.returnData);
+    }
+    if (name.success) {
+        info.name = decodeString(name.returnData);
+    }
+
+    return info;
+};
+
+const multicall = async (provider: CallProvider, calls: Call[]): Promise<CallResult[]> => {
+    const returnData = await provider.call({
+        to: MULTICALL3_ADDRESS,
+        data: multicallInterface.encodeFunctionData('aggregate3', [
+            calls.map((call) => ({ target: call.target, allowFailure: true, callData: call.callData })),
+        ]),
+    });
+
+    const [results] = multicallInterface.decodeFunctionResult('aggregate3', returnData);
+    return results.map((result: CallResult) => ({ success: result.success, returnData: result.returnData }));
+};
+
+// used on chains without multicall3, such as a fresh devnet. the calls still go out in a single request
+const batchCall = async (provider: CallProvider, calls: Call[]): Promise<CallResult[]> => {
+    const batchProvider =
+        provider instanceof JsonRpcProvider
+            ? new JsonRpcBatchProvider((provider as JsonRpcProvider).connection)
+            : provider;
+
+    return Promise.all(
+        calls.map((call) =>
+            batchProvider.call({ to: call.target, data: call.callData }).then(
+                (returnData: string) => ({ success: true, returnData: returnData }),
+                () => ({ success: false, returnData: '0x' }),
+            ),
+        ),
+    );
+};
+
+export const fetchTokenInfos = async (provider: CallProvider, tokens: string[]): Promise<Record<string, TokenInfo>> => {
+    const result: Record<string, TokenInfo> = {};
+
+    for (let i = 0; i < tokens.length; i += MULTICALL_BATCH_SIZE) {
+        const batch = tokens.slice(i, i + MULTICALL_BATCH_SIZE);
+        const calls = batch.flatMap((token) => tokenCalls.map((callData) => ({ target: token, callData: callData })));
+
+        const results = await multicall(provider, calls).catch((e) => {
+            console.log('multicall failed, falling back to batched calls', e);
+            return batchCall(provider, calls);
+        });
+
+        batch.forEach((token, idx) => {
+            result[token] = decodeTokenInfo(results.slice(idx * tokenCalls.length, (idx + 1) * tokenCalls.length));
+        });
+    }
+
+    return result;
+};
+
+// token metadata basically never changes, so it's cached in indexeddb across page loads
+const TOKEN_CACHE_DB = 'metadata';
+const TOKEN_CACHE_STORE = 'tokens';
+
+const openTokenCache = (): Promise<IDBDatabase | undefined> => {
+    if (typeof indexedDB === 'undefined') return Promise.resolve(undefined);
+
+    return new Promise((resolve) => {
+        const request = indexedDB.open(TOKEN_CACHE_DB, 1);
+        request.onupgradeneeded = () => request.result.createObjectStore(TOKEN_CACHE_STORE);
+        request.onsuccess = () => resolve(request.result);
+        // the cache is only an optimization, so carry on without it
+        request.onerror = () => resolve(undefined);
+    });
+};
+
+const tokenCacheKey = (chain: string, token: string) => `${chain}:${token.toLowerCase()}`;
+
+const readCachedTokenInfos = async (chain: string, tokens: string[]): Promise<Record<string, TokenInfo>> => {
+    const db = await openTokenCache();
+    if (!db) return {};
+
+    try {
+        const store = db.transaction(TOKEN_CACHE_STORE, 'readonly').objectStore(TOKEN_CACHE_STORE);
+        const entries = await Promise.all(
+            tokens.map(
+                (token) =>
+                    new Promise<[string, TokenInfo | undefined]>((resolve) => {
+                        const request = store.get(tokenCacheKey(chain, token));
+                        request.onsuccess = () => resolve([token, request.result]);
+                        request.onerror = () => resolve([token, undefined]);
+                    }),
+            ),
+        );
+
+        return Object.fromEntries(entries.filter((entry): entry is [string, TokenInfo] => entry[1] !== undefined));
+    } catch (e) {
+        // for example if the store was deleted, in which case everything is fetched again
+        console.log('failed to read cached token metadata', e);
+        return {};
+    } finally {
+        db.close();
+    }
+};
+
+// a token whose calls all failed might just not have been deployed yet, or the node might have been having trouble,
+// so it isn't worth remembering
+const isCacheable = (info: TokenInfo): boolean => {
+    return info.decimals !== undefined || info.symbol !== undefined;
+};
+
+const writeCachedTokenInfos = async (chain: string, infos: Record<string, TokenInfo>) => {
+    const db = await openTokenCache();
+    if (!db) return;
+
+    try {
+        const store = db.transaction(TOKEN_CACHE_STORE, 'readwrite').objectStore(TOKEN_CACHE_STORE);
+        Object.entries(infos)
+            .filter(([token, info]) => isCacheable(info))
+            .forEach(([token, info]) => store.put(info, tokenCacheKey(chain, token)));
+    } finally {
+        db.close();
+    }
+};
+
 export const fetchTokenMetadata = (
     setMetadata: React.Dispatch<React.SetStateAction<TokenMetadata>>,
-    provider: BaseProvider,
+    provider: CallProvider,
+    chain: string,
     tokens: Array<string>,
 ) => {
     return new Promise<void>((resolve, reject) => {
@@ -61,109 +263,35 @@ export const fetchTokenMetadata = (
                 const newState = { ...prevState };
                 filteredTokens.forEach((token) => (newState.status[token] = 'pending'));
 
-                Promise.all(
-                    filteredTokens
-                        .map((token) => {
-                            return [
-                                provider
-                                    .call({
-                                        to: token,
-                                        data: ethers.utils.id('decimals()').substring(0, 10),
-                                    })
-                                    .then((decimalsHex) => {
-                                        const decimals = BigInt(decimalsHex);
-
-                                        if (decimals > 255n) {
-                                            throw new Error(
-                                                `tried to fetch decimals for token ${token} but got illegal value ${decimalsHex}`,
-                                            );
-                                        }
-
-                                        return {
-                                            token: token,
-                                            type: 'decimals',
-                                            decimals: Number(decimals),
-                                        } as { token: string; type: 'decimals'; decimals: number };
-                                    })
-                                    .catch(console.error),
-                                provider
-                                    .call({
-                                        to: token,
-                                        data: ethers.utils.id('symbol()').substring(0, 10),
-                                    })
-                                    .then((symbolHex) => {
-                                        let symbol;
-
-                                        if (symbolHex.length === 66) {
-                                            symbol = ethers.utils.toUtf8String(symbolHex.replace(/(00)+$/g, ''));
-                                        } else {
-                                            try {
-                                                let results = defaultAbiCoder.decode(
-                                                    [ParamType.from('string')],
-                                                    symbolHex,
-                                                );
-                                                symbol = results[0].toString();
-                                            } catch (e) {
-                                                throw new Error(
-                                                    `tried to fetch symbol for token ${token} but got illegal value ${symbolHex}`,
-                                                );
-                                            }
-                                        }
-
-                                        return {
-                                            token: token,
-                                            type: 'symbol',
-                                            symbol: symbol,
-                                        } as { token: string; type: 'symbol'; symbol: string };
-                                    })
-                                    .catch(console.error),
-                                provider
-                                    .call({
-                                        to: token,
-                                        data:
-                                            ethers.utils.id('supportsInterface(bytes4)').substring(0, 10) +
-                                            defaultAbiCoder.encode(['bytes4'], ['0x80ac58cd']).substring(2),
-                                    })
-                                    .then((isNftHex) => {
-                                        const isNft = isNftHex.length > 2 ? BigInt(isNftHex) == 1n : false;
-
-                                        return {
-                                            token: token,
-                                            type: 'isNft',
-                                            isNft: isNft,
-                                        } as { token: string; type: 'isNft'; isNft: boolean };
-                                    })
-                                    .catch(console.error),
-                            ];
-                        })
-                        .flatMap((x) => x),
-                )
-                    .then((results) => {
-                        resolve();
-
-                        setMetadata((prevState) => {
-                            const newState = { ...prevState };
-                            filteredTokens.forEach((token) => {
-                                newState.status[token] = 'fetched';
-                                newState.tokens[token] = {};
-                            });
-
-                            results.forEach((result) => {
-                                if (!result) return;
-
-                                if (result.type === 'decimals') {
-                                    newState.tokens[result.token].decimals = result.decimals;
-                                } else if (result.type === 'symbol') {
-                                    newState.tokens[result.token].symbol = result.symbol;
-                                } else if (result.type === 'isNft') {
-                                    newState.tokens[result.token].isNft = result.isNft;
-                                }
-                            });
-
-                            return newState;
+                const finish = (infos: Record<string, TokenInfo>) => {
+                    setMetadata((prevState) => {
+                        const newState = { ...prevState };
+                        filteredTokens.forEach((token) => {
+                            newState.status[token] = 'fetched';
+                            newState.tokens[token] = infos[token] || {};
                         });
+
+                        return newState;
+                    });
+                };
+
+                readCachedTokenInfos(chain, filteredTokens)
+                    .then(async (cached) => {
+                        const missingTokens = filteredTokens.filter((token) => !(token in cached));
+                        const fetched = await fetchTokenInfos(provider, missingTokens);
+                        writeCachedTokenInfos(chain, fetched).catch(console.error);
+
+                        return { ...cached, ...fetched };
+                    })
+                    .then((infos) => {
+                        resolve();
+                        finish(infos);
                     })
-                    .catch(reject);
+                    .catch((e) => {
+                        // the tokens are still marked as fetched, so they're rendered without metadata
+                        finish({});
+                        reject(e);
+                    });
 
                 return newState;
             });
@@ -1,6 +1,8 @@
 import React from 'react';
 import { Block, TransactionReceipt, TransactionResponse } from '@ethersproject/abstract-provider';
 import { Result } from '../types';
+import { PriceQuery } from './prices';
+import { TraceResponse } from '../api';
 
 export type TransactionMetadata = {
     block: Block;
@@ -9,3 +11,28 @@ export type TransactionMetadata = {
 };
 
 export const TransactionMetadataContext = React.createContext<TransactionMetadata>({} as TransactionMetadata);
+
+// local traces don't necessarily come with a block, in which case we have to render everything
+// relative to the current time instead
+export const getBlockTimestamp = (metadata: TransactionMetadata): number => {
+    return metadata.block ? metadata.block.timestamp : Math.floor(Date.now() / 1000);
+};
+
+// historical prices are as of the block the transaction was included in
+export const getPriceQuery = (metadata: TransactionMetadata): PriceQuery => {
+    return {
+        timestamp: getBlockTimestamp(metadata),
+        blockNumber: metadata.block?.number,
+    };
+};
+
+export type TransactionStatus = 'Succeeded' | 'Failed' | 'Unknown';
+
+// receipts from before byzantium have a state root instead of a status, in which case the trace is the only way to
+// tell whether the transaction reverted
+export const getTransactionStatus = (metadata: TransactionMetadata, traceResult?: TraceResponse): TransactionStatus => {
+    const status = metadata.receipt.status ?? traceResult?.entrypoint.status;
+    if (status === 0) return 'Failed';
+    if (status === 1) return 'Succeeded';
+    return 'Unknown';
+};
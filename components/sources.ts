@@ -0,0 +1,224 @@
+import React from 'react';
+import { ethers } from 'ethers';
+import { apiEndpoint, doApiRequest, StorageResponse, TraceResponse } from './api';
+import { ChainConfig, isCustomChain } from './Chains';
+import { buildTraceResponse, STRUCT_LOG_TRACER, StructLoggerResult } from './trace/node-trace';
+import { PriceSource } from './metadata/prices';
+import { DefiLlamaPriceSource, StaticPriceSource, UniswapPriceSource } from './metadata/price-sources';
+
+// somewhere traces can be loaded from
+export type TraceSource = {
+    getTrace(chain: string, txhash: string): Promise<TraceResponse>;
+
+    // only backends know about storage layouts, so this is optional
+    getStorageLayout?(chain: string, address: string, codehash: string): Promise<StorageResponse>;
+};
+
+// the hosted api, or a self-hosted instance of the same backend
+export class BackendTraceSource implements TraceSource {
+    private readonly endpoint: string;
+
+    constructor(endpoint: string) {
+        this.endpoint = endpoint.replace(/\/+$/, '');
+    }
+
+    getTrace(chain: string, txhash: string): Promise<TraceResponse> {
+        return doApiRequest<TraceResponse>(`/api/v1/trace/${chain}/${txhash}`, undefined, this.endpoint);
+    }
+
+    getStorageLayout(chain: string, address: string, codehash: string): Promise<StorageResponse> {
+        return doApiRequest<StorageResponse>(
+            `/api/v1/storage/${chain}/${address}/${codehash}`,
+            undefined,
+            this.endpoint,
+        );
+    }
+}
+
+// traces the transaction directly on a node, which must support debug_traceTransaction
+export class RpcTraceSource implements TraceSource {
+    private readonly provider: ethers.providers.JsonRpcProvider;
+
+    constructor(rpcUrl: string) {
+        this.provider = new ethers.providers.JsonRpcProvider(rpcUrl);
+    }
+
+    async getTrace(chain: string, txhash: string): Promise<TraceResponse> {
+        const [calls, prestate, structLogs] = await Promise.all([
+            this.provider.send('debug_traceTransaction', [
+                txhash,
+                { tracer: 'callTracer', tracerConfig: { withLog: true } },
+            ]),
+            this.provider.send('debug_traceTransaction', [txhash, { tracer: 'prestateTracer' }]),
+            this.getStructLogs(txhash),
+        ]);
+
+        return buildTraceResponse(chain, txhash, { calls, prestate, structLogs });
+    }
+
+    // struct logs can be enormous, so some nodes refuse to return them. we can live without storage ops
+    private async getStructLogs(txhash: string): Promise<StructLoggerResult | undefined> {
+        try {
+            return await this.provider.send('debug_traceTransaction', [txhash, { tracer: STRUCT_LOG_TRACER }]);
+        } catch (e) {
+            console.log('failed to fetch struct logs with the js tracer', e);
+        }
+
+        // not every node supports js tracers. without memory we lose preimages and the logs of reverted frames, but
+        // with it the response is far too big for most transactions
+        try {
+            return await this.provider.send('debug_traceTransaction', [
+                txhash,
+                { enableMemory: false, disableStorage: true },
+            ]);
+        } catch (e) {
+            console.log('failed to fetch struct logs', e);
+            return undefined;
+        }
+    }
+}
+
+// traces which were loaded from disk during this session
+const localTraces: Record<string, TraceResponse> = {};
+
+export const rememberLocalTrace = (trace: TraceResponse) => {
+    if (!trace.chain || !trace.txhash) return;
+
+    localTraces[`${trace.chain}:${trace.txhash.toLowerCase()}`] = trace;
+};
+
+export class LocalTraceSource implements TraceSource {
+    getTrace(chain: string, txhash: string): Promise<TraceResponse> {
+        const trace = localTraces[`${chain}:${txhash.toLowerCase()}`];
+        if (!trace) {
+            return Promise.reject(new Error(`trace for ${txhash} hasn't been loaded, open it from /local first`));
+        }
+        return Promise.resolve(trace);
+    }
+}
+
+// stands in for a trace source which was chosen but can't be used. falling back to another source could send the
+// transaction somewhere the user chose not to, e.g. the hosted api when they wanted to keep their traces private
+export class UnavailableTraceSource implements TraceSource {
+    private readonly reason: string;
+
+    constructor(reason: string) {
+        this.reason = reason;
+    }
+
+    getTrace(chain: string, txhash: string): Promise<TraceResponse> {
+        return Promise.reject(new Error(this.reason));
+    }
+}
+
+export type TraceSourceKind = 'hosted' | 'self-hosted' | 'rpc' | 'local';
+
+export const traceSourceKinds: Record<TraceSourceKind, string> = {
+    hosted: 'Hosted API',
+    'self-hosted': 'Self-hosted backend',
+    rpc: 'Direct RPC',
+    local: 'Local file',
+};
+
+export type PriceSourceKind = 'defillama' | 'uniswap' | 'uniswap-twap' | 'static' | 'none';
+
+export const priceSourceKinds: Record<PriceSourceKind, string> = {
+    defillama: 'DefiLlama',
+    uniswap: 'Uniswap spot price',
+    'uniswap-twap': 'Uniswap TWAP',
+    static: 'Price file',
+    none: 'None',
+};
+
+export type ChainSourceSettings = {
+    traceSource: TraceSourceKind;
+
+    // defaults to DefiLlama
+    priceSource?: PriceSourceKind;
+
+    // only used by the static price source
+    priceFileUrl?: string;
+
+    // only used by the self-hosted trace source
+    backendUrl?: string;
+
+    // overrides the rpc url for the chain, which is used for transaction metadata and by the rpc trace source
+    rpcUrl?: string;
+};
+
+export type SourceSettings = Record<string, ChainSourceSettings>;
+
+const prefSourcesKey = 'pref:sources';
+
+export const defaultChainSourceSettings = (chain: string): ChainSourceSettings => {
+    return {
+        // the hosted api doesn't know about custom chains, so the node is the only option
+        traceSource: isCustomChain(chain) ? 'rpc' : 'hosted',
+    };
+};
+
+export const loadSourceSettings = (): SourceSettings => {
+    if (typeof window === 'undefined') return {};
+
+    try {
+        return JSON.parse(window.localStorage.getItem(prefSourcesKey) || '{}');
+    } catch {
+        return {};
+    }
+};
+
+export const saveSourceSettings = (settings: SourceSettings) => {
+    window.localStorage.setItem(prefSourcesKey, JSON.stringify(settings));
+};
+
+export const getChainSourceSettings = (chain: string, settings = loadSourceSettings()): ChainSourceSettings => {
+    return settings[chain] || defaultChainSourceSettings(chain);
+};
+
+export const getRpcUrl = (chainConfig: ChainConfig, settings = getChainSourceSettings(chainConfig.id)): string => {
+    return settings.rpcUrl || chainConfig.rpcUrl;
+};
+
+export const createTraceSource = (
+    chainConfig: ChainConfig,
+    settings = getChainSourceSettings(chainConfig.id),
+): TraceSource => {
+    switch (settings.traceSource) {
+        case 'self-hosted':
+            if (!settings.backendUrl) {
+                return new UnavailableTraceSource(
+                    `the self-hosted trace source for ${chainConfig.displayName} doesn't have a backend url, set one in the settings`,
+                );
+            }
+            return new BackendTraceSource(settings.backendUrl);
+        case 'rpc':
+            return new RpcTraceSource(getRpcUrl(chainConfig, settings));
+        case 'local':
+            return new LocalTraceSource();
+    }
+
+    return new BackendTraceSource(apiEndpoint());
+};
+
+// the window which uniswap twaps are averaged over
+const UNISWAP_TWAP_SECONDS = 30 * 60;
+
+export const createPriceSource = (
+    provider: ethers.providers.Provider,
+    settings: ChainSourceSettings,
+): PriceSource | undefined => {
+    switch (settings.priceSource) {
+        case 'uniswap':
+            return new UniswapPriceSource(provider);
+        case 'uniswap-twap':
+            return new UniswapPriceSource(provider, { twapSeconds: UNISWAP_TWAP_SECONDS });
+        case 'static':
+            return settings.priceFileUrl ? StaticPriceSource.fromUrl(settings.priceFileUrl) : undefined;
+        case 'none':
+            return undefined;
+    }
+
+    return new DefiLlamaPriceSource();
+};
+
+export const TraceSourceContext = React.createContext<TraceSource>(new BackendTraceSource(apiEndpoint()));
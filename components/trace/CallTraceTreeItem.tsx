@@ -1,6 +1,6 @@
 import { StorageMetadata, TraceEntryCallable, TraceMetadata } from '../types';
 import * as React from 'react';
-import { defaultAbiCoder, ParamType, Result } from '@ethersproject/abi';
+import { defaultAbiCoder, ErrorFragment, FunctionFragment, ParamType, Result } from '@ethersproject/abi';
 import { precompiles } from '../precompiles';
 import { BigNumber, ethers } from 'ethers';
 import { ParamFlatView } from '../ParamFlatView';
@@ -10,7 +10,7 @@ import { Grid, Typography } from '@mui/material';
 import VisibilityIcon from '@mui/icons-material/Visibility';
 import VisibilityOffIcon from '@mui/icons-material/VisibilityOff';
 import { formatEther } from 'ethers/lib/utils';
-import { TraceTreeItem, TraceTreeNodeLabel } from './TraceTreeItem';
+import { TraceTreeItem, TraceTreeNodeLabel, useTraceTreeDialog } from './TraceTreeItem';
 import { TraceTreeDialog } from './TraceTreeDialog';
 import { BuiltinErrors, findAffectedContract } from '../helpers';
 import { LogTraceTreeItem } from './LogTraceTreeItem';
@@ -21,7 +21,7 @@ import { FragmentTextField } from '../FragmentTextField';
 import { getChain } from '../Chains';
 import { TraceEntryCall, TraceEntryLog, TraceEntrySload, TraceEntrySstore, TraceResponse } from '../api';
 
-const callColor = {
+export const callColor: Record<string, string> = {
     call: '#2c2421',
     staticcall: '#00ad9c',
     callcode: '#df5320',
@@ -42,53 +42,28 @@ type CallTraceTreeItemProps = {
     children?: JSX.Element[];
 };
 
-export const CallTraceTreeItem = (props: CallTraceTreeItemProps) => {
-    const { traceResult, traceMetadata, node, showStorageChanges, setShowStorageChanges, children } = props;
-
-    const [functionFragment, setFunctionFragment, parsedFunctionFragment] = useFunctionFragment(
-        (() => {
-            if (node.input.length > 2) {
-                try {
-                    return traceMetadata.abis[node.to][node.codehash].getFunction(
-                        node.input.substring(0, 10).toLowerCase(),
-                    );
-                } catch (e) {}
-            }
-
-            return null;
-        })(),
-        `function func_${node.input.substring(2, 10).padEnd(8, '0')}()`,
-    );
-
-    const [errorFragment, setErrorFragment, parsedErrorFragment] = useErrorFragment(
-        (() => {
-            if (node.status === 0 && node.output.length > 2) {
-                try {
-                    return traceMetadata.abis[node.to][node.codehash].getError(
-                        node.output.substring(0, 10).toLowerCase(),
-                    );
-                } catch (e) {}
-            }
+type DecodedCall = {
+    functionName: string;
+    fragmentInputs?: ParamType[];
+    fragmentOutputs?: ParamType[];
 
-            return null;
-        })(),
-        BuiltinErrors[node.output.substring(0, 10).toLowerCase()]
-            ? 'error ' + BuiltinErrors[node.output.substring(0, 10).toLowerCase()].signature
-            : `error Error()`,
-    );
+    // what to show for the input if it can't be decoded
+    rawInput: string;
 
-    const [nodeInput, setNodeInput] = React.useState(node.input);
-    const [nodeOutput, setNodeOutput] = React.useState(node.output);
-    const [open, setOpen] = React.useState(false);
-
-    let dialogTitle: JSX.Element | null;
-    let dialogContent: JSX.Element | null;
+    parsedInput: Result | null;
+    parsedOutput: Result | null;
+};
 
+// decoding is relatively slow, so it's only done for nodes which are actually on screen
+const decodeCall = (
+    node: TraceEntryCall,
+    parsedFunctionFragment: FunctionFragment | null,
+    parsedErrorFragment: ErrorFragment | null,
+): DecodedCall => {
     let functionName: string;
     let fragmentInputs: ParamType[] | undefined = undefined;
     let fragmentOutputs: ParamType[] | undefined = undefined;
-    let functionParams = <>{node.input}</>;
-    let functionReturns = <>{node.output}</>;
+    let rawInput = node.input;
     let parsedInput: Result | null = null;
     let parsedOutput: Result | null = null;
 
@@ -108,7 +83,7 @@ export const CallTraceTreeItem = (props: CallTraceTreeItemProps) => {
             functionName = parsedFunctionFragment.name;
 
             fragmentInputs = parsedFunctionFragment.inputs;
-            functionParams = <>0x{node.input.substring(10)}</>;
+            rawInput = '0x' + node.input.substring(10);
             try {
                 parsedInput = defaultAbiCoder.decode(fragmentInputs, ethers.utils.arrayify(node.input).slice(4));
                 parsedInput.forEach((v) => v.toString());
@@ -129,7 +104,7 @@ export const CallTraceTreeItem = (props: CallTraceTreeItemProps) => {
             }
         } else if (node.input.length == 2) {
             functionName = 'fallback';
-            functionParams = <></>;
+            rawInput = '';
         } else {
             functionName = `call`;
         }
@@ -168,6 +143,63 @@ export const CallTraceTreeItem = (props: CallTraceTreeItemProps) => {
         }
     }
 
+    return {
+        functionName: functionName,
+        fragmentInputs: fragmentInputs,
+        fragmentOutputs: fragmentOutputs,
+        rawInput: rawInput,
+        parsedInput: parsedInput,
+        parsedOutput: parsedOutput,
+    };
+};
+
+export const CallTraceTreeItem = (props: CallTraceTreeItemProps) => {
+    const { traceResult, traceMetadata, node, showStorageChanges, setShowStorageChanges, children } = props;
+
+    const [functionFragment, setFunctionFragment, parsedFunctionFragment] = useFunctionFragment(
+        (() => {
+            if (node.input.length > 2) {
+                try {
+                    return traceMetadata.abis[node.to][node.codehash].getFunction(
+                        node.input.substring(0, 10).toLowerCase(),
+                    );
+                } catch (e) {}
+            }
+
+            return null;
+        })(),
+        `function func_${node.input.substring(2, 10).padEnd(8, '0')}()`,
+    );
+
+    const [errorFragment, setErrorFragment, parsedErrorFragment] = useErrorFragment(
+        (() => {
+            if (node.status === 0 && node.output.length > 2) {
+                try {
+                    return traceMetadata.abis[node.to][node.codehash].getError(
+                        node.output.substring(0, 10).toLowerCase(),
+                    );
+                } catch (e) {}
+            }
+
+            return null;
+        })(),
+        BuiltinErrors[node.output.substring(0, 10).toLowerCase()]
+            ? 'error ' + BuiltinErrors[node.output.substring(0, 10).toLowerCase()].signature
+            : `error Error()`,
+    );
+
+    const [nodeInput, setNodeInput] = React.useState(node.input);
+    const [nodeOutput, setNodeOutput] = React.useState(node.output);
+    const [open, setOpen] = useTraceTreeDialog();
+
+    const { functionName, fragmentInputs, fragmentOutputs, rawInput, parsedInput, parsedOutput } = React.useMemo(
+        () => decodeCall(node, parsedFunctionFragment, parsedErrorFragment),
+        [node, parsedFunctionFragment, parsedErrorFragment],
+    );
+
+    let dialogTitle: JSX.Element | null;
+    let dialogContent: JSX.Element | null;
+
     let inputParamFlatView;
     let inputParamTreeView;
     let outputParamFlatView;
@@ -185,7 +217,7 @@ export const CallTraceTreeItem = (props: CallTraceTreeItemProps) => {
             />
         );
     } else {
-        inputParamFlatView = functionParams;
+        inputParamFlatView = <>{rawInput}</>;
     }
     if (fragmentOutputs && parsedOutput) {
         outputParamFlatView = (
@@ -200,7 +232,7 @@ export const CallTraceTreeItem = (props: CallTraceTreeItemProps) => {
             />
         );
     } else {
-        outputParamFlatView = functionReturns;
+        outputParamFlatView = <>{node.output}</>;
     }
 
     dialogTitle = (
@@ -257,24 +289,27 @@ export const CallTraceTreeItem = (props: CallTraceTreeItemProps) => {
                 </Grid>
                 <Grid item>Subcall Logs:</Grid>
                 <Grid item width={'100%'} overflow={'auto'} paddingBottom={'20px'}>
-                    {Object.values(traceMetadata.nodesByPath)
-                        .filter((v): v is TraceEntryLog => v.type === 'log')
-                        .filter((v) => v.path.startsWith(node.path + '.'))
-                        .sort((a, b) => a.path.localeCompare(b.path))
-                        .map((node) => {
-                            return (
-                                <LogTraceTreeItem
-                                    key={node.path}
-                                    onClick={() => {
-                                        props.expandTo(node.path);
-                                    }}
-                                    showAddress={true}
-                                    traceResult={traceResult}
-                                    traceMetadata={traceMetadata}
-                                    node={node}
-                                />
-                            );
-                        })}
+                    {/* finding the logs means walking the whole trace, so only do it once the dialog is open */}
+                    {open
+                        ? Object.values(traceMetadata.nodesByPath)
+                              .filter((v): v is TraceEntryLog => v.type === 'log')
+                              .filter((v) => v.path.startsWith(node.path + '.'))
+                              .sort((a, b) => a.path.localeCompare(b.path))
+                              .map((node) => {
+                                  return (
+                                      <LogTraceTreeItem
+                                          key={node.path}
+                                          onClick={() => {
+                                              props.expandTo(node.path);
+                                          }}
+                                          showAddress={true}
+                                          traceResult={traceResult}
+                                          traceMetadata={traceMetadata}
+                                          node={node}
+                                      />
+                                  );
+                              })
+                        : null}
                 </Grid>
             </Grid>
         </>
@@ -5,7 +5,7 @@ import { ParamFlatView } from '../ParamFlatView';
 import { DataRenderer } from '../DataRenderer';
 import { Grid, List, ListItem } from '@mui/material';
 import { ParamTreeView } from '../ParamTreeView';
-import { TraceTreeItem, TraceTreeNodeLabel } from './TraceTreeItem';
+import { TraceTreeItem, TraceTreeNodeLabel, useTraceTreeDialog } from './TraceTreeItem';
 import { TraceTreeDialog } from './TraceTreeDialog';
 import { EncodedABITextField } from '../EncodedABITextField';
 import { FragmentTextField } from '../FragmentTextField';
@@ -25,7 +25,7 @@ type LogTraceTreeItemProps = {
 export const LogTraceTreeItem = (props: LogTraceTreeItemProps) => {
     const { traceResult, traceMetadata, node, children } = props;
 
-    const [open, setOpen] = React.useState(false);
+    const [open, setOpen] = useTraceTreeDialog();
 
     let parentId = node.path.split('.');
     parentId.pop();
@@ -9,7 +9,7 @@ import TreeItem from '@mui/lab/TreeItem';
 import { findAffectedContract, TreeItemContentSpan } from '../helpers';
 import WithSeparator from 'react-with-separator';
 import { Grid } from '@mui/material';
-import { TraceTreeItem, TraceTreeNodeLabel } from './TraceTreeItem';
+import { TraceTreeItem, TraceTreeNodeLabel, useTraceTreeDialog } from './TraceTreeItem';
 import { TraceTreeDialog } from './TraceTreeDialog';
 import { TraceEntrySstore, TraceResponse } from '../api';
 
@@ -25,7 +25,7 @@ type SstoreTraceTreeItemProps = {
 export const SstoreTraceTreeItem = (props: SstoreTraceTreeItemProps) => {
     const { traceResult, traceMetadata, storageMetadata, node, children } = props;
 
-    const [open, setOpen] = React.useState(false);
+    const [open, setOpen] = useTraceTreeDialog();
 
     let [affectedCall] = findAffectedContract(traceMetadata, node);
 
@@ -0,0 +1,89 @@
+import * as React from 'react';
+import { useContext } from 'react';
+import { Autocomplete, Checkbox, FormControlLabel, TextField } from '@mui/material';
+import { TraceMetadata } from '../types';
+import { LabelMetadataContext } from '../metadata/labels';
+import { TraceFilters } from './flatten';
+
+type TraceFilterBarProps = {
+    traceMetadata: TraceMetadata;
+
+    filters: TraceFilters;
+    setFilters: (filters: TraceFilters) => void;
+};
+
+type FilterToggle = 'hideStaticcalls' | 'hidePrecompiles' | 'onlyReverted' | 'onlyValueMoving';
+
+const filterToggles: Array<[FilterToggle, string]> = [
+    ['hideStaticcalls', 'Hide staticcalls'],
+    ['hidePrecompiles', 'Hide precompiles'],
+    ['onlyReverted', 'Only reverted'],
+    ['onlyValueMoving', 'Only value transfers'],
+];
+
+export const TraceFilterBar = (props: TraceFilterBarProps) => {
+    const { traceMetadata, filters, setFilters } = props;
+
+    const labelMetadata = useContext(LabelMetadataContext);
+
+    // the addresses which were called, with the most called first since they're the most likely to be noise
+    const calledAddresses = React.useMemo(() => {
+        const callCounts: Record<string, number> = {};
+        Object.values(traceMetadata.nodesByPath).forEach((node) => {
+            if (node.type !== 'call') return;
+
+            const address = node.to.toLowerCase();
+            callCounts[address] = (callCounts[address] || 0) + 1;
+        });
+
+        return Object.entries(callCounts)
+            .sort((a, b) => b[1] - a[1])
+            .map(([address, count]) => ({ address, count }));
+    }, [traceMetadata]);
+    const callCounts = Object.fromEntries(calledAddresses.map(({ address, count }) => [address, count]));
+
+    const describeAddress = (address: string) => {
+        const label = labelMetadata.labels[address];
+        return label ? `${label} (${address})` : address;
+    };
+
+    return (
+        <div className="flex flex-row flex-wrap items-center">
+            {filterToggles.map(([key, name]) => (
+                <FormControlLabel
+                    key={key}
+                    control={
+                        <Checkbox
+                            size={'small'}
+                            checked={filters[key]}
+                            onChange={(event) => setFilters({ ...filters, [key]: event.target.checked })}
+                        />
+                    }
+                    label={name}
+                    componentsProps={{ typography: { variant: 'body2' } }}
+                />
+            ))}
+            <Autocomplete
+                multiple
+                size={'small'}
+                sx={{ minWidth: '360px', flexGrow: 1 }}
+                options={calledAddresses.map(({ address }) => address)}
+                value={filters.hiddenAddresses}
+                onChange={(event, value) => setFilters({ ...filters, hiddenAddresses: value })}
+                getOptionLabel={describeAddress}
+                renderOption={(props, address) => (
+                    <li {...props} key={address}>
+                        <span style={{ fontFamily: 'monospace' }}>{describeAddress(address)}</span>
+                        &nbsp;
+                        <span style={{ color: '#9c9491' }}>
+                            {callCounts[address]} {callCounts[address] === 1 ? 'call' : 'calls'}
+                        </span>
+                    </li>
+                )}
+                renderInput={(params) => (
+                    <TextField {...params} variant={'standard'} placeholder={'Hide calls to...'} />
+                )}
+            />
+        </div>
+    );
+};
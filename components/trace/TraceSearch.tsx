@@ -0,0 +1,97 @@
+import * as React from 'react';
+import { useContext } from 'react';
+import { IconButton, InputAdornment, TextField, Typography } from '@mui/material';
+import SearchIcon from '@mui/icons-material/Search';
+import KeyboardArrowUpIcon from '@mui/icons-material/KeyboardArrowUp';
+import KeyboardArrowDownIcon from '@mui/icons-material/KeyboardArrowDown';
+import { TraceResponse } from '../api';
+import { TraceMetadata } from '../types';
+import { LabelMetadataContext } from '../metadata/labels';
+import { buildTraceSearchIndex, searchTrace } from './search';
+
+type TraceSearchProps = {
+    traceResult: TraceResponse;
+    traceMetadata: TraceMetadata;
+
+    // called with every matching path whenever the results change
+    onMatchesChange: (paths: string[]) => void;
+
+    // called when the user moves to a match with enter or the arrows. typing only highlights the matches, so that the
+    // tree doesn't jump around and expand nodes on every keystroke
+    focusNode: (path: string) => void;
+};
+
+export const TraceSearch = (props: TraceSearchProps) => {
+    const { traceResult, traceMetadata, onMatchesChange, focusNode } = props;
+
+    const labelMetadata = useContext(LabelMetadataContext);
+
+    const [query, setQuery] = React.useState('');
+    // the match the user last moved to, or -1 if they haven't moved to one since the query changed
+    const [current, setCurrent] = React.useState(-1);
+
+    const searching = query.trim() !== '';
+    const index = React.useMemo(() => {
+        if (!searching) return undefined;
+
+        return buildTraceSearchIndex(traceResult.entrypoint, traceMetadata, labelMetadata.labels);
+    }, [searching, traceResult, traceMetadata, labelMetadata.labels]);
+
+    const matches = React.useMemo(() => (index ? searchTrace(index, query) : []), [index, query]);
+
+    React.useEffect(() => {
+        setCurrent(-1);
+        onMatchesChange(matches);
+    }, [matches, onMatchesChange]);
+
+    const move = (delta: number) => {
+        if (matches.length === 0) return;
+
+        const next =
+            current === -1 ? (delta > 0 ? 0 : matches.length - 1) : (current + delta + matches.length) % matches.length;
+        setCurrent(next);
+        focusNode(matches[next]);
+    };
+
+    return (
+        <div className="flex flex-row items-center my-1">
+            <TextField
+                size={'small'}
+                variant={'standard'}
+                sx={{ minWidth: '50%' }}
+                placeholder={'Search by address, label, function, selector, event, topic, slot or parameter'}
+                title={'Narrow a term to one field with a prefix like event:Transfer or slot:0x...'}
+                value={query}
+                onChange={(event) => setQuery(event.target.value)}
+                onKeyDown={(event) => {
+                    if (event.key === 'Enter') move(event.shiftKey ? -1 : 1);
+                    if (event.key === 'Escape') setQuery('');
+                }}
+                InputProps={{
+                    startAdornment: (
+                        <InputAdornment position="start">
+                            <SearchIcon fontSize={'small'} />
+                        </InputAdornment>
+                    ),
+                }}
+            />
+            {searching ? (
+                <>
+                    <Typography variant={'body2'} color={'#606161'} sx={{ marginLeft: '12px', whiteSpace: 'nowrap' }}>
+                        {matches.length === 0
+                            ? 'No matches'
+                            : current === -1
+                            ? `${matches.length} ${matches.length === 1 ? 'match' : 'matches'}`
+                            : `${current + 1} of ${matches.length}`}
+                    </Typography>
+                    <IconButton size={'small'} title={'Previous (Shift+Enter)'} onClick={() => move(-1)}>
+                        <KeyboardArrowUpIcon fontSize={'small'} />
+                    </IconButton>
+                    <IconButton size={'small'} title={'Next (Enter)'} onClick={() => move(1)}>
+                        <KeyboardArrowDownIcon fontSize={'small'} />
+                    </IconButton>
+                </>
+            ) : null}
+        </div>
+    );
+};
@@ -6,27 +6,42 @@ import { CallTraceTreeItem } from './CallTraceTreeItem';
 import { SloadTraceTreeItem } from './SloadTraceTreeItem';
 import { SstoreTraceTreeItem } from './SstoreTraceTreeItem';
 import { LogTraceTreeItem } from './LogTraceTreeItem';
-import TreeView from '@mui/lab/TreeView';
-import ExpandMoreIcon from '@mui/icons-material/ExpandMore';
-import ChevronRightIcon from '@mui/icons-material/ChevronRight';
 import * as React from 'react';
-import { knownSlots } from '../knownSlots';
-import BN from 'bn.js';
-import { ethers } from 'ethers';
+import { resolveStorageSlots } from './storage';
+import { TraceSourceContext } from '../sources';
+import { TraceEntry, TraceEntryCall, TraceEntrySload, TraceEntrySstore, TraceResponse } from '../api';
 import {
-    apiEndpoint,
-    doApiRequest,
-    StorageResponse,
-    TraceEntry,
-    TraceEntryCall,
-    TraceEntrySload,
-    TraceEntrySstore,
-    TraceResponse,
-} from '../api';
+    defaultTraceFilters,
+    flattenTraceTree,
+    getAncestorPaths,
+    getSubtreePaths,
+    TraceFilters,
+    TraceTreeRow,
+} from './flatten';
+import { TRACE_TREE_ROW_HEIGHT, TraceTreeItem, TraceTreeRowContext } from './TraceTreeItem';
+import { useWindowedList } from '../hooks/useWindowedList';
+import { TraceSearch } from './TraceSearch';
+import { TraceFilterBar } from './TraceFilterBar';
+import {
+    applyExpanded,
+    diffExpanded,
+    encodeTraceLink,
+    getLinkBaseExpanded,
+    parseTraceLink,
+    TraceLinkState,
+} from './link';
+
+// a new object should be passed for every request, so that focusing the same node twice works
+export type TraceFocusRequest = {
+    path: string;
+};
 
 type TraceTreeProps = {
     traceResult: TraceResponse;
     traceMetadata: TraceMetadata;
+
+    // optional: expand the tree to this node, then select and scroll to it
+    focusRequest?: TraceFocusRequest;
 };
 
 const defaultStorageMetadata = (): StorageMetadata => {
@@ -39,10 +54,22 @@ const defaultStorageMetadata = (): StorageMetadata => {
 export const TraceTree = (props: TraceTreeProps) => {
     console.time('render trace tree');
     const { traceResult, traceMetadata } = props;
+    const traceSource = React.useContext(TraceSourceContext);
 
     const [storageMetadata, setStorageMetadata] = React.useState<StorageMetadata>(defaultStorageMetadata());
     const [showStorageChanges, setShowStorageChanges] = React.useState<Set<string>>(new Set());
     const [expanded, setExpanded] = React.useState<string[]>([]);
+    const [selected, setSelected] = React.useState<string>('');
+    const [openDialogs, setOpenDialogs] = React.useState<Set<string>>(new Set());
+    const [scrollTarget, setScrollTarget] = React.useState<string>();
+    const [searchMatches, setSearchMatches] = React.useState<string[]>([]);
+    const [filters, setFilters] = React.useState<TraceFilters>(defaultTraceFilters());
+
+    // nodes which the user has asked to see even though the filters would hide them
+    const [revealed, setRevealed] = React.useState<Set<string>>(new Set());
+
+    // links only include the expanded nodes if they're different from the defaults
+    const defaultExpandedRef = React.useRef<string[]>([]);
 
     React.useMemo(() => {
         let defaultExpanded: string[] = [];
@@ -86,120 +113,50 @@ export const TraceTree = (props: TraceTreeProps) => {
             maxLength--;
         }
 
-        // first, augment our preimages by hashing each potential storage slot
-        // this is because solidity inlines the offset at which a dynamic array will be placed
-        // so we don't know what it is from the trace
-        allStorageOps.forEach((node) => {
-            traceResult.preimages[ethers.utils.keccak256(node.slot)] = node.slot;
-        });
-
-        let newStorageMetadata: StorageMetadata = {
-            fetched: {},
-            slots: {},
-        };
-
-        let updateSlotInfo = (address: string, codehash: string, slot: string, info: SlotInfo) => {
-            if (!(address in newStorageMetadata.slots)) newStorageMetadata.slots[address] = {};
-            if (!(codehash in newStorageMetadata.slots[address])) newStorageMetadata.slots[address][codehash] = {};
-
-            let knownSlot = knownSlots[slot];
-            if (knownSlot) {
-                info.resolved = true;
-                info.variables[0] = {
-                    name: knownSlot.name,
-                    fullName: knownSlot.name,
-                    typeName: {
-                        typeDescriptions: {
-                            typeString: knownSlot.type,
-                            typeIdentifier: knownSlot.type,
-                        },
-                    },
-                    bits: knownSlot.bits,
-                };
-            }
-
-            newStorageMetadata.slots[address][codehash][slot] = info;
-        };
-
-        let zero = new BN(0);
-        let max = new BN(2 ** 32);
+        let newStorageMetadata = resolveStorageSlots(traceResult, traceMetadata, allStorageOps);
 
-        let preimageSlotCache = {} as Record<string, BN>;
-        Object.keys(traceResult.preimages).forEach((hash) => {
-            preimageSlotCache[hash] = new BN(hash.substring(2), 16);
-        });
-        console.log('warmed cache');
-
-        allStorageOps.forEach((node) => {
-            let slot = node.slot;
-            let [parentNode] = findAffectedContract(traceMetadata, node);
-
-            while (true) {
-                let preimage = traceResult.preimages[slot];
-                let preimageOffset = 0;
-                if (!preimage) {
-                    let potentialPreimages = Object.keys(traceResult.preimages)
-                        .filter((hash) => {
-                            if (!preimageSlotCache.hasOwnProperty(slot)) {
-                                preimageSlotCache[slot] = new BN(slot.substring(2), 16);
-                            }
-                            let offset = preimageSlotCache[slot].sub(preimageSlotCache[hash]);
-                            return offset.gt(zero) && offset.lt(max);
-                        })
-                        .map((hash) => {
-                            return {
-                                hash: hash,
-                                preimage: traceResult.preimages[hash],
-                                offset: preimageSlotCache[slot].sub(preimageSlotCache[hash]).toNumber(),
-                            };
-                        });
-                    if (potentialPreimages.length !== 1) {
-                        if (potentialPreimages.length > 1) {
-                            console.warn('found more than one potential preimage match', potentialPreimages);
-                        }
-                        updateSlotInfo(parentNode.to, parentNode.codehash, slot, {
-                            type: 'raw',
-                            resolved: false,
-                            variables: {},
-                        });
-                        break;
-                    }
-
-                    preimage = potentialPreimages[0].preimage;
-                    preimageOffset = potentialPreimages[0].offset;
-                }
+        defaultExpandedRef.current = defaultExpanded;
+        setExpanded(defaultExpanded);
+        setStorageMetadata(newStorageMetadata);
+    }, [traceResult, traceMetadata]);
 
-                if (preimage.startsWith('0x')) {
-                    preimage = preimage.substring(2);
-                }
-                let baseSlot = '0x' + preimage.substring(preimage.length - 64).padStart(64, '0');
-                updateSlotInfo(parentNode.to, parentNode.codehash, slot, {
-                    type: 'dynamic',
-                    resolved: false,
-                    variables: {},
-
-                    offset: preimageOffset,
-                    baseSlot: baseSlot,
-                    key: '0x' + preimage.substring(2, preimage.length - 64),
-                });
+    const expandToNode = React.useCallback(
+        (nodeId: string) => {
+            setExpanded((prevExpanded) => {
+                const newExpanded = new Set(prevExpanded);
+                Object.keys(traceMetadata.nodesByPath)
+                    .filter((x) => nodeId === x || nodeId.startsWith(x + '.'))
+                    .forEach((x) => newExpanded.add(x));
+                return Array.from(newExpanded);
+            });
+        },
+        [traceMetadata],
+    );
 
-                slot = baseSlot;
+    const focusNode = React.useCallback(
+        (path: string) => {
+            // storage operations are hidden unless the user asked to see them for the call which made them
+            const node = traceMetadata.nodesByPath[path];
+            if (node && (node.type === 'sload' || node.type === 'sstore')) {
+                const parentPath = path.substring(0, path.lastIndexOf('.'));
+                setShowStorageChanges((prevShowStorageChanges) => new Set(prevShowStorageChanges).add(parentPath));
             }
-        });
 
-        setExpanded(defaultExpanded);
-        setStorageMetadata(newStorageMetadata);
-    }, [traceResult, traceMetadata]);
+            // and so is anything the filters hide
+            setRevealed((prevRevealed) => new Set([...Array.from(prevRevealed), ...getAncestorPaths(path)]));
 
-    let expandToNode = (nodeId: string) => {
-        let newExpanded = expanded.slice(0);
+            expandToNode(path.substring(0, path.lastIndexOf('.')));
+            setSelected(path);
+            setScrollTarget(path);
+        },
+        [traceMetadata, expandToNode],
+    );
 
-        Object.keys(traceMetadata.nodesByPath)
-            .filter((x) => nodeId.startsWith(x))
-            .forEach((x) => newExpanded.push(x));
+    React.useEffect(() => {
+        if (!props.focusRequest) return;
 
-        setExpanded(newExpanded);
-    };
+        focusNode(props.focusRequest.path);
+    }, [props.focusRequest, focusNode]);
 
     let setShowStorageChangesForNode = (nodeId: string, show: boolean) => {
         const newShowStorageChanges = new Set(showStorageChanges);
@@ -214,9 +171,11 @@ export const TraceTree = (props: TraceTreeProps) => {
         setShowStorageChanges(newShowStorageChanges);
     };
 
-    let requestStorageMetadata = (chain: string, affectedNode: TraceEntryCall, actualNode: TraceEntryCall) => {
-        doApiRequest<StorageResponse>(`/api/v1/storage/${chain}/${actualNode.to}/${actualNode.codehash}`).then(
-            (res) => {
+    const requestStorageMetadata = React.useCallback(
+        (chain: string, affectedNode: TraceEntryCall, actualNode: TraceEntryCall) => {
+            if (!traceSource.getStorageLayout) return;
+
+            traceSource.getStorageLayout(chain, actualNode.to, actualNode.codehash).then((res) => {
                 setStorageMetadata((prevMetadata: StorageMetadata) => {
                     let newMetadata = { ...prevMetadata };
 
@@ -407,26 +366,76 @@ export const TraceTree = (props: TraceTreeProps) => {
 
                     return newMetadata;
                 });
-            },
-        );
-    };
+            });
+        },
+        [traceSource],
+    );
 
-    let recursivelyGenerateTree = (node: TraceEntry): JSX.Element => {
-        let children: JSX.Element[] = [];
+    const restoreLink = React.useCallback(
+        (state: TraceLinkState) => {
+            // the link might not match this trace, so skip any nodes which don't exist
+            const exists = (path: string) => path in traceMetadata.nodesByPath;
 
-        if (node.type === 'call') {
-            children = node.children
-                .filter((v) => showStorageChanges.has(node.path) || (v.type !== 'sload' && v.type !== 'sstore'))
-                .map(recursivelyGenerateTree);
+            const focus = state.focus && exists(state.focus) ? state.focus : undefined;
+            setExpanded(applyExpanded(getLinkBaseExpanded(defaultExpandedRef.current, focus), state).filter(exists));
+
+            const storage = state.storage.filter(exists);
+            storage.forEach((path) => {
+                const node = traceMetadata.nodesByPath[path];
+                if (node.type !== 'call') return;
+
+                const storageNode = node.children.find((v) => v.type === 'sload' || v.type === 'sstore');
+                if (!storageNode) return;
+
+                let [storageParent, callPath] = findAffectedContract(traceMetadata, storageNode);
+                callPath.forEach((actualNode) => {
+                    requestStorageMetadata(traceResult.chain, storageParent, actualNode);
+                });
+            });
+            setShowStorageChanges(new Set(storage));
+            setOpenDialogs(new Set(state.dialogs.filter(exists)));
+
+            if (focus) {
+                focusNode(focus);
+            }
+        },
+        [traceResult, traceMetadata, requestStorageMetadata, focusNode],
+    );
+
+    React.useEffect(() => {
+        const restore = () => {
+            const state = parseTraceLink(window.location.hash);
+            if (state) restoreLink(state);
+        };
+
+        restore();
+        window.addEventListener('hashchange', restore);
+        return () => window.removeEventListener('hashchange', restore);
+    }, [restoreLink]);
+
+    // keep the url up to date so it can be shared at any time. this has to come after the link is restored, or the
+    // link would be overwritten before it's read
+    React.useEffect(() => {
+        const focus = selected || undefined;
+
+        const link = encodeTraceLink({
+            focus: focus,
+            ...diffExpanded(getLinkBaseExpanded(defaultExpandedRef.current, focus), expanded),
+            dialogs: Array.from(openDialogs),
+            storage: Array.from(showStorageChanges),
+        });
+
+        const url = window.location.pathname + window.location.search + (link ? '#' + link : '');
+        if (url !== window.location.pathname + window.location.search + window.location.hash) {
+            window.history.replaceState(window.history.state, '', url);
         }
+    }, [selected, expanded, openDialogs, showStorageChanges]);
 
+    let renderNode = (node: TraceEntry): JSX.Element => {
         let commonProps = {
-            key: traceResult.txhash + '.' + node.path,
             traceResult: traceResult,
             traceMetadata: traceMetadata,
             storageMetadata: storageMetadata,
-            showStorageChanges: showStorageChanges,
-            children: children,
         };
 
         if (node.type === 'call') {
@@ -451,42 +460,160 @@ export const TraceTree = (props: TraceTreeProps) => {
         }
     };
 
-    const treeItems = React.useMemo(() => {
-        return recursivelyGenerateTree(traceResult.entrypoint);
-    }, [showStorageChanges, traceResult, storageMetadata]);
+    const expandedSet = React.useMemo(() => new Set(expanded), [expanded]);
+    const rows = React.useMemo(() => {
+        return flattenTraceTree(traceResult.entrypoint, expandedSet, showStorageChanges, filters, revealed);
+    }, [traceResult, expandedSet, showStorageChanges, filters, revealed]);
+
+    const matchedPaths = React.useMemo(() => new Set(searchMatches), [searchMatches]);
+
+    const { containerRef, start, end, scrollToRow } = useWindowedList(rows.length, TRACE_TREE_ROW_HEIGHT);
+
+    // the focused node might not have been visible until now, so wait for the rows to update before scrolling to it
+    React.useEffect(() => {
+        if (scrollTarget === undefined) return;
+
+        const index = rows.findIndex((row) => row.node.path === scrollTarget);
+        if (index !== -1) {
+            scrollToRow(index);
+        }
+        setScrollTarget(undefined);
+    }, [rows, scrollTarget, scrollToRow]);
+
+    let toggleNode = (path: string, recursive: boolean) => {
+        setExpanded((prevExpanded) => {
+            // shift clicking a node expands or collapses everything underneath it too
+            const affected = recursive ? getSubtreePaths(Object.keys(traceMetadata.nodesByPath), path) : [path];
+
+            if (prevExpanded.includes(path)) {
+                const collapsed = new Set(affected);
+                return prevExpanded.filter((v) => !collapsed.has(v));
+            }
+            return Array.from(new Set([...prevExpanded, ...affected]));
+        });
+    };
+
+    let setDialogOpen = (path: string, open: boolean) => {
+        setOpenDialogs((prevOpenDialogs) => {
+            const newOpenDialogs = new Set(prevOpenDialogs);
+            if (open) {
+                newOpenDialogs.add(path);
+            } else {
+                newOpenDialogs.delete(path);
+            }
+            return newOpenDialogs;
+        });
+    };
+
+    let renderPlaceholder = (row: TraceTreeRow, placeholder: NonNullable<TraceTreeRow['placeholder']>) => {
+        const path = row.node.path;
+        const reveal = () => {
+            setRevealed((prevRevealed) => new Set([...Array.from(prevRevealed), ...placeholder.paths]));
+        };
+
+        const description = [
+            placeholder.calls > 0 ? `${placeholder.calls} ${placeholder.calls === 1 ? 'call' : 'calls'}` : null,
+            placeholder.logs > 0 ? `${placeholder.logs} ${placeholder.logs === 1 ? 'log' : 'logs'}` : null,
+        ]
+            .filter((v) => v)
+            .join(', ');
+
+        return (
+            <TraceTreeRowContext.Provider
+                key={traceResult.txhash + '.' + path + '.hidden'}
+                value={{
+                    depth: row.depth,
+                    expandable: true,
+                    expanded: false,
+                    selected: false,
+                    matched: false,
+                    hidden: false,
+                    dialogOpen: false,
+                    setDialogOpen: () => {},
+                    onToggle: reveal,
+                    onSelect: () => {},
+                }}
+            >
+                <TraceTreeItem
+                    nodeId={path + '.hidden'}
+                    treeContent={
+                        <span style={{ color: '#9c9491', cursor: 'pointer' }} onClick={reveal}>
+                            [{description ? `${description} hidden` : 'hidden'}]
+                        </span>
+                    }
+                />
+            </TraceTreeRowContext.Provider>
+        );
+    };
+
+    let renderRow = (row: TraceTreeRow, hidden: boolean) => {
+        const path = row.node.path;
+
+        if (row.placeholder) {
+            return renderPlaceholder(row, row.placeholder);
+        }
+
+        return (
+            <TraceTreeRowContext.Provider
+                key={traceResult.txhash + '.' + path}
+                value={{
+                    depth: row.depth,
+                    expandable: row.expandable,
+                    expanded: expandedSet.has(path),
+                    selected: selected === path,
+                    matched: matchedPaths.has(path),
+                    hidden: hidden,
+                    dialogOpen: openDialogs.has(path),
+                    setDialogOpen: (open) => setDialogOpen(path, open),
+                    onToggle: (event) => toggleNode(path, event.shiftKey),
+                    onSelect: () => setSelected(path),
+                }}
+            >
+                {renderNode(row.node)}
+            </TraceTreeRowContext.Provider>
+        );
+    };
+
+    // only the rows on screen are rendered, along with any rows whose dialogs are still open. they're all rendered
+    // in the same list so that a row keeps its state when it scrolls in or out of view
+    const visibleRows = rows.slice(start, end);
+    const visiblePaths = new Set(visibleRows.filter((row) => !row.placeholder).map((row) => row.node.path));
+    const offscreenRows = Array.from(openDialogs)
+        .filter((path) => !visiblePaths.has(path) && path in traceMetadata.nodesByPath)
+        .map((path) => ({ node: traceMetadata.nodesByPath[path], depth: 0, expandable: false }));
+
     const l = (
         <>
-            <TreeView
+            <TraceSearch
+                traceResult={traceResult}
+                traceMetadata={traceMetadata}
+                onMatchesChange={setSearchMatches}
+                focusNode={focusNode}
+            />
+            <TraceFilterBar
+                traceMetadata={traceMetadata}
+                filters={filters}
+                setFilters={(newFilters) => {
+                    setFilters(newFilters);
+                    setRevealed(new Set());
+                }}
+            />
+            <div
+                id={'trace-tree'}
+                role={'tree'}
                 aria-label="rich object"
-                defaultCollapseIcon={<ExpandMoreIcon />}
-                defaultExpandIcon={<ChevronRightIcon />}
-                sx={{
+                ref={containerRef}
+                style={{
                     paddingBottom: '30vh',
                 }}
-                expanded={expanded}
-                onNodeToggle={(event: React.SyntheticEvent, nodeIds: string[]) => {
-                    if (event.type === 'click') {
-                        let newExpanded = nodeIds.filter((v) => !expanded.includes(v));
-                        let newCollapsed = expanded.filter((v) => !nodeIds.includes(v));
-                        // how do i get typescript to give me access to this lol
-                        if (event.shiftKey) {
-                            newExpanded.forEach((v) => {
-                                Object.keys(traceMetadata.nodesByPath)
-                                    .filter((x) => x.startsWith(v))
-                                    .forEach((x) => {
-                                        nodeIds.push(x);
-                                    });
-                            });
-                            newCollapsed.forEach((v) => {
-                                nodeIds = nodeIds.filter((x) => !x.startsWith(v));
-                            });
-                        }
-                    }
-                    setExpanded(nodeIds);
-                }}
             >
-                {treeItems}
-            </TreeView>
+                <div style={{ height: start * TRACE_TREE_ROW_HEIGHT }} />
+                {[
+                    ...visibleRows.map((row) => renderRow(row, false)),
+                    ...offscreenRows.map((row) => renderRow(row, true)),
+                ]}
+                <div style={{ height: (rows.length - end) * TRACE_TREE_ROW_HEIGHT }} />
+            </div>
         </>
     );
     console.timeEnd('render trace tree');
@@ -1,6 +1,7 @@
 import * as React from 'react';
 import { Dialog, DialogContent, DialogTitle, Grid, Paper, PaperProps, Typography } from '@mui/material';
 import Draggable, { DraggableData, DraggableEvent, DraggableEventHandler } from 'react-draggable';
+import { TraceTreeRowContext } from './TraceTreeItem';
 
 const DraggablePaperContext = React.createContext({
     position: { x: 0, y: 0 },
@@ -30,7 +31,7 @@ type TraceTreeDialogProps = {
     content: JSX.Element;
 
     open: boolean;
-    setOpen: React.Dispatch<React.SetStateAction<boolean>>;
+    setOpen: (open: boolean) => void;
 };
 
 export const TraceTreeDialog = (props: TraceTreeDialogProps) => {
@@ -80,7 +81,8 @@ export const TraceTreeDialog = (props: TraceTreeDialogProps) => {
                 </DialogTitle>
                 <DialogContent>
                     <Typography variant={'body2'} component={'div'}>
-                        {content}
+                        {/* anything in the dialog belongs to the dialog, not to the row which opened it */}
+                        <TraceTreeRowContext.Provider value={null}>{content}</TraceTreeRowContext.Provider>
                     </Typography>
                 </DialogContent>
             </Dialog>
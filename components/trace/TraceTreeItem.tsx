@@ -1,9 +1,44 @@
 import * as React from 'react';
 import TreeItem from '@mui/lab/TreeItem';
+import ExpandMoreIcon from '@mui/icons-material/ExpandMore';
+import ChevronRightIcon from '@mui/icons-material/ChevronRight';
 import { TreeItemContentSpan } from '../helpers';
 import { Property } from 'csstype';
 import Color = Property.Color;
 
+export const TRACE_TREE_ROW_HEIGHT = 24;
+
+// the call trace renders its nodes as a flat list of rows, so each item is told where it sits in the tree instead of
+// being nested inside its parent. items rendered anywhere else, like in the decoded actions, fall back to a TreeItem
+export type TraceTreeRowState = {
+    depth: number;
+    expandable: boolean;
+    expanded: boolean;
+    selected: boolean;
+
+    // whether the node matches what the user searched for
+    matched: boolean;
+
+    // rows which have scrolled off screen stay mounted while their dialog is open, but don't render anything
+    hidden: boolean;
+
+    dialogOpen: boolean;
+    setDialogOpen: (open: boolean) => void;
+
+    onToggle: (event: React.MouseEvent) => void;
+    onSelect: () => void;
+};
+
+export const TraceTreeRowContext = React.createContext<TraceTreeRowState | null>(null);
+
+// the call trace keeps track of which dialogs are open, so that they survive their row being scrolled off screen
+export const useTraceTreeDialog = (): [boolean, (open: boolean) => void] => {
+    const row = React.useContext(TraceTreeRowContext);
+    const [open, setOpen] = React.useState(false);
+
+    return row ? [row.dialogOpen, row.setDialogOpen] : [open, setOpen];
+};
+
 type TraceTreeItemProps = {
     nodeId: string;
 
@@ -34,9 +69,54 @@ export const TraceTreeNodeLabel = (props: TraceTreeNodeLabelProps) => {
     );
 };
 
+const TraceTreeRow = (props: { nodeId: string; row: TraceTreeRowState; treeContent: JSX.Element | JSX.Element[] }) => {
+    const { nodeId, row, treeContent } = props;
+
+    if (row.hidden) return null;
+
+    const Icon = row.expanded ? ExpandMoreIcon : ChevronRightIcon;
+
+    return (
+        <div
+            id={'trace-tree-' + nodeId}
+            role={'treeitem'}
+            aria-expanded={row.expandable ? row.expanded : undefined}
+            aria-selected={row.selected}
+            className={row.selected ? undefined : 'hover:bg-black/5'}
+            style={{
+                display: 'flex',
+                alignItems: 'center',
+                height: TRACE_TREE_ROW_HEIGHT,
+                paddingLeft: row.depth * 17 + 8,
+                paddingRight: 8,
+                cursor: 'pointer',
+                backgroundColor: row.selected
+                    ? 'rgba(25, 118, 210, 0.08)'
+                    : row.matched
+                    ? 'rgba(255, 245, 157, 0.6)'
+                    : undefined,
+            }}
+            onClick={(event) => {
+                row.onSelect();
+                if (row.expandable) row.onToggle(event);
+            }}
+        >
+            <span style={{ display: 'flex', width: 15, marginRight: 4, flexShrink: 0 }}>
+                {row.expandable ? <Icon sx={{ fontSize: 18 }} /> : null}
+            </span>
+            <TreeItemContentSpan>{treeContent}</TreeItemContentSpan>
+        </div>
+    );
+};
+
 export const TraceTreeItem = (props: TraceTreeItemProps) => {
     const { nodeId, treeContent, children } = props;
 
+    const row = React.useContext(TraceTreeRowContext);
+    if (row) {
+        return <TraceTreeRow nodeId={nodeId} row={row} treeContent={treeContent} />;
+    }
+
     return (
         <TreeItem
             nodeId={nodeId}
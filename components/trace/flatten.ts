@@ -0,0 +1,176 @@
+import { BigNumber } from 'ethers';
+import { TraceEntry, TraceEntryCall } from '../api';
+
+export type TraceFilters = {
+    hideStaticcalls: boolean;
+    hidePrecompiles: boolean;
+
+    // lowercase addresses whose calls should be hidden, along with everything they did
+    hiddenAddresses: string[];
+
+    // these hide everything except the matching nodes and their parents
+    onlyReverted: boolean;
+    onlyValueMoving: boolean;
+};
+
+export const defaultTraceFilters = (): TraceFilters => {
+    return {
+        hideStaticcalls: false,
+        hidePrecompiles: false,
+        hiddenAddresses: [],
+        onlyReverted: false,
+        onlyValueMoving: false,
+    };
+};
+
+export type TraceTreeRow = {
+    node: TraceEntry;
+    depth: number;
+
+    // whether the node has any children which would be shown if it was expanded
+    expandable: boolean;
+
+    // set if the row stands in for a run of sibling nodes which were hidden by the filters, in which case the node is
+    // the first of them
+    placeholder?: {
+        paths: string[];
+
+        // the number of calls and logs hidden, including the ones inside hidden calls
+        calls: number;
+        logs: number;
+    };
+};
+
+// storage operations are only shown for calls which the user has asked to see them for
+const getVisibleChildren = (node: TraceEntry, showStorageChanges: Set<string>): TraceEntry[] => {
+    if (node.type !== 'call') return [];
+
+    return node.children.filter(
+        (child) => showStorageChanges.has(node.path) || (child.type !== 'sload' && child.type !== 'sstore'),
+    );
+};
+
+const isHiddenCall = (node: TraceEntryCall, filters: TraceFilters): boolean => {
+    return (
+        (filters.hideStaticcalls && node.variant === 'staticcall') ||
+        (filters.hidePrecompiles && node.isPrecompile) ||
+        filters.hiddenAddresses.includes(node.to.toLowerCase())
+    );
+};
+
+// returns the paths of every node which passes the filters. nodes the user has revealed are always shown, but their
+// children are still filtered
+const getShownPaths = (entrypoint: TraceEntry, filters: TraceFilters, revealed: Set<string>): Set<string> => {
+    const shown = new Set<string>();
+
+    const visit = (node: TraceEntry, withinReverted: boolean): boolean => {
+        const isRevealed = revealed.has(node.path);
+        if (!isRevealed && node.type === 'call' && isHiddenCall(node, filters)) return false;
+
+        // everything a reverted call did was reverted too
+        const reverted = withinReverted || (node.type === 'call' && node.status === 0);
+        const matches =
+            (!filters.onlyReverted || reverted) &&
+            (!filters.onlyValueMoving || (node.type === 'call' && !BigNumber.from(node.value).isZero()));
+
+        let childShown = false;
+        if (node.type === 'call') {
+            node.children.forEach((child) => {
+                if (visit(child, reverted)) childShown = true;
+            });
+        }
+
+        if (isRevealed || matches || childShown) {
+            shown.add(node.path);
+            return true;
+        }
+        return false;
+    };
+    visit(entrypoint, false);
+
+    return shown;
+};
+
+const countHidden = (nodes: TraceEntry[]): { calls: number; logs: number } => {
+    const count = { calls: 0, logs: 0 };
+
+    const visit = (node: TraceEntry) => {
+        if (node.type === 'call') {
+            count.calls++;
+            node.children.forEach(visit);
+        } else if (node.type === 'log') {
+            count.logs++;
+        }
+    };
+    nodes.forEach(visit);
+
+    return count;
+};
+
+// returns the nodes which are currently visible in the call trace, in the order they're displayed
+export const flattenTraceTree = (
+    entrypoint: TraceEntry,
+    expanded: Set<string>,
+    showStorageChanges: Set<string>,
+    filters: TraceFilters = defaultTraceFilters(),
+    revealed: Set<string> = new Set(),
+): TraceTreeRow[] => {
+    const rows: TraceTreeRow[] = [];
+    const shown = getShownPaths(entrypoint, filters, revealed);
+
+    // consecutive hidden siblings are collapsed into a single placeholder row
+    const pushHidden = (hidden: TraceEntry[], depth: number) => {
+        if (hidden.length === 0) return;
+
+        rows.push({
+            node: hidden[0],
+            depth: depth,
+            expandable: true,
+            placeholder: { paths: hidden.map((node) => node.path), ...countHidden(hidden) },
+        });
+    };
+
+    const visit = (node: TraceEntry, depth: number) => {
+        const children = getVisibleChildren(node, showStorageChanges);
+
+        rows.push({ node: node, depth: depth, expandable: children.length > 0 });
+
+        if (expanded.has(node.path)) {
+            let hidden: TraceEntry[] = [];
+            children.forEach((child) => {
+                if (shown.has(child.path)) {
+                    pushHidden(hidden, depth + 1);
+                    hidden = [];
+                    visit(child, depth + 1);
+                } else {
+                    hidden.push(child);
+                }
+            });
+            pushHidden(hidden, depth + 1);
+        }
+    };
+    visit(entrypoint, 0);
+
+    return rows;
+};
+
+// returns the path itself along with the paths of all of its descendants
+export const getSubtreePaths = (paths: string[], path: string): string[] => {
+    return paths.filter((v) => v === path || v.startsWith(path + '.'));
+};
+
+// returns the paths of every ancestor of the node, starting from the entrypoint and including the node itself
+export const getAncestorPaths = (path: string): string[] => {
+    const parts = path.split('.');
+    return parts.map((_, idx) => parts.slice(0, idx + 1).join('.'));
+};
+
+export const isTraceFiltered = (filters: TraceFilters): boolean => {
+    return (
+        filters.hideStaticcalls ||
+        filters.hidePrecompiles ||
+        filters.hiddenAddresses.length > 0 ||
+        filters.onlyReverted ||
+        filters.onlyValueMoving
+    );
+};
@@ -0,0 +1,85 @@
+import { getAncestorPaths } from './flatten';
+
+// the state of the call trace which is kept in the url hash, so that a link brings the reader straight to a node
+export type TraceLinkState = {
+    // the node to scroll to and highlight
+    focus?: string;
+
+    // nodes which were expanded or collapsed relative to getLinkBaseExpanded, which keeps links short for huge traces
+    expand: string[];
+    collapse: string[];
+
+    // nodes whose dialogs are open
+    dialogs: string[];
+
+    // calls whose storage operations are shown
+    storage: string[];
+};
+
+const isPath = (value: string): boolean => {
+    return /^\d+(\.\d+)*$/.test(value);
+};
+
+const parsePaths = (value: string | null): string[] => {
+    if (!value) return [];
+
+    return value.split(',').filter(isPath);
+};
+
+// the nodes which are expanded without the link saying so: the default ones, and everything leading to the focused node
+export const getLinkBaseExpanded = (defaultExpanded: string[], focus?: string): string[] => {
+    const ancestors = focus ? getAncestorPaths(focus).slice(0, -1) : [];
+    return Array.from(new Set([...defaultExpanded, ...ancestors]));
+};
+
+export const diffExpanded = (base: string[], expanded: string[]): Pick<TraceLinkState, 'expand' | 'collapse'> => {
+    const baseSet = new Set(base);
+    const expandedSet = new Set(expanded);
+
+    return {
+        expand: expanded.filter((path) => !baseSet.has(path)),
+        collapse: base.filter((path) => !expandedSet.has(path)),
+    };
+};
+
+export const applyExpanded = (base: string[], state: Pick<TraceLinkState, 'expand' | 'collapse'>): string[] => {
+    const collapse = new Set(state.collapse);
+    return Array.from(new Set([...base, ...state.expand])).filter((path) => !collapse.has(path));
+};
+
+// the hash looks like #node=0.1.2&expand=0.1.3&collapse=0.2&dialogs=0.1.2&storage=0.1
+export const encodeTraceLink = (state: TraceLinkState): string => {
+    const parts: string[] = [];
+    if (state.focus) parts.push(`node=${state.focus}`);
+    if (state.expand.length > 0) parts.push(`expand=${state.expand.join(',')}`);
+    if (state.collapse.length > 0) parts.push(`collapse=${state.collapse.join(',')}`);
+    if (state.dialogs.length > 0) parts.push(`dialogs=${state.dialogs.join(',')}`);
+    if (state.storage.length > 0) parts.push(`storage=${state.storage.join(',')}`);
+
+    return parts.join('&');
+};
+
+// returns undefined if the hash doesn't link to anything in the trace
+export const parseTraceLink = (hash: string): TraceLinkState | undefined => {
+    const params = new URLSearchParams(hash.replace(/^#/, ''));
+
+    const focus = params.get('node');
+    const state: TraceLinkState = {
+        focus: focus && isPath(focus) ? focus : undefined,
+        expand: parsePaths(params.get('expand')),
+        collapse: parsePaths(params.get('collapse')),
+        dialogs: parsePaths(params.get('dialogs')),
+        storage: parsePaths(params.get('storage')),
+    };
+
+    if (
+        !state.focus &&
+        state.expand.length === 0 &&
+        state.collapse.length === 0 &&
+        state.dialogs.length === 0 &&
+        state.storage.length === 0
+    ) {
+        return undefined;
+    }
+    return state;
+};
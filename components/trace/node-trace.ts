@@ -0,0 +1,415 @@
+import { ethers } from 'ethers';
+import { AddressInfo, TraceEntry, TraceEntryCall, TraceEntryLog, TraceResponse } from '../api';
+import { precompiles } from '../precompiles';
+
+// the output of debug_traceTransaction with {"tracer": "callTracer", "tracerConfig": {"withLog": true}}
+export type CallTracerLog = {
+    address: string;
+    topics: string[];
+    data: string;
+
+    // the number of calls the frame had made when the log was emitted, only returned by newer nodes
+    position?: string | number;
+};
+export type CallTracerFrame = {
+    type: string;
+    from: string;
+    to?: string;
+    value?: string;
+    gas: string;
+    gasUsed: string;
+    input: string;
+    output?: string;
+    error?: string;
+    calls?: CallTracerFrame[];
+    logs?: CallTracerLog[];
+};
+
+// the output of debug_traceTransaction with {"tracer": "prestateTracer"}
+export type PrestateAccount = {
+    balance?: string;
+    nonce?: number;
+    code?: string;
+    storage?: Record<string, string>;
+};
+export type PrestateTracerResult = Record<string, PrestateAccount>;
+
+// the output of debug_traceTransaction with the default struct logger, or with STRUCT_LOG_TRACER. memory is only needed
+// for preimages and the logs of reverted frames
+export type StructLog = {
+    pc: number;
+    op: string;
+    gas: number;
+    gasCost: number;
+    depth: number;
+    stack?: string[];
+    memory?: string[];
+
+    // STRUCT_LOG_TRACER only returns the memory which the opcode reads, which starts at this offset
+    memoryOffset?: number;
+};
+const CALL_OPS = ['CALL', 'CALLCODE', 'DELEGATECALL', 'STATICCALL', 'CREATE', 'CREATE2', 'SELFDESTRUCT'];
+
+export type StructLoggerResult = {
+    structLogs: StructLog[];
+};
+
+// a js tracer which returns the same shape as the struct logger, but only the steps which buildFromStructLogs looks at,
+// with just the stack items and memory which they read. the struct logger can only return all of memory or none of it,
+// which makes the response enormous for big transactions
+export const STRUCT_LOG_TRACER = `{
+    structLogs: [],
+    keepNext: false,
+    stackItems: function(log, count) {
+        var items = [];
+        for (var i = Math.min(count, log.stack.length()) - 1; i >= 0; i--) {
+            items.push('0x' + log.stack.peek(i).toString(16));
+        }
+        return items;
+    },
+    memorySlice: function(log, entry) {
+        var offset = log.stack.peek(0).valueOf();
+        var end = Math.min(offset + log.stack.peek(1).valueOf(), log.memory.length());
+        entry.memoryOffset = offset;
+        entry.memory = [end > offset ? toHex(log.memory.slice(offset, end)) : '0x'];
+    },
+    step: function(log, db) {
+        var op = log.op.toString();
+        var entry = { pc: log.getPC(), op: op, gas: log.getGas(), gasCost: log.getCost(), depth: log.getDepth() };
+
+        var keep = this.keepNext;
+        this.keepNext = false;
+        if (keep) {
+            entry.stack = this.stackItems(log, 1);
+        }
+
+        if (op === 'SLOAD') {
+            entry.stack = this.stackItems(log, 1);
+            this.keepNext = true;
+        } else if (op === 'SSTORE') {
+            entry.stack = this.stackItems(log, 2);
+        } else if (op === 'SHA3' || op === 'KECCAK256') {
+            entry.stack = this.stackItems(log, 2);
+            this.memorySlice(log, entry);
+        } else if (op.indexOf('LOG') === 0) {
+            entry.stack = this.stackItems(log, 2 + parseInt(op.substring(3)));
+            this.memorySlice(log, entry);
+        } else if (${JSON.stringify(CALL_OPS)}.indexOf(op) !== -1) {
+            this.keepNext = true;
+        } else if (!keep) {
+            return;
+        }
+
+        this.structLogs.push(entry);
+    },
+    fault: function(log, db) {},
+    result: function(ctx, db) {
+        return { structLogs: this.structLogs };
+    }
+}`;
+
+export type NodeTraces = {
+    calls: CallTracerFrame;
+
+    // used to compute codehashes, and the original value of storage slots
+    prestate: PrestateTracerResult;
+
+    // without this, the trace will not contain any storage operations or preimages
+    structLogs?: StructLoggerResult;
+};
+
+const EMPTY_CODEHASH = ethers.utils.keccak256('0x');
+const ZERO_WORD = ethers.constants.HashZero;
+
+// nodes format stack items either as minimal hex, or as unprefixed 32 byte words depending on the version
+const toWord = (value: string): string => {
+    return ethers.utils.hexZeroPad(
+        ethers.BigNumber.from(value.startsWith('0x') ? value : '0x' + value).toHexString(),
+        32,
+    );
+};
+
+const toNumber = (value: string | number | undefined): number => {
+    return value === undefined ? 0 : ethers.BigNumber.from(value).toNumber();
+};
+
+// the top of the stack is the last element
+const peekStack = (log: StructLog | undefined, n: number): string => {
+    if (!log || !log.stack || log.stack.length <= n) {
+        throw new Error(`struct log is missing stack item ${n}`);
+    }
+    return toWord(log.stack[log.stack.length - 1 - n]);
+};
+
+const readMemory = (log: StructLog, offset: number, size: number): string | undefined => {
+    if (!log.memory) return undefined;
+
+    const memory = log.memory.join('').replace(/^0x/, '');
+    const start = offset - (log.memoryOffset ?? 0);
+    return '0x' + memory.substring(start * 2, (start + size) * 2).padEnd(size * 2, '0');
+};
+
+type Storage = Record<string, Record<string, string>>;
+
+// a call frame which is currently executing, while walking the struct logs
+type ExecutingFrame = {
+    frame: CallTracerFrame;
+    node: TraceEntryCall;
+
+    // the address whose storage is modified, which differs from the callee for delegatecall and callcode
+    storageAddress: string;
+
+    nextCall: number;
+    nextLog: number;
+
+    // storage as it was when the frame was entered, so that it can be restored if the frame reverts
+    snapshot: Storage;
+};
+
+class TraceBuilder {
+    private readonly prestate: PrestateTracerResult;
+    private readonly createdCode: Record<string, string> = {};
+
+    readonly preimages: Record<string, string> = {};
+    readonly addresses: Record<string, Record<string, AddressInfo>> = {};
+
+    private storage: Storage = {};
+
+    constructor(prestate: PrestateTracerResult) {
+        this.prestate = Object.fromEntries(
+            Object.entries(prestate).map(([address, account]) => [address.toLowerCase(), account]),
+        );
+    }
+
+    getCodehash(address: string): string {
+        const code = this.createdCode[address] ?? this.prestate[address]?.code;
+        return code ? ethers.utils.keccak256(code) : EMPTY_CODEHASH;
+    }
+
+    addAddress(address: string, codehash: string) {
+        if (!(address in this.addresses)) this.addresses[address] = {};
+        if (codehash in this.addresses[address]) return;
+
+        // abis and labels aren't available from the node, so they need to be filled in from elsewhere
+        this.addresses[address][codehash] = {
+            label: '',
+            functions: {},
+            events: {},
+            errors: {},
+        };
+    }
+
+    // builds the node for a frame, without any children
+    buildCall(frame: CallTracerFrame): TraceEntryCall {
+        const variant = frame.type.toLowerCase() as TraceEntryCall['variant'];
+        const to = (frame.to || ethers.constants.AddressZero).toLowerCase();
+        const output = frame.output || '0x';
+        const status = frame.error ? 0 : 1;
+
+        // for creations we want the code which was deployed, rather than the initcode
+        if ((variant === 'create' || variant === 'create2') && status === 1) {
+            this.createdCode[to] = output;
+        }
+
+        const codehash = this.getCodehash(to);
+        this.addAddress(to, codehash);
+
+        return {
+            path: '',
+            type: 'call',
+            variant: variant,
+            gas: toNumber(frame.gas),
+            isPrecompile: to in precompiles,
+            from: frame.from.toLowerCase(),
+            to: to,
+            input: frame.input || '0x',
+            output: output,
+            gasUsed: toNumber(frame.gasUsed),
+            value: ethers.BigNumber.from(frame.value || '0').toString(),
+            status: status,
+            codehash: codehash,
+            children: [],
+        };
+    }
+
+    buildLog(log: CallTracerLog): TraceEntryLog {
+        return {
+            path: '',
+            type: 'log',
+            topics: log.topics,
+            data: log.data,
+        };
+    }
+
+    // builds the tree from the call tracer alone, interleaving logs with calls by their position if it's known
+    buildFromCalls(frame: CallTracerFrame): TraceEntryCall {
+        const node = this.buildCall(frame);
+
+        const calls = frame.calls || [];
+        const logs = frame.logs || [];
+
+        let nextLog = 0;
+        calls.forEach((call, idx) => {
+            while (
+                nextLog < logs.length &&
+                logs[nextLog].position !== undefined &&
+                toNumber(logs[nextLog].position) <= idx
+            ) {
+                node.children.push(this.buildLog(logs[nextLog++]));
+            }
+            node.children.push(this.buildFromCalls(call));
+        });
+        // without a position, the best we can do is put the logs after all of the calls
+        while (nextLog < logs.length) {
+            node.children.push(this.buildLog(logs[nextLog++]));
+        }
+
+        return node;
+    }
+
+    private readStorage(address: string, slot: string): string {
+        return this.storage[address]?.[slot] ?? this.prestate[address]?.storage?.[slot] ?? ZERO_WORD;
+    }
+
+    private writeStorage(address: string, slot: string, value: string) {
+        if (!(address in this.storage)) this.storage[address] = {};
+        this.storage[address][slot] = value;
+    }
+
+    private enterFrame(frame: CallTracerFrame, node: TraceEntryCall, parent?: ExecutingFrame): ExecutingFrame {
+        const inheritsStorage = node.variant === 'delegatecall' || node.variant === 'callcode';
+
+        return {
+            frame: frame,
+            node: node,
+            storageAddress: inheritsStorage && parent ? parent.storageAddress : node.to,
+            nextCall: 0,
+            nextLog: 0,
+            snapshot: Object.fromEntries(Object.entries(this.storage).map(([k, v]) => [k, { ...v }])),
+        };
+    }
+
+    private exitFrame(executing: ExecutingFrame) {
+        if (executing.node.status === 0) {
+            this.storage = executing.snapshot;
+        }
+    }
+
+    // builds the tree by replaying the struct logs, which gives us storage operations and the exact
+    // order in which everything happened
+    buildFromStructLogs(root: CallTracerFrame, structLogs: StructLog[]): TraceEntryCall {
+        const rootNode = this.buildCall(root);
+        const stack: ExecutingFrame[] = [this.enterFrame(root, rootNode)];
+
+        structLogs.forEach((log, i) => {
+            const next = structLogs[i + 1] as StructLog | undefined;
+
+            while (stack.length > log.depth) {
+                this.exitFrame(stack.pop()!);
+            }
+
+            const current = stack[stack.length - 1];
+            if (!current || stack.length !== log.depth) {
+                throw new Error(`struct log ${i} at depth ${log.depth} doesn't match the call trace`);
+            }
+
+            if (log.op === 'SLOAD') {
+                const slot = peekStack(log, 0);
+                // the value is only known once the opcode has executed
+                const value =
+                    next && next.depth === log.depth
+                        ? peekStack(next, 0)
+                        : this.readStorage(current.storageAddress, slot);
+
+                current.node.children.push({
+                    path: '',
+                    type: 'sload',
+                    slot: slot,
+                    value: value,
+                });
+            } else if (log.op === 'SSTORE') {
+                const slot = peekStack(log, 0);
+                const value = peekStack(log, 1);
+
+                current.node.children.push({
+                    path: '',
+                    type: 'sstore',
+                    slot: slot,
+                    oldValue: this.readStorage(current.storageAddress, slot),
+                    newValue: value,
+                });
+                this.writeStorage(current.storageAddress, slot, value);
+            } else if (log.op === 'SHA3' || log.op === 'KECCAK256') {
+                const preimage = readMemory(log, toNumber(peekStack(log, 0)), toNumber(peekStack(log, 1)));
+                if (preimage !== undefined) {
+                    this.preimages[ethers.utils.keccak256(preimage)] = preimage;
+                }
+            } else if (log.op.startsWith('LOG')) {
+                const frameLogs = current.frame.logs || [];
+                if (current.nextLog < frameLogs.length) {
+                    current.node.children.push(this.buildLog(frameLogs[current.nextLog++]));
+                } else {
+                    // nodes drop the logs of frames which reverted, so rebuild them from the struct log if we can
+                    const topicCount = parseInt(log.op.substring(3));
+                    const data = readMemory(log, toNumber(peekStack(log, 0)), toNumber(peekStack(log, 1)));
+                    if (data !== undefined) {
+                        current.node.children.push({
+                            path: '',
+                            type: 'log',
+                            topics: Array.from({ length: topicCount }, (_, idx) => peekStack(log, 2 + idx)),
+                            data: data,
+                        });
+                    }
+                }
+            } else if (CALL_OPS.includes(log.op)) {
+                const frameCalls = current.frame.calls || [];
+                if (current.nextCall >= frameCalls.length) {
+                    throw new Error(`struct log ${i} makes a call which isn't in the call trace`);
+                }
+
+                const frame = frameCalls[current.nextCall++];
+                const node = this.buildCall(frame);
+                current.node.children.push(node);
+
+                // calls to accounts without code (and precompiles) don't produce any struct logs
+                if (next && next.depth === log.depth + 1) {
+                    stack.push(this.enterFrame(frame, node, current));
+                }
+            }
+        });
+
+        while (stack.length > 0) {
+            this.exitFrame(stack.pop()!);
+        }
+
+        return rootNode;
+    }
+}
+
+const assignPaths = (node: TraceEntry, path: string) => {
+    node.path = path;
+    if (node.type === 'call') {
+        node.children.forEach((child, idx) => assignPaths(child, `${path}.${idx}`));
+    }
+};
+
+// converts the output of a node's debug_traceTransaction into the same shape as a trace from the backend, so that
+// traces can be viewed without it. the node doesn't know about abis or labels, so every address is left unlabelled
+export const buildTraceResponse = (chain: string, txhash: string, traces: NodeTraces): TraceResponse => {
+    const builder = new TraceBuilder(traces.prestate);
+
+    const entrypoint = traces.structLogs
+        ? builder.buildFromStructLogs(traces.calls, traces.structLogs.structLogs)
+        : builder.buildFromCalls(traces.calls);
+    assignPaths(entrypoint, '0');
+
+    builder.addAddress(entrypoint.from, builder.getCodehash(entrypoint.from));
+
+    return {
+        chain: chain,
+        txhash: txhash,
+        preimages: builder.preimages,
+        addresses: builder.addresses,
+        entrypoint: entrypoint,
+    };
+};
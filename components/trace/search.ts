@@ -0,0 +1,150 @@
+import { BigNumber, ethers } from 'ethers';
+import { TraceEntry, TraceEntryCall } from '../api';
+import { TraceMetadata } from '../types';
+import { precompiles } from '../precompiles';
+
+export type TraceSearchField = 'address' | 'label' | 'function' | 'selector' | 'event' | 'topic' | 'slot' | 'param';
+
+export const traceSearchFields: TraceSearchField[] = [
+    'address',
+    'label',
+    'function',
+    'selector',
+    'event',
+    'topic',
+    'slot',
+    'param',
+];
+
+// every node in the trace along with the lowercase values it can be found by
+export type TraceSearchIndex = Array<{
+    path: string;
+    values: Array<{ field: TraceSearchField; value: string }>;
+}>;
+
+export type TraceSearchTerm = {
+    // if not given, the term can match any field
+    field?: TraceSearchField;
+    value: string;
+};
+
+// flattens decoded values, including structs and arrays, into their string representations
+const stringifyValues = (value: any): string[] => {
+    if (value === null || value === undefined) return [];
+    if (BigNumber.isBigNumber(value)) return [value.toString()];
+    if (Array.isArray(value)) return value.flatMap(stringifyValues);
+
+    return [String(value).toLowerCase()];
+};
+
+const getAbi = (traceMetadata: TraceMetadata, node: TraceEntryCall): ethers.utils.Interface | undefined => {
+    return traceMetadata.abis[node.to]?.[node.codehash];
+};
+
+const decodeCallParams = (traceMetadata: TraceMetadata, node: TraceEntryCall): string[] => {
+    try {
+        if (node.isPrecompile) {
+            return node.to in precompiles ? stringifyValues(precompiles[node.to].parseInput(node.input)) : [];
+        }
+
+        const fragment = getAbi(traceMetadata, node)?.getFunction(node.input.substring(0, 10).toLowerCase());
+        if (!fragment) return [];
+
+        return stringifyValues(
+            ethers.utils.defaultAbiCoder.decode(fragment.inputs, ethers.utils.arrayify(node.input).slice(4)),
+        );
+    } catch {
+        return [];
+    }
+};
+
+// decoding every node is slow, so the index is only built once the user actually searches
+export const buildTraceSearchIndex = (
+    entrypoint: TraceEntryCall,
+    traceMetadata: TraceMetadata,
+    labels: Record<string, string>,
+): TraceSearchIndex => {
+    const index: TraceSearchIndex = [];
+
+    const visit = (node: TraceEntry, parent: TraceEntryCall | undefined) => {
+        const values: TraceSearchIndex[number]['values'] = [];
+        const add = (field: TraceSearchField, value: string | undefined) => {
+            if (value) values.push({ field, value: value.toLowerCase() });
+        };
+
+        if (node.type === 'call') {
+            [node.to, node.from].forEach((address) => {
+                add('address', address);
+                add('label', labels[address.toLowerCase()]);
+            });
+
+            if (node.isPrecompile) {
+                add('function', precompiles[node.to]?.name);
+            } else if (node.input.length >= 10) {
+                add('selector', node.input.substring(0, 10));
+                try {
+                    add('function', getAbi(traceMetadata, node)?.getFunction(node.input.substring(0, 10)).name);
+                } catch {}
+            }
+            decodeCallParams(traceMetadata, node).forEach((value) => add('param', value));
+        } else if (node.type === 'log' && parent) {
+            node.topics.forEach((topic) => add('topic', topic));
+
+            try {
+                const abi = getAbi(traceMetadata, parent);
+                if (abi && node.topics.length > 0) {
+                    const fragment = abi.getEvent(node.topics[0]);
+                    add('event', fragment.name);
+                    stringifyValues(abi.decodeEventLog(fragment, node.data, node.topics)).forEach((value) =>
+                        add('param', value),
+                    );
+                }
+            } catch {}
+        } else if (node.type === 'sload' || node.type === 'sstore') {
+            add('slot', node.slot);
+        }
+
+        index.push({ path: node.path, values: values });
+
+        if (node.type === 'call') {
+            node.children.forEach((child) => visit(child, node));
+        }
+    };
+    visit(entrypoint, undefined);
+
+    return index;
+};
+
+// terms look like "transfer" or "event:Transfer", and a node has to match every term
+export const parseTraceSearchQuery = (query: string): TraceSearchTerm[] => {
+    return query
+        .trim()
+        .split(/\s+/)
+        .filter((term) => term)
+        .map((term) => {
+            const separator = term.indexOf(':');
+            const field = term.substring(0, separator).toLowerCase() as TraceSearchField;
+            if (separator !== -1 && traceSearchFields.includes(field)) {
+                return { field: field, value: term.substring(separator + 1).toLowerCase() };
+            }
+
+            return { value: term.toLowerCase() };
+        })
+        .filter((term) => term.value);
+};
+
+// returns the paths of every matching node, in the order they appear in the trace
+export const searchTrace = (index: TraceSearchIndex, query: string): string[] => {
+    const terms = parseTraceSearchQuery(query);
+    if (terms.length === 0) return [];
+
+    return index
+        .filter((entry) =>
+            terms.every((term) =>
+                entry.values.some(
+                    ({ field, value }) => (!term.field || term.field === field) && value.includes(term.value),
+                ),
+            ),
+        )
+        .map((entry) => entry.path);
+};
@@ -0,0 +1,117 @@
+import BN from 'bn.js';
+import { ethers } from 'ethers';
+import { TraceEntrySload, TraceEntrySstore, TraceResponse } from '../api';
+import { findAffectedContract } from '../helpers';
+import { knownSlots } from '../knownSlots';
+import { SlotInfo, StorageMetadata, TraceMetadata } from '../types';
+
+// works out which storage slots are derived from which preimages (mapping keys, dynamic arrays, etc) so
+// that they can be matched up with the storage layout later
+export const resolveStorageSlots = (
+    traceResult: TraceResponse,
+    traceMetadata: TraceMetadata,
+    allStorageOps: Array<TraceEntrySload | TraceEntrySstore>,
+): StorageMetadata => {
+    // first, augment our preimages by hashing each potential storage slot
+    // this is because solidity inlines the offset at which a dynamic array will be placed
+    // so we don't know what it is from the trace
+    allStorageOps.forEach((node) => {
+        traceResult.preimages[ethers.utils.keccak256(node.slot)] = node.slot;
+    });
+
+    let newStorageMetadata: StorageMetadata = {
+        fetched: {},
+        slots: {},
+    };
+
+    let updateSlotInfo = (address: string, codehash: string, slot: string, info: SlotInfo) => {
+        if (!(address in newStorageMetadata.slots)) newStorageMetadata.slots[address] = {};
+        if (!(codehash in newStorageMetadata.slots[address])) newStorageMetadata.slots[address][codehash] = {};
+
+        let knownSlot = knownSlots[slot];
+        if (knownSlot) {
+            info.resolved = true;
+            info.variables[0] = {
+                name: knownSlot.name,
+                fullName: knownSlot.name,
+                typeName: {
+                    typeDescriptions: {
+                        typeString: knownSlot.type,
+                        typeIdentifier: knownSlot.type,
+                    },
+                },
+                bits: knownSlot.bits,
+            };
+        }
+
+        newStorageMetadata.slots[address][codehash][slot] = info;
+    };
+
+    let zero = new BN(0);
+    let max = new BN(2 ** 32);
+
+    let preimageSlotCache = {} as Record<string, BN>;
+    Object.keys(traceResult.preimages).forEach((hash) => {
+        preimageSlotCache[hash] = new BN(hash.substring(2), 16);
+    });
+    console.log('warmed cache');
+
+    allStorageOps.forEach((node) => {
+        let slot = node.slot;
+        let [parentNode] = findAffectedContract(traceMetadata, node);
+
+        while (true) {
+            let preimage = traceResult.preimages[slot];
+            let preimageOffset = 0;
+            if (!preimage) {
+                let potentialPreimages = Object.keys(traceResult.preimages)
+                    .filter((hash) => {
+                        if (!preimageSlotCache.hasOwnProperty(slot)) {
+                            preimageSlotCache[slot] = new BN(slot.substring(2), 16);
+                        }
+                        let offset = preimageSlotCache[slot].sub(preimageSlotCache[hash]);
+                        return offset.gt(zero) && offset.lt(max);
+                    })
+                    .map((hash) => {
+                        return {
+                            hash: hash,
+                            preimage: traceResult.preimages[hash],
+                            offset: preimageSlotCache[slot].sub(preimageSlotCache[hash]).toNumber(),
+                        };
+                    });
+                if (potentialPreimages.length !== 1) {
+                    if (potentialPreimages.length > 1) {
+                        console.warn('found more than one potential preimage match', potentialPreimages);
+                    }
+                    updateSlotInfo(parentNode.to, parentNode.codehash, slot, {
+                        type: 'raw',
+                        resolved: false,
+                        variables: {},
+                    });
+                    break;
+                }
+
+                preimage = potentialPreimages[0].preimage;
+                preimageOffset = potentialPreimages[0].offset;
+            }
+
+            if (preimage.startsWith('0x')) {
+                preimage = preimage.substring(2);
+            }
+            let baseSlot = '0x' + preimage.substring(preimage.length - 64).padStart(64, '0');
+            updateSlotInfo(parentNode.to, parentNode.codehash, slot, {
+                type: 'dynamic',
+                resolved: false,
+                variables: {},
+
+                offset: preimageOffset,
+                baseSlot: baseSlot,
+                key: '0x' + preimage.substring(0, preimage.length - 64),
+            });
+
+            slot = baseSlot;
+        }
+    });
+
+    return newStorageMetadata;
+};
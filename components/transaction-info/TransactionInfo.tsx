@@ -7,9 +7,11 @@ import { formatUnits } from 'ethers/lib/utils';
 import { formatUnitsSmartly, formatUsd } from '../helpers';
 import { DataRenderer } from '../DataRenderer';
 import { ChainConfigContext } from '../Chains';
-import { PriceMetadataContext } from '../metadata/prices';
+import { getPriceOfToken, PriceMetadataContext } from '../metadata/prices';
+import { NATIVE_TOKEN } from '../decoder/actions';
 import { ethers } from 'ethers';
-import { TransactionMetadataContext } from '../metadata/transaction';
+import { getTransactionStatus, TransactionMetadataContext } from '../metadata/transaction';
+import { TraceResponse } from '../api';
 
 type TransactionAttributeGridProps = {
     children?: React.ReactNode[];
@@ -77,7 +79,10 @@ type TransactionMetadata = {
     value: bigint;
 };
 
-type TransactionInfoProps = {};
+type TransactionInfoProps = {
+    // used for the status of transactions from before byzantium, whose receipts don't have one
+    traceResult?: TraceResponse;
+};
 
 export const TransactionInfo = (props: TransactionInfoProps) => {
     console.time('render transaction info');
@@ -116,17 +121,7 @@ export const TransactionInfo = (props: TransactionInfoProps) => {
         );
     }
 
-    let transactionStatus;
-    if (transactionMetadata.receipt.status === 0) {
-        transactionStatus = 'Failed';
-    } else if (transactionMetadata.receipt.status === 1) {
-        transactionStatus = 'Succeeded';
-    } else {
-        transactionStatus = 'Unknown';
-    }
-
-    let historicalEthPrice = priceMetadata.prices[chainConfig.coingeckoId]?.historicalPrice;
-    let currentEthPrice = priceMetadata.prices[chainConfig.coingeckoId]?.currentPrice;
+    let transactionStatus = getTransactionStatus(transactionMetadata, props.traceResult);
 
     let transactionValue = transactionMetadata.transaction.value.toBigInt();
     let transactionFee =
@@ -139,18 +134,20 @@ export const TransactionInfo = (props: TransactionInfoProps) => {
 
     let transactionValueUSD;
     let transactionFeeUSD;
-    if (historicalEthPrice) {
+    const historicalValue = getPriceOfToken(priceMetadata, NATIVE_TOKEN, transactionValue, 'historical');
+    const currentValue = getPriceOfToken(priceMetadata, NATIVE_TOKEN, transactionValue, 'current');
+    const historicalFee = getPriceOfToken(priceMetadata, NATIVE_TOKEN, transactionFee, 'historical');
+    const currentFee = getPriceOfToken(priceMetadata, NATIVE_TOKEN, transactionFee, 'current');
+    if (typeof historicalValue === 'bigint' && typeof historicalFee === 'bigint') {
         transactionValueUSD = (
             <>
                 &nbsp;(
                 <Tooltip
                     title={
-                        currentEthPrice
-                            ? formatUsd(transactionValue * currentEthPrice) + ' today'
-                            : 'Current price unknown'
+                        typeof currentValue === 'bigint' ? formatUsd(currentValue) + ' today' : 'Current price unknown'
                     }
                 >
-                    <span>{formatUsd(transactionValue * historicalEthPrice)}</span>
+                    <span>{formatUsd(historicalValue)}</span>
                 </Tooltip>
                 )
             </>
@@ -159,13 +156,9 @@ export const TransactionInfo = (props: TransactionInfoProps) => {
             <>
                 &nbsp;(
                 <Tooltip
-                    title={
-                        currentEthPrice
-                            ? formatUsd(transactionFee * currentEthPrice) + ' today'
-                            : 'Current price unknown'
-                    }
+                    title={typeof currentFee === 'bigint' ? formatUsd(currentFee) + ' today' : 'Current price unknown'}
                 >
-                    <span>{formatUsd(transactionFee * historicalEthPrice)}</span>
+                    <span>{formatUsd(historicalFee)}</span>
                 </Tooltip>
                 )
             </>
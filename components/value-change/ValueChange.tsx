@@ -1,4 +1,4 @@
-import { Box, Collapse, Table, TableBody, TableCell, TableHead, TableRow } from '@mui/material';
+import { Box, Collapse, Table, TableBody, TableCell, TableHead, TableRow, Tooltip } from '@mui/material';
 import KeyboardArrowDownIcon from '@mui/icons-material/KeyboardArrowDown';
 import KeyboardArrowUpIcon from '@mui/icons-material/KeyboardArrowUp';
 import { TraceMetadata } from '../types';
@@ -9,16 +9,18 @@ import { NATIVE_TOKEN } from '../decoder/actions';
 import { formatUsd } from '../helpers';
 import { DataRenderer } from '../DataRenderer';
 import { ChainConfigContext } from '../Chains';
-import { fetchDefiLlamaPrices, getPriceOfToken, PriceMetadataContext, toDefiLlamaId } from '../metadata/prices';
-import { fetchTokenMetadata, TokenMetadata, TokenMetadataContext } from '../metadata/tokens';
+import { fetchPrices, getPriceOfToken, PriceMetadataContext } from '../metadata/prices';
+import { fetchTokenMetadata, TokenMetadataContext } from '../metadata/tokens';
 import { TraceEntryCall, TraceEntryLog, TraceResponse } from '../api';
 import { BaseProvider } from '@ethersproject/providers';
-import { TransactionMetadataContext } from '../metadata/transaction';
+import { getPriceQuery, TransactionMetadataContext } from '../metadata/transaction';
+import { decodeERC1155Transfer, decodeERC721Transfer } from '../decoder/fallback';
 
 export type ValueChangeProps = {
     traceResult: TraceResponse;
     traceMetadata: TraceMetadata;
-    provider: BaseProvider;
+    // not available when viewing a local trace, in which case token metadata isn't fetched
+    provider?: BaseProvider;
 };
 
 type RowProps = {
@@ -35,50 +37,83 @@ function Row(props: RowProps) {
 
     const [open, setOpen] = React.useState(false);
 
-    let hasMissingPrice = false;
+    let hasPendingPrice = false;
+    let hasUnknownPrice = false;
     let changeInValue = 0n;
     Object.entries(changes).forEach(([token, delta]) => {
-        const defiLlamaId = toDefiLlamaId(chainConfig, token);
+        // we don't have prices for individual nfts
+        if (isNftKey(token)) return;
 
-        const deltaPrice = getPriceOfToken(priceMetadata, defiLlamaId, delta, 'historical');
-        if (deltaPrice === null) {
-            hasMissingPrice = true;
+        // there's no price source at all, so leave it out rather than waiting forever
+        if (!priceMetadata.source) {
+            hasUnknownPrice = true;
             return;
         }
 
-        changeInValue += deltaPrice;
+        const deltaPrice = getPriceOfToken(priceMetadata, token, delta, 'historical');
+        if (deltaPrice === 'pending') {
+            hasPendingPrice = true;
+        } else if (deltaPrice === 'unknown') {
+            hasUnknownPrice = true;
+        } else {
+            changeInValue += deltaPrice;
+        }
     });
 
-    const changeInPriceRendered = hasMissingPrice ? (
+    let changeInPriceRendered = hasPendingPrice ? (
         <span>Loading...</span>
     ) : (
         <span style={{ color: changeInValue < 0n ? '#ed335f' : changeInValue > 0n ? '#067034' : '' }}>
             {formatUsd(changeInValue)}
         </span>
     );
+    if (!hasPendingPrice && hasUnknownPrice) {
+        changeInPriceRendered = (
+            <Tooltip title={"Excludes tokens whose price isn't known"}>
+                <span>{changeInPriceRendered}*</span>
+            </Tooltip>
+        );
+    }
 
     const tokenBreakdown = Object.keys(changes)
         .sort()
         .map((token) => {
+            if (isNftKey(token)) {
+                const [collection, tokenId] = token.split('#');
+                const collectionInfo = tokenMetadata.tokens[collection];
+                const collectionName = collectionInfo?.name || collectionInfo?.symbol;
+                const labels = collectionName ? { [collection]: collectionName } : undefined;
+
+                return (
+                    <TableRow key={token}>
+                        <TableCell component="th" scope="row">
+                            <DataRenderer preferredType={'address'} labels={labels} data={collection} />#{tokenId}
+                        </TableCell>
+                        <TableCell>{changes[token].toString()}</TableCell>
+                        <TableCell align="right">N/A</TableCell>
+                    </TableRow>
+                );
+            }
+
             let labels;
             let tokenAddress = token;
-            let priceId = toDefiLlamaId(chainConfig, token);
             if (token === NATIVE_TOKEN) {
                 tokenAddress = chainConfig.nativeTokenAddress || '';
-                priceId = chainConfig.coingeckoId || '';
                 labels = { [tokenAddress]: chainConfig.nativeSymbol || '' };
             }
             tokenAddress = tokenAddress.toLowerCase();
 
             let amountFormatted = changes[token].toString();
-            let tokenPriceRendered = 'Loading...';
+            let tokenPriceRendered = 'N/A';
 
             let tokenInfo = tokenMetadata.tokens[tokenAddress];
             if (tokenInfo !== undefined && tokenInfo.decimals !== undefined) {
                 amountFormatted = ethers.utils.formatUnits(changes[token], tokenInfo.decimals);
             }
-            if (priceMetadata.status[priceId] === 'fetched') {
-                tokenPriceRendered = formatUsd(getPriceOfToken(priceMetadata, priceId, changes[token], 'historical')!);
+            if (priceMetadata.source) {
+                const price = getPriceOfToken(priceMetadata, token, changes[token], 'historical');
+                tokenPriceRendered =
+                    price === 'pending' ? 'Loading...' : price === 'unknown' ? 'Unknown' : formatUsd(price);
             }
 
             return (
@@ -130,22 +165,24 @@ function Row(props: RowProps) {
     );
 }
 
-const computeBalanceChanges = (
+// nfts are tracked per token id, using keys of the form `${collection}#${tokenId}`
+const isNftKey = (token: string) => token.includes('#');
+
+export const computeBalanceChanges = (
     entrypoint: TraceEntryCall,
     traceMetadata: TraceMetadata,
-    tokenMetadata: TokenMetadata,
 ): [Record<string, Record<string, bigint>>, Set<string>] => {
     const changes: Record<string, Record<string, bigint>> = {};
     const allTokens = new Set<string>();
 
-    const addChange = (address: string, token: string, change: bigint) => {
+    const addChange = (address: string, token: string, change: bigint, tokenId?: BigNumber) => {
         address = address.toLowerCase();
         token = token.toLowerCase();
 
         allTokens.add(token);
 
-        if (tokenMetadata.status[token] === 'fetched' && tokenMetadata.tokens[token].isNft) {
-            change = change > 0n ? 1n : -1n;
+        if (tokenId !== undefined) {
+            token = `${token}#${tokenId.toString()}`;
         }
 
         if (!(address in changes)) {
@@ -173,11 +210,30 @@ const computeBalanceChanges = (
             .filter((child): child is TraceEntryLog => child.type === 'log')
             .forEach((traceLog) => {
                 if (traceLog.topics.length === 0) return;
-                if (traceLog.topics[0] !== '0xddf252ad1be2c89b69c2b068fc378daa952ba7f163c4a11628f55a4df523b3ef') return;
 
                 const parentNode = node;
 
                 try {
+                    const nftTransfer = decodeERC721Transfer(parentNode.from, parentNode.to, traceLog);
+                    if (nftTransfer) {
+                        addChange(nftTransfer.from, parentNode.to, -1n, nftTransfer.tokenId);
+                        addChange(nftTransfer.to, parentNode.to, 1n, nftTransfer.tokenId);
+                        return;
+                    }
+
+                    const multiTokenTransfer = decodeERC1155Transfer(parentNode.to, traceLog);
+                    if (multiTokenTransfer) {
+                        multiTokenTransfer.ids.forEach((id, idx) => {
+                            const value = multiTokenTransfer.amounts[idx].toBigInt();
+                            addChange(multiTokenTransfer.from, parentNode.to, -value, id);
+                            addChange(multiTokenTransfer.to, parentNode.to, value, id);
+                        });
+                        return;
+                    }
+
+                    if (traceLog.topics[0] !== '0xddf252ad1be2c89b69c2b068fc378daa952ba7f163c4a11628f55a4df523b3ef')
+                        return;
+
                     const parsedEvent = traceMetadata.abis[parentNode.to][parentNode.codehash].parseLog({
                         topics: traceLog.topics,
                         data: traceLog.data,
@@ -219,15 +275,21 @@ export const ValueChange = (props: ValueChangeProps) => {
     const priceMetadata = useContext(PriceMetadataContext);
 
     const [changes, allTokens] = React.useMemo(() => {
-        return computeBalanceChanges(traceResult.entrypoint, traceMetadata, tokenMetadata);
-    }, [traceResult, traceMetadata, tokenMetadata]);
+        return computeBalanceChanges(traceResult.entrypoint, traceMetadata);
+    }, [traceResult, traceMetadata]);
 
-    fetchDefiLlamaPrices(
+    fetchPrices(
         priceMetadata.updater,
-        Array.from(allTokens).map((token) => `${chainConfig.defillamaPrefix}:${token}`),
-        transactionMetadata.block.timestamp,
-    );
-    fetchTokenMetadata(tokenMetadata.updater, provider, Array.from(allTokens));
+        priceMetadata.source,
+        chainConfig,
+        allTokens,
+        getPriceQuery(transactionMetadata),
+    ).catch((e) => console.log('failed to fetch prices', e));
+    if (provider) {
+        fetchTokenMetadata(tokenMetadata.updater, provider, chainConfig.id, Array.from(allTokens)).catch((e) =>
+            console.log('failed to fetch token metadata', e),
+        );
+    }
 
     return Object.entries(changes).length > 0 ? (
         <Table aria-label="collapsible table" size={'small'} sx={{ maxWidth: { md: '100vw', lg: '75vw', xl: '50vw' } }}>
@@ -0,0 +1,166 @@
+import * as React from 'react';
+import { useContext } from 'react';
+import { Button, Table, TableBody, TableCell, TableHead, TableRow, TextField, Typography } from '@mui/material';
+import { ethers } from 'ethers';
+import { ChainConfigContext } from '../Chains';
+import { DataRenderer } from '../DataRenderer';
+import { TraceResponse } from '../api';
+import {
+    findWatchlistTouches,
+    saveWatchlist,
+    setWatched,
+    WatchlistContext,
+    WatchlistTouch,
+    WatchlistTouchKind,
+    watchlistTouchDescriptions,
+} from './watchlist';
+
+// there can be thousands of touches for a busy contract, so only link to the first few of each kind
+const MAX_TOUCHES_PER_KIND = 10;
+
+type WatchlistSummaryProps = {
+    traceResult: TraceResponse;
+
+    // optional: called when the user wants to see a node in the call trace
+    focusTraceNode?: (path: string) => void;
+};
+
+const TouchList = (props: { touches: WatchlistTouch[]; focusTraceNode?: (path: string) => void }) => {
+    const { touches, focusTraceNode } = props;
+
+    const byKind: Partial<Record<WatchlistTouchKind, WatchlistTouch[]>> = {};
+    touches.forEach((touch) => (byKind[touch.kind] = [...(byKind[touch.kind] || []), touch]));
+
+    return (
+        <>
+            {Object.entries(byKind).map(([kind, kindTouches]) => (
+                <div key={kind}>
+                    {watchlistTouchDescriptions[kind as WatchlistTouchKind]}
+                    {kindTouches.length > 1 ? ` ${kindTouches.length} times` : ''}:&nbsp;
+                    {kindTouches.slice(0, MAX_TOUCHES_PER_KIND).map((touch) => (
+                        <span
+                            key={touch.path}
+                            className="mr-2 underline cursor-pointer hover:opacity-60"
+                            onClick={() => focusTraceNode?.(touch.path)}
+                        >
+                            {touch.path}
+                        </span>
+                    ))}
+                    {kindTouches.length > MAX_TOUCHES_PER_KIND
+                        ? `and ${kindTouches.length - MAX_TOUCHES_PER_KIND} more`
+                        : null}
+                </div>
+            ))}
+        </>
+    );
+};
+
+export const WatchlistSummary = (props: WatchlistSummaryProps) => {
+    const { traceResult, focusTraceNode } = props;
+
+    const chainConfig = useContext(ChainConfigContext);
+    const watchlist = useContext(WatchlistContext);
+
+    const [newAddress, setNewAddress] = React.useState('');
+    const [error, setError] = React.useState<string>();
+
+    const addresses = React.useMemo(
+        () => watchlist.addresses[chainConfig.id] || [],
+        [watchlist.addresses, chainConfig.id],
+    );
+
+    const touches = React.useMemo(() => {
+        return findWatchlistTouches(traceResult.entrypoint, addresses);
+    }, [traceResult, addresses]);
+
+    const updateWatched = (address: string, watched: boolean) => {
+        watchlist.updater((prevState) => {
+            const newAddresses = setWatched(prevState.addresses, chainConfig.id, address, watched);
+            saveWatchlist(newAddresses);
+            return { ...prevState, addresses: newAddresses };
+        });
+    };
+
+    const addAddress = () => {
+        if (!ethers.utils.isAddress(newAddress)) {
+            setError(`${newAddress} is not an address`);
+            return;
+        }
+
+        updateWatched(newAddress, true);
+        setNewAddress('');
+        setError(undefined);
+    };
+
+    const untouched = addresses.filter((address) => !(address in touches));
+
+    return (
+        <>
+            {Object.keys(touches).length > 0 ? (
+                <Table size={'small'} sx={{ maxWidth: { md: '100vw', lg: '75vw', xl: '50vw' } }}>
+                    <TableHead>
+                        <TableRow>
+                            <TableCell>Address</TableCell>
+                            <TableCell>Touched</TableCell>
+                            <TableCell />
+                        </TableRow>
+                    </TableHead>
+                    <TableBody>
+                        {Object.entries(touches).map(([address, addressTouches]) => (
+                            <TableRow key={address}>
+                                <TableCell sx={{ verticalAlign: 'top' }}>
+                                    <DataRenderer preferredType={'address'} data={address} />
+                                </TableCell>
+                                <TableCell>
+                                    <TouchList touches={addressTouches} focusTraceNode={focusTraceNode} />
+                                </TableCell>
+                                <TableCell align="right" sx={{ verticalAlign: 'top' }}>
+                                    <Button size={'small'} onClick={() => updateWatched(address, false)}>
+                                        Unwatch
+                                    </Button>
+                                </TableCell>
+                            </TableRow>
+                        ))}
+                    </TableBody>
+                </Table>
+            ) : (
+                <Typography variant={'body2'}>
+                    {addresses.length > 0
+                        ? 'None of the watched addresses were touched by this transaction'
+                        : 'Watch an address from its tooltip, or add one below, to highlight it everywhere it appears'}
+                </Typography>
+            )}
+            {untouched.length > 0 && Object.keys(touches).length > 0 ? (
+                <Typography variant={'body2'} color={'#606161'} sx={{ marginTop: '6px' }}>
+                    Not touched:{' '}
+                    {untouched.map((address) => (
+                        <span key={address} className="mr-2">
+                            <DataRenderer preferredType={'address'} data={address} />
+                        </span>
+                    ))}
+                </Typography>
+            ) : null}
+            <div className="flex flex-row items-end my-2">
+                <TextField
+                    size={'small'}
+                    variant={'standard'}
+                    placeholder={'0x...'}
+                    sx={{ minWidth: '360px' }}
+                    value={newAddress}
+                    onChange={(event) => setNewAddress(event.target.value)}
+                    onKeyUp={(event) => {
+                        if (event.key === 'Enter') addAddress();
+                    }}
+                />
+                <Button size={'small'} onClick={addAddress}>
+                    Watch
+                </Button>
+            </div>
+            {error ? (
+                <Typography variant={'body2'} color={'#ed335f'}>
+                    {error}
+                </Typography>
+            ) : null}
+        </>
+    );
+};
@@ -0,0 +1,130 @@
+import React from 'react';
+import { TraceEntry, TraceEntryCall } from '../api';
+
+export type Watchlist = {
+    updater: React.Dispatch<React.SetStateAction<Watchlist>>;
+
+    // lowercase addresses of interest, keyed by chain
+    addresses: Record<string, string[]>;
+};
+
+export const defaultWatchlist = (): Watchlist => {
+    return {
+        updater: () => {},
+        addresses: {},
+    };
+};
+
+export const WatchlistContext = React.createContext(defaultWatchlist());
+
+const prefWatchlistKey = 'pref:watchlist';
+
+export const loadWatchlist = (): Record<string, string[]> => {
+    if (typeof window === 'undefined') return {};
+
+    try {
+        return JSON.parse(window.localStorage.getItem(prefWatchlistKey) || '{}');
+    } catch {
+        return {};
+    }
+};
+
+export const saveWatchlist = (addresses: Record<string, string[]>) => {
+    window.localStorage.setItem(prefWatchlistKey, JSON.stringify(addresses));
+};
+
+export const isWatched = (watchlist: Watchlist, chain: string, address: string): boolean => {
+    return (watchlist.addresses[chain] || []).includes(address.toLowerCase());
+};
+
+// returns a copy of the addresses with the address added or removed
+export const setWatched = (
+    addresses: Record<string, string[]>,
+    chain: string,
+    address: string,
+    watched: boolean,
+): Record<string, string[]> => {
+    address = address.toLowerCase();
+
+    const chainAddresses = (addresses[chain] || []).filter((v) => v !== address);
+    if (watched) {
+        chainAddresses.push(address);
+    }
+
+    return { ...addresses, [chain]: chainAddresses };
+};
+
+export type WatchlistTouchKind = 'caller' | 'callee' | 'created' | 'log-emitter' | 'log-topic' | 'calldata';
+
+export type WatchlistTouch = {
+    path: string;
+    kind: WatchlistTouchKind;
+};
+
+export const watchlistTouchDescriptions: Record<WatchlistTouchKind, string> = {
+    caller: 'made a call',
+    callee: 'was called',
+    created: 'was created',
+    'log-emitter': 'emitted an event',
+    'log-topic': 'was mentioned in an event',
+    calldata: 'was passed as a parameter',
+};
+
+// returns the calldata words which could be addresses, skipping the selector
+const calldataWords = (input: string): string[] => {
+    const data = input.toLowerCase().replace(/^0x/, '').substring(8);
+
+    const words = [];
+    for (let i = 0; i + 64 <= data.length; i += 64) {
+        words.push(data.substring(i, i + 64));
+    }
+    return words;
+};
+
+const toWord = (address: string): string => {
+    return address.toLowerCase().replace(/^0x/, '').padStart(64, '0');
+};
+
+// finds every place in the trace that a watched address was involved, in the order they happened
+export const findWatchlistTouches = (
+    entrypoint: TraceEntryCall,
+    addresses: string[],
+): Record<string, WatchlistTouch[]> => {
+    const words = Object.fromEntries(addresses.map((address) => [toWord(address), address.toLowerCase()]));
+    const touches: Record<string, WatchlistTouch[]> = {};
+
+    const touch = (address: string | undefined, path: string, kind: WatchlistTouchKind) => {
+        if (address === undefined) return;
+
+        if (!(address in touches)) touches[address] = [];
+        if (touches[address].some((v) => v.path === path && v.kind === kind)) return;
+
+        touches[address].push({ path, kind });
+    };
+    const watched = (address: string) => words[toWord(address)];
+
+    // logs are emitted by the contract whose context the code is running in, which isn't the callee for delegatecalls
+    const visit = (node: TraceEntry, context: string) => {
+        if (node.type === 'call') {
+            const nodeContext = node.variant === 'delegatecall' || node.variant === 'callcode' ? context : node.to;
+
+            touch(watched(node.from), node.path, 'caller');
+            touch(
+                watched(node.to),
+                node.path,
+                node.variant === 'create' || node.variant === 'create2' ? 'created' : 'callee',
+            );
+            calldataWords(node.input).forEach((word) => touch(words[word], node.path, 'calldata'));
+
+            node.children.forEach((child) => visit(child, nodeContext));
+        } else if (node.type === 'log') {
+            touch(watched(context), node.path, 'log-emitter');
+            node.topics
+                .slice(1)
+                .forEach((topic) => touch(words[topic.toLowerCase().replace(/^0x/, '')], node.path, 'log-topic'));
+        }
+    };
+    visit(entrypoint, entrypoint.to);
+
+    return touches;
+};
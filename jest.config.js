@@ -0,0 +1,13 @@
+const nextJest = require('next/jest');
+
+const createJestConfig = nextJest({
+    dir: './',
+});
+
+/** @type {import('jest').Config} */
+const customJestConfig = {
+    testEnvironment: 'node',
+    roots: ['<rootDir>/tests'],
+};
+
+module.exports = createJestConfig(customJestConfig);
@@ -1,33 +1,27 @@
 import * as React from 'react';
-import { ThemeProvider, Typography } from '@mui/material';
+import { ThemeProvider } from '@mui/material';
 import { Result, TraceMetadata } from '../../components/types';
-import { theme } from '../../components/helpers';
-import { precompiles } from '../../components/precompiles';
-import { ethers } from 'ethers';
+import { buildTraceMetadata, theme } from '../../components/helpers';
 import styles from '../../styles/Home.module.css';
 import { useRouter } from 'next/router';
 import { BaseProvider, JsonRpcProvider } from '@ethersproject/providers';
-import { TransactionInfo } from '../../components/transaction-info/TransactionInfo';
-import { DecodeTree } from '../../components/decoder/DecodeTree';
-import { ChainConfig, ChainConfigContext, defaultChainConfig, getChain } from '../../components/Chains';
+import { ChainConfig, defaultChainConfig, getChain } from '../../components/Chains';
 import Home from '../index';
-import { ValueChange } from '../../components/value-change/ValueChange';
+import { defaultPriceMetadata, fetchPrices, PriceMetadata } from '../../components/metadata/prices';
+import { defaultTokenMetadata, TokenMetadata } from '../../components/metadata/tokens';
+import { buildLabelMetadata, defaultLabelMetadata, LabelMetadata } from '../../components/metadata/labels';
+import { TransactionMetadata } from '../../components/metadata/transaction';
+import { TraceResponse } from '../../components/api';
+import { TransactionView } from '../../components/TransactionView';
+import { NATIVE_TOKEN } from '../../components/decoder/actions';
 import {
-    defaultPriceMetadata,
-    fetchDefiLlamaPrices,
-    PriceMetadata,
-    PriceMetadataContext,
-} from '../../components/metadata/prices';
-import {
-    defaultTokenMetadata,
-    fetchTokenMetadata,
-    TokenMetadata,
-    TokenMetadataContext,
-} from '../../components/metadata/tokens';
-import { TraceTree } from '../../components/trace/TraceTree';
-import { defaultLabelMetadata, LabelMetadata, LabelMetadataContext } from '../../components/metadata/labels';
-import { TransactionMetadata, TransactionMetadataContext } from '../../components/metadata/transaction';
-import { doApiRequest, TraceEntry, TraceResponse } from '../../components/api';
+    createPriceSource,
+    createTraceSource,
+    getChainSourceSettings,
+    getRpcUrl,
+    TraceSource,
+    TraceSourceContext,
+} from '../../components/sources';
 
 export default function TransactionViewer() {
     console.log('rendering main view');
@@ -37,6 +31,7 @@ export default function TransactionViewer() {
 
     const [chainConfig, setChainConfig] = React.useState<ChainConfig>(defaultChainConfig());
     const [provider, setProvider] = React.useState<BaseProvider>();
+    const [traceSource, setTraceSource] = React.useState<TraceSource>();
 
     const [transactionMetadata, setTransactionMetadata] = React.useState<Result<TransactionMetadata>>();
 
@@ -58,16 +53,23 @@ export default function TransactionViewer() {
 
         setChainConfig(chainConfig);
 
-        const provider = new JsonRpcProvider(chainConfig.rpcUrl);
+        const sourceSettings = getChainSourceSettings(chain);
+
+        const provider = new JsonRpcProvider(getRpcUrl(chainConfig, sourceSettings));
         setProvider(provider);
 
+        const traceSource = createTraceSource(chainConfig, sourceSettings);
+        setTraceSource(traceSource);
+
         setTokenMetadata({
             ...defaultTokenMetadata(),
             updater: setTokenMetadata,
         });
+        const priceSource = createPriceSource(provider, sourceSettings);
         setPriceMetadata({
             ...defaultPriceMetadata(),
             updater: setPriceMetadata,
+            source: priceSource,
         });
         setTraceResult(undefined);
         setTransactionMetadata(undefined);
@@ -85,7 +87,10 @@ export default function TransactionViewer() {
                         },
                     });
 
-                    fetchDefiLlamaPrices(setPriceMetadata, [chainConfig.coingeckoId], block.timestamp).catch((e) => {
+                    fetchPrices(setPriceMetadata, priceSource, chainConfig, [NATIVE_TOKEN], {
+                        timestamp: block.timestamp,
+                        blockNumber: block.number,
+                    }).catch((e) => {
                         console.log('failed to fetch price', e);
                     });
                 });
@@ -98,81 +103,14 @@ export default function TransactionViewer() {
                 console.log('failed to fetch transaction', e);
             });
 
-        doApiRequest<TraceResponse>(`/api/v1/trace/${chain}/${txhash}`)
+        traceSource
+            .getTrace(chain, txhash)
             .then((traceResponse) => {
                 console.log('loaded trace', traceResponse);
 
-                let labels: Record<string, string> = {};
-                let customLabels: Record<string, Record<string, string>> = {};
-                try {
-                    customLabels = JSON.parse(localStorage.getItem('pref:labels') || '{}');
-                } catch {}
-                if (!(chain in customLabels)) {
-                    customLabels[chain] = {};
-                }
-
-                for (let address of Object.keys(precompiles)) {
-                    labels[address] = 'Precompile';
-                }
-
-                let metadata: TraceMetadata = {
-                    abis: {},
-                    nodesByPath: {},
-                };
-
-                let preprocess = (node: TraceEntry) => {
-                    metadata.nodesByPath[node.path] = node;
-
-                    if (node.type === 'call') {
-                        node.children.forEach(preprocess);
-                    }
-                };
-                preprocess(traceResponse.entrypoint);
-
-                for (let [address, entries] of Object.entries(traceResponse.addresses)) {
-                    metadata.abis[address] = {};
-                    for (let [codehash, info] of Object.entries(entries)) {
-                        labels[address] = labels[address] || info.label;
-
-                        metadata.abis[address][codehash] = new ethers.utils.Interface([
-                            ...Object.values(info.functions),
-                            ...Object.values(info.events),
-                            ...Object.values(info.errors).filter(
-                                (v) =>
-                                    !(
-                                        // lmao wtf ethers
-                                        (
-                                            (v.name === 'Error' &&
-                                                v.inputs &&
-                                                v.inputs.length === 1 &&
-                                                v.inputs[0].type === 'string') ||
-                                            (v.name === 'Panic' &&
-                                                v.inputs &&
-                                                v.inputs.length === 1 &&
-                                                v.inputs[0].type === 'uint256')
-                                        )
-                                    ),
-                            ),
-                        ]);
-                    }
-                }
-
-                for (let address of Object.keys(labels)) {
-                    if (labels[address] === 'Vyper_contract') {
-                        labels[address] = `Vyper_contract (0x${address.substring(2, 6)}..${address.substring(38, 42)})`;
-                    }
-                }
-
-                Object.keys(labels).forEach((addr) => delete customLabels[chain][addr]);
-                localStorage.setItem('pref:labels', JSON.stringify(customLabels));
-
                 setTraceResult(traceResponse);
-                setTraceMetadata(metadata);
-                setLabelMetadata({
-                    updater: setLabelMetadata,
-                    labels: labels,
-                    customLabels: customLabels,
-                });
+                setTraceMetadata(buildTraceMetadata(traceResponse));
+                setLabelMetadata(buildLabelMetadata(chain, traceResponse, setLabelMetadata));
                 setTraceResponse({
                     ok: true,
                     result: traceResponse,
@@ -187,134 +125,24 @@ export default function TransactionViewer() {
             });
     }, [chain, txhash]);
 
-    let transactionInfoGrid;
-    if (transactionMetadata) {
-        if (transactionMetadata.ok) {
-            transactionInfoGrid = (
-                <TransactionMetadataContext.Provider value={transactionMetadata.result}>
-                    <ChainConfigContext.Provider value={chainConfig}>
-                        <LabelMetadataContext.Provider value={labelMetadata}>
-                            <PriceMetadataContext.Provider value={priceMetadata}>
-                                <TransactionInfo />
-                            </PriceMetadataContext.Provider>
-                        </LabelMetadataContext.Provider>
-                    </ChainConfigContext.Provider>
-                </TransactionMetadataContext.Provider>
-            );
-        } else {
-            transactionInfoGrid = <>Failed to fetch transaction: {transactionMetadata.error}</>;
-        }
-    }
-
-    let valueChanges;
-    if (transactionMetadata && traceResult && traceMetadata && provider) {
-        if (transactionMetadata.ok) {
-            valueChanges = (
-                <TransactionMetadataContext.Provider value={transactionMetadata.result}>
-                    <ChainConfigContext.Provider value={chainConfig}>
-                        <LabelMetadataContext.Provider value={labelMetadata}>
-                            <PriceMetadataContext.Provider value={priceMetadata}>
-                                <TokenMetadataContext.Provider value={tokenMetadata}>
-                                    <ValueChange
-                                        traceResult={traceResult}
-                                        traceMetadata={traceMetadata}
-                                        provider={provider}
-                                    />
-                                </TokenMetadataContext.Provider>
-                            </PriceMetadataContext.Provider>
-                        </LabelMetadataContext.Provider>
-                    </ChainConfigContext.Provider>
-                </TransactionMetadataContext.Provider>
-            );
-        } else {
-            transactionInfoGrid = <>Failed to fetch transaction or trace</>;
-        }
-    }
-
-    let transactionActions;
-    if (transactionMetadata && traceResult && traceMetadata && provider) {
-        if (transactionMetadata.ok) {
-            transactionActions = (
-                <TransactionMetadataContext.Provider value={transactionMetadata.result}>
-                    <ChainConfigContext.Provider value={chainConfig}>
-                        <LabelMetadataContext.Provider value={labelMetadata}>
-                            <PriceMetadataContext.Provider value={priceMetadata}>
-                                <TokenMetadataContext.Provider value={tokenMetadata}>
-                                    <DecodeTree
-                                        traceResult={traceResult}
-                                        traceMetadata={traceMetadata}
-                                        provider={provider}
-                                    />
-                                </TokenMetadataContext.Provider>
-                            </PriceMetadataContext.Provider>
-                        </LabelMetadataContext.Provider>
-                    </ChainConfigContext.Provider>
-                </TransactionMetadataContext.Provider>
-            );
-        } else {
-            transactionActions = <>Failed to fetch transaction</>;
-        }
-    }
-
-    let traceTree;
-    if (traceResult && traceMetadata) {
-        traceTree = (
-            <ChainConfigContext.Provider value={chainConfig}>
-                <LabelMetadataContext.Provider value={labelMetadata}>
-                    <TraceTree traceResult={traceResult} traceMetadata={traceMetadata} />
-                </LabelMetadataContext.Provider>
-            </ChainConfigContext.Provider>
-        );
-    }
-
     return (
         <ThemeProvider theme={theme}>
             <div className={styles.container}>
                 <Home />
 
-                <Typography variant={'h6'} className="dark:invert">
-                    Transaction Info
-                </Typography>
-                {transactionInfoGrid ? (
-                    <span className="dark:invert">{transactionInfoGrid}</span>
-                ) : (
-                    <Typography variant={'body1'} className="dark:invert">
-                        Loading...
-                    </Typography>
-                )}
-
-                <Typography variant={'h6'} className="dark:invert">
-                    Value Changes
-                </Typography>
-                {valueChanges ? (
-                    <span className="dark:invert">{valueChanges}</span>
-                ) : (
-                    <Typography variant={'body1'} className="dark:invert">
-                        Loading...
-                    </Typography>
-                )}
-
-                <Typography variant={'h6'} className="dark:invert">
-                    Decoded Actions
-                </Typography>
-                {transactionActions ? (
-                    <span className="dark:invert">{transactionActions}</span>
-                ) : (
-                    <Typography variant={'body1'} className="dark:invert">
-                        Loading...
-                    </Typography>
-                )}
-
-                <Typography variant={'h6'} className="dark:invert">
-                    Call Trace
-                </Typography>
-                {traceTree ? (
-                    <span className="dark:invert">{traceTree}</span>
-                ) : (
-                    <Typography variant={'body1'} className="dark:invert">
-                        Loading...
-                    </Typography>
-                )}
+                <TraceSourceContext.Provider value={traceSource || createTraceSource(chainConfig)}>
+                    <TransactionView
+                        chainConfig={chainConfig}
+                        provider={provider}
+                        transactionMetadata={transactionMetadata}
+                        traceResult={traceResult}
+                        traceMetadata={traceMetadata}
+                        traceError={traceResponse && !traceResponse.ok ? traceResponse.error : undefined}
+                        labelMetadata={labelMetadata}
+                        priceMetadata={priceMetadata}
+                        tokenMetadata={tokenMetadata}
+                    />
+                </TraceSourceContext.Provider>
             </div>
         </ThemeProvider>
     );
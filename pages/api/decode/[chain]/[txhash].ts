@@ -0,0 +1,110 @@
+import type { NextApiRequest, NextApiResponse } from 'next';
+import {
+    APIResponse,
+    DecodedActionResponse,
+    DecodeResponse,
+    doApiRequest,
+    TraceResponse,
+} from '../../../../components/api';
+import { decode, format, formatPlain } from '../../../../components/decoder/decoder';
+import { DecodeFormatOpts, DecoderOutput, isDecoderInput } from '../../../../components/decoder/types';
+import { renderActionText } from '../../../../components/decoder/text';
+import { defaultPriceMetadata } from '../../../../components/metadata/prices';
+import { defaultTokenMetadata } from '../../../../components/metadata/tokens';
+import { buildTraceMetadata } from '../../../../components/helpers';
+
+export const config = {
+    api: {
+        bodyParser: {
+            // traces for large transactions can easily be several megabytes
+            sizeLimit: '50mb',
+        },
+    },
+};
+
+const flattenActions = (output: DecoderOutput, opts: DecodeFormatOpts): DecodedActionResponse[] => {
+    const path = isDecoderInput(output.node) ? output.node.id : output.node.logIndex.toString();
+
+    return [
+        ...output.results.map((action) => {
+            const rendered = format(action, opts);
+
+            return {
+                path: path,
+                action: formatPlain(action),
+                rendered: rendered,
+                text: renderActionText(rendered),
+            };
+        }),
+        ...output.children.flatMap((child) => flattenActions(child, opts)),
+    ];
+};
+
+// decodes a trace on the server. GET fetches the trace from the backend, while POST accepts
+// a TraceResponse in the request body so that callers can decode traces offline
+export default async function handler(req: NextApiRequest, res: NextApiResponse<APIResponse<DecodeResponse>>) {
+    const { chain, txhash, timestamp } = req.query;
+    if (typeof chain !== 'string' || typeof txhash !== 'string') {
+        res.status(400).json({ ok: false, error: 'invalid chain or txhash' });
+        return;
+    }
+
+    // some actions are rendered relative to the block timestamp, which isn't part of the trace
+    const blockTimestamp = typeof timestamp === 'string' ? parseInt(timestamp) : Math.floor(Date.now() / 1000);
+    if (isNaN(blockTimestamp)) {
+        res.status(400).json({ ok: false, error: 'invalid timestamp' });
+        return;
+    }
+
+    let trace: TraceResponse;
+    if (req.method === 'POST') {
+        trace = req.body;
+        if (!trace || typeof trace !== 'object' || !trace.entrypoint || !trace.addresses) {
+            res.status(400).json({ ok: false, error: 'request body must be a trace response' });
+            return;
+        }
+        trace = {
+            ...trace,
+            chain: trace.chain || chain,
+            txhash: trace.txhash || txhash,
+        };
+    } else if (req.method === 'GET') {
+        try {
+            trace = await doApiRequest<TraceResponse>(`/api/v1/trace/${chain}/${txhash}`);
+        } catch (e) {
+            res.status(502).json({ ok: false, error: `failed to fetch trace: ${e}` });
+            return;
+        }
+    } else {
+        res.setHeader('Allow', 'GET, POST');
+        res.status(405).json({ ok: false, error: 'method not allowed' });
+        return;
+    }
+
+    try {
+        const [output, requestedMetadata, coverage] = decode(trace, buildTraceMetadata(trace));
+
+        res.status(200).json({
+            ok: true,
+            result: {
+                chain: trace.chain,
+                txhash: trace.txhash,
+                actions: flattenActions(output, {
+                    timestamp: blockTimestamp,
+                    chain: trace.chain,
+                    // token and price metadata isn't fetched on the server, so amounts are left unformatted
+                    prices: defaultPriceMetadata(),
+                    tokens: defaultTokenMetadata(),
+                }),
+                coverage: {
+                    total: coverage.total,
+                    unexplained: coverage.unexplained.map((v) => ({ type: v.type, path: v.path })),
+                },
+                tokens: Array.from(requestedMetadata.tokens),
+            },
+        });
+    } catch (e) {
+        console.log('failed to decode trace', e);
+        res.status(500).json({ ok: false, error: `failed to decode trace: ${e}` });
+    }
+}
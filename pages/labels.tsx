@@ -0,0 +1,18 @@
+import * as React from 'react';
+import { ThemeProvider } from '@mui/material';
+import { theme } from '../components/helpers';
+import styles from '../styles/Home.module.css';
+import Home from './index';
+import { LabelManager } from '../components/labels/LabelManager';
+
+export default function Labels() {
+    return (
+        <ThemeProvider theme={theme}>
+            <div className={styles.container}>
+                <Home />
+
+                <LabelManager />
+            </div>
+        </ThemeProvider>
+    );
+}
@@ -0,0 +1,91 @@
+import * as React from 'react';
+import { ThemeProvider, Typography } from '@mui/material';
+import { Result } from '../components/types';
+import { buildTraceMetadata, theme } from '../components/helpers';
+import styles from '../styles/Home.module.css';
+import { defaultChainConfig, getChain } from '../components/Chains';
+import Home from './index';
+import { defaultPriceMetadata } from '../components/metadata/prices';
+import { defaultTokenMetadata } from '../components/metadata/tokens';
+import { buildLabelMetadata, defaultLabelMetadata, LabelMetadata } from '../components/metadata/labels';
+import { TransactionMetadata } from '../components/metadata/transaction';
+import { TransactionView } from '../components/TransactionView';
+import { LocalTraceLoader } from '../components/local/LocalTraceLoader';
+import { LocalTraceFiles } from '../components/local/files';
+import { LocalTraceSource, rememberLocalTrace, TraceSourceContext } from '../components/sources';
+
+// views a trace which was saved to disk. nothing is fetched over the network, so token and price
+// metadata are never populated and amounts are shown unformatted
+export default function LocalTransactionViewer() {
+    console.log('rendering local view');
+
+    const [files, setFiles] = React.useState<LocalTraceFiles>({});
+    const [labelMetadata, setLabelMetadata] = React.useState<LabelMetadata>(defaultLabelMetadata());
+
+    // these never get an updater, so nothing will ever try to fetch them
+    const [priceMetadata] = React.useState(defaultPriceMetadata());
+    const [tokenMetadata] = React.useState(defaultTokenMetadata());
+    const [localTraceSource] = React.useState(new LocalTraceSource());
+
+    const { trace, transaction, receipt, block } = files;
+
+    const chainConfig = (trace && getChain(trace.chain)) || defaultChainConfig();
+
+    const traceMetadata = React.useMemo(() => {
+        return trace ? buildTraceMetadata(trace) : undefined;
+    }, [trace]);
+
+    React.useEffect(() => {
+        // so that the local trace source can find it if the user navigates to the transaction
+        if (trace) rememberLocalTrace(trace);
+
+        setLabelMetadata(trace ? buildLabelMetadata(chainConfig.id, trace, setLabelMetadata) : defaultLabelMetadata());
+    }, [trace, chainConfig.id]);
+
+    let transactionMetadata: Result<TransactionMetadata> | undefined;
+    if (trace) {
+        if (transaction && receipt && block) {
+            transactionMetadata = {
+                ok: true,
+                result: {
+                    transaction: transaction,
+                    receipt: receipt,
+                    block: block,
+                },
+            };
+        } else {
+            transactionMetadata = {
+                ok: false,
+                error: 'the transaction, receipt, and block are all required to show transaction info',
+            };
+        }
+    }
+
+    return (
+        <ThemeProvider theme={theme}>
+            <div className={styles.container}>
+                <Home />
+
+                <LocalTraceLoader files={files} onChange={setFiles} />
+
+                {trace ? (
+                    <TraceSourceContext.Provider value={localTraceSource}>
+                        <TransactionView
+                            chainConfig={chainConfig}
+                            transactionMetadata={transactionMetadata}
+                            traceResult={trace}
+                            traceMetadata={traceMetadata}
+                            labelMetadata={labelMetadata}
+                            priceMetadata={priceMetadata}
+                            tokenMetadata={tokenMetadata}
+                        />
+                    </TraceSourceContext.Provider>
+                ) : (
+                    <Typography variant={'body1'} className="dark:invert">
+                        Load a trace to get started
+                    </Typography>
+                )}
+            </div>
+        </ThemeProvider>
+    );
+}
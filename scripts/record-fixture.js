@@ -0,0 +1,82 @@
+// records transactions into tests/fixtures so they can be tested without network access. if no txhashes are given,
+// every transaction in tests.txt is recorded
+//
+// usage: RPC_URL=https://... node scripts/record-fixture.js <chain> [txhash...]
+
+const fs = require('fs');
+const path = require('path');
+const { ethers } = require('ethers');
+
+const apiEndpoint = process.env.NEXT_PUBLIC_API_HOST || 'https://tx.eth.samczsun.com';
+
+const readTestTransactions = () => {
+    return fs
+        .readFileSync(path.join(__dirname, '..', 'tests.txt'), 'utf-8')
+        .split('\n')
+        .map((line) => line.trim())
+        .filter((line) => /^0x[0-9a-fA-F]{64}$/.test(line));
+};
+
+const record = async (provider, chain, txhash) => {
+    const trace = await fetch(`${apiEndpoint}/api/v1/trace/${chain}/${txhash}`)
+        .then((res) => res.json())
+        .then((resp) => {
+            if (!resp.ok) throw new Error(resp.error);
+            return resp.result;
+        });
+
+    // store the raw json-rpc responses, the tests parse them the same way the provider does
+    const transaction = await provider.send('eth_getTransactionByHash', [txhash]);
+    const receipt = await provider.send('eth_getTransactionReceipt', [txhash]);
+    const block = await provider.send('eth_getBlockByHash', [transaction.blockHash, false]);
+
+    const dir = path.join(__dirname, '..', 'tests', 'fixtures', chain, txhash);
+    fs.mkdirSync(dir, { recursive: true });
+
+    const write = (name, value) =>
+        fs.writeFileSync(path.join(dir, `${name}.json`), JSON.stringify(value, null, 4) + '\n');
+
+    for (const [name, value] of Object.entries({ trace, transaction, receipt, block })) {
+        write(name, value);
+    }
+
+    // these are used to test building traces without the backend, but not every node supports the debug namespace
+    try {
+        const calls = await provider.send('debug_traceTransaction', [
+            txhash,
+            { tracer: 'callTracer', tracerConfig: { withLog: true } },
+        ]);
+        const prestate = await provider.send('debug_traceTransaction', [txhash, { tracer: 'prestateTracer' }]);
+        const structLogs = await provider.send('debug_traceTransaction', [
+            txhash,
+            { enableMemory: true, disableStorage: true },
+        ]);
+
+        write('debug_callTracer', calls);
+        write('debug_prestateTracer', prestate);
+        write('debug_structLogger', structLogs);
+    } catch (e) {
+        console.log(`not recording node traces, debug_traceTransaction failed: ${e.message}`);
+    }
+
+    console.log(`recorded ${chain} ${txhash} to ${dir}`);
+};
+
+const main = async () => {
+    const [chain, ...txhashes] = process.argv.slice(2);
+    if (!chain || !process.env.RPC_URL) {
+        console.error('usage: RPC_URL=https://... node scripts/record-fixture.js <chain> [txhash...]');
+        process.exit(1);
+    }
+
+    const provider = new ethers.providers.JsonRpcProvider(process.env.RPC_URL);
+
+    for (const txhash of txhashes.length > 0 ? txhashes : readTestTransactions()) {
+        await record(provider, chain, txhash);
+    }
+};
+
+main().catch((e) => {
+    console.error(e);
+    process.exit(1);
+});
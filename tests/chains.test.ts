@@ -0,0 +1,55 @@
+import { defaultChainConfig, newCustomChain, SupportedChains } from '../components/Chains';
+import { toDefiLlamaId, toDefiLlamaIds } from '../components/metadata/prices';
+import { NATIVE_TOKEN } from '../components/decoder/actions';
+
+describe('custom chains', () => {
+    const anvil = newCustomChain({
+        id: 'anvil',
+        rpcUrl: 'http://localhost:8545',
+        nativeSymbol: 'ETH',
+        blockexplorerUrl: 'http://localhost:5100/',
+    });
+
+    it('fills in defaults', () => {
+        expect(anvil).toMatchObject({
+            id: 'anvil',
+            displayName: 'anvil',
+            blockexplorerUrl: 'http://localhost:5100',
+            coingeckoId: undefined,
+            defillamaPrefix: undefined,
+        });
+    });
+
+    it('gives each chain its own native token address', () => {
+        const other = newCustomChain({ ...anvil, id: 'devnet' });
+
+        const addresses = [...SupportedChains, anvil, other].map((chain) => chain.nativeTokenAddress);
+        expect(new Set(addresses).size).toEqual(addresses.length);
+    });
+
+    it('rejects invalid or built in ids', () => {
+        expect(() => newCustomChain({ ...anvil, id: 'ethereum' })).toThrow('ethereum is already supported');
+        expect(() => newCustomChain({ ...anvil, id: 'My Chain' })).toThrow('chain id must only contain');
+    });
+
+    it('has no price ids without a price source', () => {
+        expect(toDefiLlamaId(anvil, NATIVE_TOKEN)).toBeUndefined();
+        expect(toDefiLlamaId(anvil, '0x4200000000000000000000000000000000000006')).toBeUndefined();
+        expect(toDefiLlamaIds(anvil, [NATIVE_TOKEN, '0x4200000000000000000000000000000000000006'])).toEqual([]);
+    });
+
+    it('uses the configured price source', () => {
+        const base = newCustomChain({
+            ...anvil,
+            id: 'base',
+            coingeckoId: 'coingecko:ethereum',
+            defillamaPrefix: 'base',
+        });
+
+        expect(toDefiLlamaIds(base, [base.nativeTokenAddress, '0x4200000000000000000000000000000000000006'])).toEqual([
+            'coingecko:ethereum',
+            'base:0x4200000000000000000000000000000000000006',
+        ]);
+        expect(toDefiLlamaIds(defaultChainConfig(), [NATIVE_TOKEN])).toEqual(['coingecko:ethereum']);
+    });
+});
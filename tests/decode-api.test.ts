@@ -0,0 +1,79 @@
+import type { NextApiRequest, NextApiResponse } from 'next';
+import { loadSyntheticFixture } from './fixtures';
+import { APIResponse, DecodeResponse } from '../components/api';
+import handler from '../pages/api/decode/[chain]/[txhash]';
+
+type DecodeApiResponse = APIResponse<DecodeResponse>;
+
+// calls the route the way next would, and returns whatever it responded with
+const callHandler = async (method: string, query: Record<string, string>, body?: unknown) => {
+    const response: { status?: number; body?: DecodeApiResponse; headers: Record<string, string> } = { headers: {} };
+
+    const req = { method, query, body } as unknown as NextApiRequest;
+    const res = {
+        status(code: number) {
+            response.status = code;
+            return this;
+        },
+        json(body: DecodeApiResponse) {
+            response.body = body;
+        },
+        setHeader(name: string, value: string) {
+            response.headers[name] = value;
+            return this;
+        },
+    } as unknown as NextApiResponse<DecodeApiResponse>;
+
+    await handler(req, res);
+    return response;
+};
+
+describe('decode api', () => {
+    const fixture = loadSyntheticFixture('contract-creation');
+    const query = { chain: fixture.chain, txhash: fixture.txhash };
+
+    it('decodes a trace which was posted to it', async () => {
+        const response = await callHandler('POST', { ...query, timestamp: '1660000000' }, fixture.trace);
+
+        expect(response.status).toEqual(200);
+        expect(response.body).toEqual({
+            ok: true,
+            result: {
+                chain: fixture.chain,
+                txhash: fixture.txhash,
+                actions: [
+                    {
+                        path: '0.2',
+                        action: expect.objectContaining({ type: 'erc20', amount: '1000000000000000000000' }),
+                        rendered: expect.anything(),
+                        text: expect.stringMatching(/^\[transfer\] amount=1000000000000000000000 /),
+                    },
+                ],
+                coverage: { total: 2, unexplained: [] },
+                tokens: ['0x8f7a45ebde059392e46a46dcc14ab24681a961ea'],
+            },
+        });
+    });
+
+    it('rejects bodies which are not traces', async () => {
+        const response = await callHandler('POST', query, { hello: 'world' });
+
+        expect(response.status).toEqual(400);
+        expect(response.body).toEqual({ ok: false, error: 'request body must be a trace response' });
+    });
+
+    it('rejects invalid timestamps', async () => {
+        const response = await callHandler('POST', { ...query, timestamp: 'yesterday' }, fixture.trace);
+
+        expect(response.status).toEqual(400);
+        expect(response.body).toEqual({ ok: false, error: 'invalid timestamp' });
+    });
+
+    it('only allows GET and POST', async () => {
+        const response = await callHandler('DELETE', query);
+
+        expect(response.status).toEqual(405);
+        expect(response.headers['Allow']).toEqual('GET, POST');
+        expect(response.body).toEqual({ ok: false, error: 'method not allowed' });
+    });
+});
@@ -0,0 +1,909 @@
+import { BigNumber, ethers } from 'ethers';
+import { makeCall, makeLog, makeTrace } from './fixtures';
+import { TraceEntry, TraceEntryCall } from '../components/api';
+import { buildTraceMetadata } from '../components/helpers';
+import { decode, format } from '../components/decoder/decoder';
+import {
+    BaseAction,
+    DecodeFormatOpts,
+    Decoder,
+    DecoderInput,
+    DecoderOutput,
+    DecoderState,
+} from '../components/decoder/types';
+import { DecoderRegistry } from '../components/decoder/registry';
+import { RenderedAction } from '../components/decoder/rendered';
+import { NATIVE_TOKEN } from '../components/decoder/actions';
+import { TransferDecoder } from '../components/decoder/fallback';
+import { renderActionText } from '../components/decoder/text';
+import { computeBalanceChanges } from '../components/value-change/ValueChange';
+import { defaultPriceMetadata } from '../components/metadata/prices';
+import { defaultTokenMetadata } from '../components/metadata/tokens';
+import { newCustomChain } from '../components/Chains';
+
+const USER = '0x1111111111111111111111111111111111111111';
+const RECIPIENT = '0x2222222222222222222222222222222222222222';
+const SPENDER = '0x3333333333333333333333333333333333333333';
+const TOKEN = '0x4444444444444444444444444444444444444444';
+const PAIR = '0x5555555555555555555555555555555555555555';
+const NFT = '0x6666666666666666666666666666666666666666';
+const MULTI_TOKEN = '0x7777777777777777777777777777777777777777';
+
+const USDC = '0xa0b86991c6218b36c1d19d4a2e9eb0ce3606eb48';
+const WETH = '0xc02aaa39b223fe8d0a0e5c4f27ead9083c756cc2';
+// the 0.05% USDC/WETH pool
+const V3_POOL = '0x88e6a0c2ddd26feeb64f039a2c41296fcb3f5640';
+const SWAP_ROUTER_02 = '0x68b3465833fb72a70ecdf485e0e4c7bd8665fc45';
+const UNIVERSAL_ROUTER = '0x3fc91a3afd70395cd496c647d5a6cc9d4b2b7fad';
+const V2_ROUTER = '0x7a250d5630b4cf539739df2c5dacb4c659f2488d';
+const V2_USDC_WETH = '0xb4e16d0168e52d35cacd2c6185b44281ec28c9dc';
+const PERMIT2 = '0x000000000022d473030f116ddee9f6b43ac78ba3';
+
+// addresses are replaced with these in the decoded text, so the expectations can be read
+const names: Record<string, string> = {
+    [USER]: 'user',
+    [RECIPIENT]: 'recipient',
+    [SPENDER]: 'spender',
+    [TOKEN]: 'token',
+    [PAIR]: 'pair',
+    [NFT]: 'nft',
+    [MULTI_TOKEN]: 'multi token',
+    [USDC]: 'usdc',
+    [WETH]: 'weth',
+    [V3_POOL]: 'pool',
+    [SWAP_ROUTER_02]: 'swap router',
+    [UNIVERSAL_ROUTER]: 'universal router',
+    [V2_ROUTER]: 'v2 router',
+    [V2_USDC_WETH]: 'usdc/weth pair',
+    [PERMIT2]: 'permit2',
+};
+
+const erc20Abi = [
+    'event Transfer(address indexed from, address indexed to, uint256 value)',
+    'event Approval(address indexed owner, address indexed spender, uint256 value)',
+];
+const abis = { [USDC]: erc20Abi, [WETH]: erc20Abi, [TOKEN]: erc20Abi, [PAIR]: erc20Abi };
+
+const formatOpts = (): DecodeFormatOpts => {
+    const tokens = defaultTokenMetadata();
+    tokens.tokens[USDC] = { symbol: 'USDC', decimals: 6 };
+    tokens.tokens[WETH] = { symbol: 'WETH', decimals: 18 };
+    tokens.tokens[TOKEN] = { symbol: 'TKN', decimals: 18 };
+    // nfts are shown by the name of their collection rather than its symbol
+    tokens.tokens[NFT] = { name: 'Cool Cats', symbol: 'COOL', isNft: true };
+
+    return {
+        timestamp: 1660000000,
+        chain: 'ethereum',
+        prices: defaultPriceMetadata(),
+        tokens: tokens,
+    };
+};
+
+const encodeCall = (signature: string, args: any[]): string => {
+    const abi = new ethers.utils.Interface([`function ${signature}`]);
+    return abi.encodeFunctionData(abi.fragments[0].name, args);
+};
+
+const encodeResult = (signature: string, values: any[]): string => {
+    const abi = new ethers.utils.Interface([`function ${signature}`]);
+    return abi.encodeFunctionResult(abi.fragments[0].name, values);
+};
+
+const makeEvent = (path: string, signature: string, args: any[]): TraceEntry => {
+    const abi = new ethers.utils.Interface([`event ${signature}`]);
+    return makeLog(path, abi.encodeEventLog(abi.getEvent(abi.fragments[0].name), args));
+};
+
+const transferEvent = (path: string, from: string, to: string, amount: BigNumber) =>
+    makeEvent(path, 'Transfer(address indexed from, address indexed to, uint256 value)', [from, to, amount]);
+
+const v3SwapEvent = (path: string, sender: string, recipient: string, amount0: BigNumber, amount1: BigNumber) =>
+    makeEvent(
+        path,
+        'Swap(address indexed sender, address indexed recipient, int256 amount0, int256 amount1, uint160 sqrtPriceX96, uint128 liquidity, int24 tick)',
+        [sender, recipient, amount0, amount1, 0, 0, 0],
+    );
+
+// decodes the trace and returns the text of every action, along with the paths of anything which wasn't explained
+const decodeActions = (entrypoint: TraceEntryCall, options: { registry?: DecoderRegistry; chain?: string } = {}) => {
+    const trace = { ...makeTrace(entrypoint, abis), chain: options.chain || 'ethereum' };
+    const [output, , coverage] = decode(trace, buildTraceMetadata(trace), options.registry);
+
+    const opts = formatOpts();
+    const flatten = (output: DecoderOutput): string[] => [
+        ...output.results.map((action) =>
+            renderActionText(format(action, opts)).replace(
+                /0x[0-9a-fA-F]{40}/g,
+                (address) => names[address.toLowerCase()] || address,
+            ),
+        ),
+        ...output.children.flatMap(flatten),
+    ];
+
+    return {
+        actions: flatten(output),
+        unexplained: coverage.unexplained.map((node) => node.path),
+    };
+};
+
+const usdc = (amount: string) => ethers.utils.parseUnits(amount, 6);
+const ether = (amount: string) => ethers.utils.parseEther(amount);
+
+describe('token amounts', () => {
+    const formatNativeTransfer = (amount: string) => {
+        const decoder = new TransferDecoder();
+        const rendered = decoder.format(
+            {
+                type: decoder.name,
+                operator: USER,
+                from: USER,
+                to: RECIPIENT,
+                token: NATIVE_TOKEN,
+                amount: BigNumber.from(amount),
+            },
+            formatOpts(),
+        );
+        return renderActionText(rendered).split(',')[0];
+    };
+
+    it('shows tiny native token amounts in wei or gwei', () => {
+        expect(formatNativeTransfer('10000')).toEqual('[transfer] amount=10000 wei');
+        expect(formatNativeTransfer('20000000000')).toEqual('[transfer] amount=20.0 gwei');
+        expect(formatNativeTransfer('1500000000000000000')).toEqual('[transfer] amount=1.5 ETH');
+    });
+});
+
+describe('reverted calls', () => {
+    const transfer = (status: number) =>
+        makeCall('0', { from: USER, to: RECIPIENT, value: ether('1').toString() }, [
+            makeCall(
+                '0.0',
+                {
+                    from: RECIPIENT,
+                    to: USDC,
+                    input: encodeCall('transfer(address,uint256)', [SPENDER, usdc('5')]),
+                    status: status,
+                },
+                [transferEvent('0.0.0', RECIPIENT, SPENDER, usdc('5'))],
+            ),
+        ]);
+
+    it("doesn't decode anything a reverted call did", () => {
+        expect(decodeActions(transfer(1)).actions).toEqual([
+            '[transfer] amount=1.0 ETH, from=user, to=recipient, operator=user',
+            '[transfer] amount=5.0 USDC, from=recipient, to=spender, operator=recipient',
+        ]);
+        expect(decodeActions(transfer(0)).actions).toEqual([
+            '[transfer] amount=1.0 ETH, from=user, to=recipient, operator=user',
+        ]);
+    });
+});
+
+describe('broken decoders', () => {
+    class ThrowingDecoder extends Decoder<BaseAction> {
+        constructor() {
+            super('throwing');
+        }
+
+        decodeCall(state: DecoderState, node: DecoderInput): BaseAction | null {
+            throw new Error('failed to decode');
+        }
+
+        format(result: BaseAction): RenderedAction {
+            throw new Error('nothing to format');
+        }
+    }
+
+    it('skips decoders which throw', () => {
+        const registry = new DecoderRegistry();
+        registry.register(new ThrowingDecoder());
+        registry.register(new TransferDecoder());
+
+        const log = jest.spyOn(console, 'log').mockImplementation(() => {});
+        try {
+            expect(
+                decodeActions(makeCall('0', { from: USER, to: RECIPIENT, value: ether('1').toString() }), { registry }),
+            ).toEqual({
+                actions: ['[transfer] amount=1.0 ETH, from=user, to=recipient, operator=user'],
+                unexplained: [],
+            });
+            expect(log).toHaveBeenCalledWith(
+                'decoder failed to decode call',
+                'throwing',
+                expect.anything(),
+                expect.any(Error),
+            );
+        } finally {
+            log.mockRestore();
+        }
+    });
+});
+
+describe('uniswap v3 router', () => {
+    it('decodes a single pool swap and everything the pool did', () => {
+        const entrypoint = makeCall(
+            '0',
+            {
+                from: USER,
+                to: SWAP_ROUTER_02,
+                input: encodeCall(
+                    'exactInputSingle((address,address,uint24,address,uint256,uint256,uint160))',
+                    // the recipient is the msg.sender sentinel
+                    [[USDC, WETH, 500, '0x0000000000000000000000000000000000000001', usdc('1000'), ether('0.49'), 0]],
+                ),
+                output: encodeResult('exactInputSingle() returns (uint256)', [ether('0.5')]),
+            },
+            [
+                makeCall(
+                    '0.0',
+                    {
+                        from: SWAP_ROUTER_02,
+                        to: V3_POOL,
+                        input: encodeCall('swap(address,bool,int256,uint160,bytes)', [
+                            USER,
+                            true,
+                            usdc('1000'),
+                            0,
+                            '0x',
+                        ]),
+                    },
+                    [
+                        makeCall(
+                            '0.0.0',
+                            {
+                                from: V3_POOL,
+                                to: WETH,
+                                input: encodeCall('transfer(address,uint256)', [USER, ether('0.5')]),
+                            },
+                            [transferEvent('0.0.0.0', V3_POOL, USER, ether('0.5'))],
+                        ),
+                        makeCall('0.0.1', {
+                            variant: 'staticcall',
+                            from: V3_POOL,
+                            to: USDC,
+                            input: encodeCall('balanceOf(address)', [V3_POOL]),
+                        }),
+                        makeCall(
+                            '0.0.2',
+                            {
+                                from: V3_POOL,
+                                to: SWAP_ROUTER_02,
+                                input: encodeCall('uniswapV3SwapCallback(int256,int256,bytes)', [
+                                    usdc('1000'),
+                                    ether('-0.5'),
+                                    '0x',
+                                ]),
+                            },
+                            [
+                                makeCall(
+                                    '0.0.2.0',
+                                    {
+                                        from: SWAP_ROUTER_02,
+                                        to: USDC,
+                                        input: encodeCall('transferFrom(address,address,uint256)', [
+                                            USER,
+                                            V3_POOL,
+                                            usdc('1000'),
+                                        ]),
+                                    },
+                                    [transferEvent('0.0.2.0.0', USER, V3_POOL, usdc('1000'))],
+                                ),
+                            ],
+                        ),
+                        v3SwapEvent('0.0.3', SWAP_ROUTER_02, USER, usdc('1000'), ether('-0.5')),
+                    ],
+                ),
+            ],
+        );
+
+        expect(decodeActions(entrypoint)).toEqual({
+            actions: ['[swap] tokenIn=1000.0 USDC, amountOut=0.5 WETH, recipient=user, actor=user'],
+            unexplained: [],
+        });
+    });
+});
+
+describe('universal router', () => {
+    it('decodes each command and the calls it made', () => {
+        const commands = [
+            // WRAP_ETH into the router
+            ethers.utils.defaultAbiCoder.encode(
+                ['address', 'uint256'],
+                ['0x0000000000000000000000000000000000000002', ether('1')],
+            ),
+            // V3_SWAP_EXACT_IN paid by the router and sent to msg.sender
+            ethers.utils.defaultAbiCoder.encode(
+                ['address', 'uint256', 'uint256', 'bytes', 'bool'],
+                [
+                    '0x0000000000000000000000000000000000000001',
+                    ether('1'),
+                    usdc('1900'),
+                    ethers.utils.solidityPack(['address', 'uint24', 'address'], [WETH, 500, USDC]),
+                    false,
+                ],
+            ),
+        ];
+
+        const entrypoint = makeCall(
+            '0',
+            {
+                from: USER,
+                to: UNIVERSAL_ROUTER,
+                value: ether('1').toString(),
+                input: encodeCall('execute(bytes,bytes[],uint256)', ['0x0b00', commands, 1700000000]),
+            },
+            [
+                makeCall(
+                    '0.0',
+                    {
+                        from: UNIVERSAL_ROUTER,
+                        to: WETH,
+                        value: ether('1').toString(),
+                        input: encodeCall('deposit()', []),
+                    },
+                    [makeEvent('0.0.0', 'Deposit(address indexed dst, uint256 wad)', [UNIVERSAL_ROUTER, ether('1')])],
+                ),
+                makeCall(
+                    '0.1',
+                    {
+                        from: UNIVERSAL_ROUTER,
+                        to: V3_POOL,
+                        input: encodeCall('swap(address,bool,int256,uint160,bytes)', [
+                            USER,
+                            false,
+                            ether('1'),
+                            0,
+                            '0x',
+                        ]),
+                    },
+                    [
+                        makeCall(
+                            '0.1.0',
+                            {
+                                from: V3_POOL,
+                                to: USDC,
+                                input: encodeCall('transfer(address,uint256)', [USER, usdc('2000')]),
+                            },
+                            [transferEvent('0.1.0.0', V3_POOL, USER, usdc('2000'))],
+                        ),
+                        makeCall(
+                            '0.1.1',
+                            {
+                                from: V3_POOL,
+                                to: UNIVERSAL_ROUTER,
+                                input: encodeCall('uniswapV3SwapCallback(int256,int256,bytes)', [
+                                    usdc('-2000'),
+                                    ether('1'),
+                                    '0x',
+                                ]),
+                            },
+                            [
+                                makeCall(
+                                    '0.1.1.0',
+                                    {
+                                        from: UNIVERSAL_ROUTER,
+                                        to: WETH,
+                                        input: encodeCall('transfer(address,uint256)', [V3_POOL, ether('1')]),
+                                    },
+                                    [transferEvent('0.1.1.0.0', UNIVERSAL_ROUTER, V3_POOL, ether('1'))],
+                                ),
+                            ],
+                        ),
+                        v3SwapEvent('0.1.2', UNIVERSAL_ROUTER, USER, usdc('-2000'), ether('1')),
+                    ],
+                ),
+            ],
+        );
+
+        expect(decodeActions(entrypoint)).toEqual({
+            actions: [
+                [
+                    '[execute] commands=2, actor=user',
+                    '  [wrap] amount=1.0 WETH, recipient=universal router, operator=user',
+                    '  [swap] tokenIn=1.0 WETH, amountOut=2000.0 USDC, recipient=user, actor=user',
+                ].join('\n'),
+            ],
+            unexplained: [],
+        });
+    });
+
+    it('only lets a command take the calls which directly follow the previous command', () => {
+        const commands = [
+            // V2_SWAP_EXACT_IN which an earlier swap already paid the pair for
+            ethers.utils.defaultAbiCoder.encode(
+                ['address', 'uint256', 'uint256', 'address[]', 'bool'],
+                ['0x0000000000000000000000000000000000000001', ether('1'), usdc('1900'), [WETH, USDC], false],
+            ),
+            // PAY_PORTION of 1% of the router's WETH
+            ethers.utils.defaultAbiCoder.encode(['address', 'address', 'uint256'], [WETH, RECIPIENT, 100]),
+        ];
+
+        const entrypoint = makeCall(
+            '0',
+            {
+                from: USER,
+                to: UNIVERSAL_ROUTER,
+                input: encodeCall('execute(bytes,bytes[],uint256)', ['0x0806', commands, 1700000000]),
+            },
+            [
+                makeCall(
+                    '0.0',
+                    {
+                        from: UNIVERSAL_ROUTER,
+                        to: V2_USDC_WETH,
+                        input: encodeCall('swap(uint256,uint256,address,bytes)', [usdc('2000'), 0, USER, '0x']),
+                    },
+                    [
+                        makeCall(
+                            '0.0.0',
+                            {
+                                from: V2_USDC_WETH,
+                                to: USDC,
+                                input: encodeCall('transfer(address,uint256)', [USER, usdc('2000')]),
+                            },
+                            [transferEvent('0.0.0.0', V2_USDC_WETH, USER, usdc('2000'))],
+                        ),
+                        makeEvent(
+                            '0.0.1',
+                            'Swap(address indexed sender, uint amount0In, uint amount1In, uint amount0Out, uint amount1Out, address indexed to)',
+                            [UNIVERSAL_ROUTER, 0, ether('1'), usdc('2000'), 0, USER],
+                        ),
+                    ],
+                ),
+                makeCall(
+                    '0.1',
+                    {
+                        from: UNIVERSAL_ROUTER,
+                        to: WETH,
+                        input: encodeCall('transfer(address,uint256)', [RECIPIENT, ether('0.01')]),
+                    },
+                    [transferEvent('0.1.0', UNIVERSAL_ROUTER, RECIPIENT, ether('0.01'))],
+                ),
+            ],
+        );
+
+        expect(decodeActions(entrypoint)).toEqual({
+            actions: [
+                [
+                    '[execute] commands=2, actor=user',
+                    '  [swap] tokenIn=1.0 WETH, amountOut=2000.0 USDC, recipient=user, actor=user',
+                    '  [pay portion] amount=0.01 WETH, recipient=recipient, operator=user',
+                ].join('\n'),
+            ],
+            unexplained: [],
+        });
+    });
+
+    it('stops decoding at the first command it does not know', () => {
+        const commands = [
+            // PERMIT2_TRANSFER_FROM isn't decoded, so nothing after it can be either
+            ethers.utils.defaultAbiCoder.encode(
+                ['address', 'address', 'uint160'],
+                [WETH, UNIVERSAL_ROUTER, ether('1')],
+            ),
+            // UNWRAP_WETH to msg.sender
+            ethers.utils.defaultAbiCoder.encode(
+                ['address', 'uint256'],
+                ['0x0000000000000000000000000000000000000001', ether('1')],
+            ),
+        ];
+
+        const entrypoint = makeCall(
+            '0',
+            {
+                from: USER,
+                to: UNIVERSAL_ROUTER,
+                input: encodeCall('execute(bytes,bytes[],uint256)', ['0x020c', commands, 1700000000]),
+            },
+            [
+                makeCall('0.0', {
+                    from: UNIVERSAL_ROUTER,
+                    to: PERMIT2,
+                    input: encodeCall('transferFrom(address,address,uint160,address)', [
+                        USER,
+                        UNIVERSAL_ROUTER,
+                        ether('1'),
+                        WETH,
+                    ]),
+                }),
+                makeCall('0.1', {
+                    from: UNIVERSAL_ROUTER,
+                    to: WETH,
+                    input: encodeCall('withdraw(uint256)', [ether('1')]),
+                }),
+            ],
+        );
+
+        // the calls are left to the other decoders
+        expect(decodeActions(entrypoint)).toEqual({
+            actions: [
+                '[execute] commands=0, actor=user',
+                '[unwrap] amount=1.0 ETH, token=weth, account=universal router',
+            ],
+            unexplained: ['0.0'],
+        });
+    });
+});
+
+describe('uniswap v2 liquidity', () => {
+    it('decodes adding liquidity with eth', () => {
+        const entrypoint = makeCall(
+            '0',
+            {
+                from: USER,
+                to: V2_ROUTER,
+                value: ether('1').toString(),
+                input: encodeCall('addLiquidityETH(address,uint256,uint256,uint256,address,uint256)', [
+                    TOKEN,
+                    ether('100'),
+                    ether('99'),
+                    ether('0.99'),
+                    USER,
+                    1700000000,
+                ]),
+                output: encodeResult('addLiquidityETH() returns (uint256,uint256,uint256)', [
+                    ether('100'),
+                    ether('1'),
+                    ether('10'),
+                ]),
+            },
+            [
+                makeCall(
+                    '0.0',
+                    {
+                        from: V2_ROUTER,
+                        to: TOKEN,
+                        input: encodeCall('transferFrom(address,address,uint256)', [USER, PAIR, ether('100')]),
+                    },
+                    [transferEvent('0.0.0', USER, PAIR, ether('100'))],
+                ),
+                makeCall(
+                    '0.1',
+                    { from: V2_ROUTER, to: WETH, value: ether('1').toString(), input: encodeCall('deposit()', []) },
+                    [makeEvent('0.1.0', 'Deposit(address indexed dst, uint256 wad)', [V2_ROUTER, ether('1')])],
+                ),
+                makeCall(
+                    '0.2',
+                    {
+                        from: V2_ROUTER,
+                        to: WETH,
+                        input: encodeCall('transfer(address,uint256)', [PAIR, ether('1')]),
+                    },
+                    [transferEvent('0.2.0', V2_ROUTER, PAIR, ether('1'))],
+                ),
+                makeCall('0.3', { from: V2_ROUTER, to: PAIR, input: encodeCall('mint(address)', [USER]) }, [
+                    transferEvent('0.3.0', ethers.constants.AddressZero, USER, ether('10')),
+                    makeEvent('0.3.1', 'Mint(address indexed sender, uint256 amount0, uint256 amount1)', [
+                        V2_ROUTER,
+                        ether('100'),
+                        ether('1'),
+                    ]),
+                ]),
+            ],
+        );
+
+        expect(decodeActions(entrypoint)).toEqual({
+            actions: [
+                '[add liquidity] tokenA=100.0 TKN, tokenB=1.0 ETH, liquidity=10000000000000000000 pair, recipient=user, actor=user',
+            ],
+            unexplained: [],
+        });
+    });
+    it('works out the pair when the trace has no calls to it', () => {
+        const removeLiquidity = makeCall('0', {
+            from: USER,
+            to: V2_ROUTER,
+            input: encodeCall('removeLiquidity(address,address,uint256,uint256,uint256,address,uint256)', [
+                USDC,
+                WETH,
+                ether('1'),
+                usdc('100'),
+                ether('0.05'),
+                USER,
+                1700000000,
+            ]),
+            output: encodeResult('removeLiquidity() returns (uint256,uint256)', [usdc('100'), ether('0.05')]),
+        });
+        const addLiquidityEth = makeCall('0', {
+            from: USER,
+            to: V2_ROUTER,
+            value: ether('0.05').toString(),
+            input: encodeCall('addLiquidityETH(address,uint256,uint256,uint256,address,uint256)', [
+                USDC,
+                usdc('100'),
+                usdc('99'),
+                ether('0.049'),
+                USER,
+                1700000000,
+            ]),
+            output: encodeResult('addLiquidityETH() returns (uint256,uint256,uint256)', [
+                usdc('100'),
+                ether('0.05'),
+                ether('1'),
+            ]),
+        });
+
+        expect(decodeActions(removeLiquidity).actions).toEqual([
+            '[remove liquidity] tokenA=100.0 USDC, tokenB=0.05 WETH, liquidity=1000000000000000000 usdc/weth pair, recipient=user, actor=user',
+        ]);
+        expect(decodeActions(addLiquidityEth).actions).toEqual([
+            '[add liquidity] tokenA=100.0 USDC, tokenB=0.05 ETH, liquidity=1000000000000000000 usdc/weth pair, recipient=user, actor=user',
+        ]);
+    });
+});
+
+describe('wrapped native token', () => {
+    it('decodes deposits made by sending eth', () => {
+        const entrypoint = makeCall('0', { from: USER, to: WETH, value: ether('1').toString() }, [
+            makeEvent('0.0', 'Deposit(address indexed dst, uint256 wad)', [USER, ether('1')]),
+        ]);
+
+        expect(decodeActions(entrypoint)).toEqual({
+            actions: ['[wrap] amount=1.0 ETH, token=weth, account=user'],
+            unexplained: [],
+        });
+    });
+
+    it('decodes withdrawals', () => {
+        const entrypoint = makeCall(
+            '0',
+            { from: USER, to: WETH, input: encodeCall('withdraw(uint256)', [ether('1')]) },
+            [
+                makeCall('0.0', { from: WETH, to: USER, value: ether('1').toString() }),
+                makeEvent('0.1', 'Withdrawal(address indexed src, uint256 wad)', [USER, ether('1')]),
+            ],
+        );
+
+        expect(decodeActions(entrypoint)).toEqual({
+            actions: ['[unwrap] amount=1.0 ETH, token=weth, account=user'],
+            unexplained: [],
+        });
+    });
+
+    it('leaves what the account did with the unwrapped eth to other decoders', () => {
+        const entrypoint = makeCall(
+            '0',
+            { from: USER, to: WETH, input: encodeCall('withdraw(uint256)', [ether('1')]) },
+            [
+                makeCall('0.0', { from: WETH, to: USER, value: ether('1').toString() }, [
+                    makeCall(
+                        '0.0.0',
+                        {
+                            from: USER,
+                            to: USDC,
+                            input: encodeCall('transfer(address,uint256)', [RECIPIENT, usdc('5')]),
+                        },
+                        [transferEvent('0.0.0.0', USER, RECIPIENT, usdc('5'))],
+                    ),
+                ]),
+                makeEvent('0.1', 'Withdrawal(address indexed src, uint256 wad)', [USER, ether('1')]),
+            ],
+        );
+
+        expect(decodeActions(entrypoint)).toEqual({
+            actions: [
+                '[unwrap] amount=1.0 ETH, token=weth, account=user',
+                '[transfer] amount=5.0 USDC, from=user, to=recipient, operator=user',
+            ],
+            unexplained: [],
+        });
+    });
+
+    it('only decodes the wrapped native token of the chain being decoded', () => {
+        const WRAPPED = '0x8888888888888888888888888888888888888888';
+        const devnet = newCustomChain({
+            id: 'devnet',
+            rpcUrl: 'http://localhost:8545',
+            nativeSymbol: 'ETH',
+            blockexplorerUrl: 'http://localhost:5100',
+            wrappedNativeTokenAddress: WRAPPED,
+        });
+        // chains without a wrapped native token don't have anything to wrap
+        const testnet = newCustomChain({
+            id: 'testnet',
+            rpcUrl: 'http://localhost:8546',
+            nativeSymbol: 'ETH',
+            blockexplorerUrl: 'http://localhost:5101',
+        });
+        const deposit = (token: string) =>
+            makeCall('0', { from: USER, to: token, value: ether('1').toString(), input: encodeCall('deposit()', []) });
+
+        const originalWindow = global.window;
+        global.window = { localStorage: { getItem: () => JSON.stringify([devnet, testnet]) } } as unknown as Window &
+            typeof globalThis;
+        try {
+            expect(decodeActions(deposit(WRAPPED), { chain: 'devnet' }).actions).toEqual([
+                '[wrap] amount=1.0 ETH, token=0x8888888888888888888888888888888888888888, account=user',
+            ]);
+            expect(decodeActions(deposit(WETH), { chain: 'devnet' }).actions).toEqual([
+                '[transfer] amount=1.0 ETH, from=user, to=weth, operator=user',
+            ]);
+            expect(decodeActions(deposit(WRAPPED)).actions).toEqual([
+                '[transfer] amount=1.0 ETH, from=user, to=0x8888888888888888888888888888888888888888, operator=user',
+            ]);
+            expect(
+                decodeActions(
+                    makeCall('0', { from: USER, to: ethers.constants.AddressZero, value: ether('1').toString() }),
+                    {
+                        chain: 'testnet',
+                    },
+                ).actions,
+            ).toEqual([
+                '[transfer] amount=1.0 ETH, from=user, to=0x0000000000000000000000000000000000000000, operator=user',
+            ]);
+        } finally {
+            global.window = originalWindow;
+        }
+    });
+});
+
+describe('nfts', () => {
+    const erc721Transfer = makeCall(
+        '0',
+        {
+            from: USER,
+            to: NFT,
+            input: encodeCall('safeTransferFrom(address,address,uint256)', [USER, RECIPIENT, 7]),
+        },
+        [
+            makeEvent('0.0', 'Transfer(address indexed from, address indexed to, uint256 indexed tokenId)', [
+                USER,
+                RECIPIENT,
+                7,
+            ]),
+        ],
+    );
+
+    const erc1155Transfer = makeCall(
+        '0',
+        {
+            from: USER,
+            to: MULTI_TOKEN,
+            input: encodeCall('safeTransferFrom(address,address,uint256,uint256,bytes)', [USER, RECIPIENT, 3, 5, '0x']),
+        },
+        [
+            makeEvent(
+                '0.0',
+                'TransferSingle(address indexed operator, address indexed from, address indexed to, uint256 id, uint256 value)',
+                [USER, USER, RECIPIENT, 3, 5],
+            ),
+        ],
+    );
+
+    it('decodes erc721 and erc1155 transfers', () => {
+        expect(decodeActions(erc721Transfer)).toEqual({
+            actions: ['[transfer nft] token=Cool Cats#7, from=user, to=recipient, operator=user'],
+            unexplained: [],
+        });
+        expect(decodeActions(erc1155Transfer)).toEqual({
+            actions: ['[transfer nft] token=5 × multi token#3, from=user, to=recipient, operator=user'],
+            unexplained: [],
+        });
+    });
+
+    it('tracks value changes per token id', () => {
+        const changes = (entrypoint: TraceEntryCall) => {
+            const trace = makeTrace(entrypoint);
+            return computeBalanceChanges(trace.entrypoint, buildTraceMetadata(trace))[0];
+        };
+
+        expect(changes(erc721Transfer)).toEqual({
+            [USER]: { [`${NFT}#7`]: -1n },
+            [RECIPIENT]: { [`${NFT}#7`]: 1n },
+        });
+        expect(changes(erc1155Transfer)).toEqual({
+            [USER]: { [`${MULTI_TOKEN}#3`]: -5n },
+            [RECIPIENT]: { [`${MULTI_TOKEN}#3`]: 5n },
+        });
+    });
+});
+
+describe('approvals', () => {
+    const approvalEvent = (path: string, owner: string, amount: BigNumber) =>
+        makeEvent(path, 'Approval(address indexed owner, address indexed spender, uint256 value)', [
+            owner,
+            SPENDER,
+            amount,
+        ]);
+
+    it('decodes unlimited approvals', () => {
+        const entrypoint = makeCall(
+            '0',
+            {
+                from: USER,
+                to: USDC,
+                input: encodeCall('approve(address,uint256)', [SPENDER, ethers.constants.MaxUint256]),
+            },
+            [approvalEvent('0.0', USER, ethers.constants.MaxUint256)],
+        );
+
+        expect(decodeActions(entrypoint)).toEqual({
+            actions: ['[approve] amount=unlimited USDC, spender=spender, owner=user'],
+            unexplained: [],
+        });
+    });
+
+    it('decodes permits submitted by someone else', () => {
+        const entrypoint = makeCall(
+            '0',
+            {
+                from: RECIPIENT,
+                to: USDC,
+                input: encodeCall('permit(address,address,uint256,uint256,uint8,bytes32,bytes32)', [
+                    USER,
+                    SPENDER,
+                    usdc('100'),
+                    1700000000,
+                    27,
+                    ethers.constants.HashZero,
+                    ethers.constants.HashZero,
+                ]),
+            },
+            [approvalEvent('0.0', USER, usdc('100'))],
+        );
+
+        expect(decodeActions(entrypoint)).toEqual({
+            actions: [
+                '[approve] amount=100.0 USDC, spender=spender, owner=user, deadline=2023-11-14 22:13:20 UTC, operator=recipient',
+            ],
+            unexplained: [],
+        });
+    });
+
+    it('decodes permits which never expire', () => {
+        const permit = (deadline: BigNumber) =>
+            makeCall(
+                '0',
+                {
+                    from: USER,
+                    to: USDC,
+                    input: encodeCall('permit(address,address,uint256,uint256,uint8,bytes32,bytes32)', [
+                        USER,
+                        SPENDER,
+                        usdc('100'),
+                        deadline,
+                        27,
+                        ethers.constants.HashZero,
+                        ethers.constants.HashZero,
+                    ]),
+                },
+                [approvalEvent('0.0', USER, usdc('100'))],
+            );
+
+        expect(decodeActions(permit(ethers.constants.MaxUint256)).actions).toEqual([
+            '[approve] amount=100.0 USDC, spender=spender, owner=user, deadline=never',
+        ]);
+        expect(decodeActions(permit(BigNumber.from(2).pow(64))).actions).toEqual([
+            '[approve] amount=100.0 USDC, spender=spender, owner=user, deadline=18446744073709551616',
+        ]);
+    });
+
+    it('decodes permit2 approvals', () => {
+        const entrypoint = makeCall(
+            '0',
+            {
+                from: USER,
+                to: PERMIT2,
+                input: encodeCall('approve(address,address,uint160,uint48)', [
+                    USDC,
+                    SPENDER,
+                    BigNumber.from(2).pow(160).sub(1),
+                    1700000000,
+                ]),
+            },
+            [
+                makeEvent(
+                    '0.0',
+                    'Approval(address indexed owner, address indexed token, address indexed spender, uint160 amount, uint48 expiration)',
+                    [USER, USDC, SPENDER, BigNumber.from(2).pow(160).sub(1), 1700000000],
+                ),
+            ],
+        );
+
+        expect(decodeActions(entrypoint)).toEqual({
+            actions: ['[approve] amount=unlimited USDC, spender=spender, owner=user, expiry=2023-11-14 22:13:20 UTC'],
+            unexplained: [],
+        });
+    });
+});
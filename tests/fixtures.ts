@@ -0,0 +1,180 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import { ethers } from 'ethers';
+import { Block, TransactionReceipt, TransactionResponse } from '@ethersproject/abstract-provider';
+import { TraceEntry, TraceEntryCall, TraceEntryLog, TraceEntrySload, TraceResponse } from '../components/api';
+import { NodeTraces } from '../components/trace/node-trace';
+
+// recorded fixtures live in tests/fixtures/<chain>/<txhash>/, see scripts/record-fixture.js
+const fixturesDir = path.join(__dirname, 'fixtures');
+
+// hand-written transactions live in tests/synthetic/<name>/, for tests which need a whole transaction but don't care
+// whether it happened on chain. they use the same layout as the recorded fixtures
+const syntheticDir = path.join(__dirname, 'synthetic');
+
+export type Fixture = {
+    // where the fixture was loaded from
+    dir: string;
+
+    chain: string;
+    txhash: string;
+
+    trace: TraceResponse;
+
+    // these are stored exactly as returned by the node, so they're parsed the same way the provider would
+    transaction: TransactionResponse;
+    receipt: TransactionReceipt;
+    block: Block;
+
+    // the output of debug_traceTransaction, if the node which recorded the fixture supported it
+    node?: NodeTraces;
+};
+
+const readJson = (dir: string, name: string) => {
+    return JSON.parse(fs.readFileSync(path.join(dir, `${name}.json`), 'utf-8'));
+};
+
+const readNodeTraces = (dir: string): NodeTraces | undefined => {
+    if (!fs.existsSync(path.join(dir, 'debug_callTracer.json'))) return undefined;
+
+    return {
+        calls: readJson(dir, 'debug_callTracer'),
+        prestate: readJson(dir, 'debug_prestateTracer'),
+        structLogs: readJson(dir, 'debug_structLogger'),
+    };
+};
+
+// returns the raw contents of a fixture file, exactly as it would be loaded from disk
+export const readFixtureFile = (fixture: Fixture, name: string): string => {
+    return fs.readFileSync(path.join(fixture.dir, `${name}.json`), 'utf-8');
+};
+
+const loadFixture = (dir: string): Fixture => {
+    const formatter = new ethers.providers.Formatter();
+    const trace: TraceResponse = readJson(dir, 'trace');
+
+    return {
+        dir: dir,
+        chain: trace.chain,
+        txhash: trace.txhash,
+        trace: trace,
+        transaction: formatter.transactionResponse(readJson(dir, 'transaction')),
+        receipt: formatter.receipt(readJson(dir, 'receipt')),
+        block: formatter.block(readJson(dir, 'block')),
+        node: readNodeTraces(dir),
+    };
+};
+
+export const loadFixtures = (): Fixture[] => {
+    if (!fs.existsSync(fixturesDir)) return [];
+
+    return fs.readdirSync(fixturesDir).flatMap((chain) => {
+        return fs.readdirSync(path.join(fixturesDir, chain)).map((txhash) => {
+            return { ...loadFixture(path.join(fixturesDir, chain, txhash)), chain: chain, txhash: txhash };
+        });
+    });
+};
+
+export const loadSyntheticFixture = (name: string): Fixture => {
+    return loadFixture(path.join(syntheticDir, name));
+};
+
+export const loadSyntheticFixtures = (): Fixture[] => {
+    return fs.readdirSync(syntheticDir).map(loadSyntheticFixture);
+};
+
+// the transactions in tests.txt, which should all be recorded as fixtures
+export const listTestTransactions = (): string[] => {
+    return fs
+        .readFileSync(path.join(__dirname, '..', 'tests.txt'), 'utf-8')
+        .split('\n')
+        .map((line) => line.trim())
+        .filter((line) => /^0x[0-9a-fA-F]{64}$/.test(line));
+};
+
+// runs the tests in fn once for every recorded and hand-written fixture which passes the filter
+export const describeFixtures = (fn: (fixture: Fixture) => void, filter?: (fixture: Fixture) => boolean) => {
+    const fixtures = [...loadFixtures(), ...loadSyntheticFixtures()].filter((fixture) => !filter || filter(fixture));
+    if (fixtures.length === 0) {
+        it.todo('record fixtures with scripts/record-fixture.js');
+        return;
+    }
+
+    describe.each(fixtures)('$chain $txhash', fn);
+};
+
+// builders for tests which only need a few trace nodes, anything which isn't given is filled in with a default
+export const makeCall = (
+    path: string,
+    details: Partial<TraceEntryCall> = {},
+    children: TraceEntry[] = [],
+): TraceEntryCall => {
+    return {
+        path: path,
+        type: 'call',
+        variant: 'call',
+        gas: 0,
+        isPrecompile: false,
+        from: '0x0000000000000000000000000000000000000000',
+        to: '0x0000000000000000000000000000000000000001',
+        input: '0x',
+        output: '0x',
+        gasUsed: 0,
+        value: '0',
+        status: 1,
+        codehash: '0x',
+        children: children,
+        ...details,
+    };
+};
+
+export const makeLog = (path: string, details: Partial<TraceEntryLog> = {}): TraceEntryLog => {
+    return { path: path, type: 'log', topics: [], data: '0x', ...details };
+};
+
+export const makeSload = (path: string, details: Partial<TraceEntrySload> = {}): TraceEntrySload => {
+    return {
+        path: path,
+        type: 'sload',
+        slot: ethers.constants.HashZero,
+        value: ethers.constants.HashZero,
+        ...details,
+    };
+};
+
+// wraps the nodes in a trace, giving every contract which is called the abi listed for it in human readable form
+export const makeTrace = (entrypoint: TraceEntryCall, abis: Record<string, string[]> = {}): TraceResponse => {
+    const addresses: TraceResponse['addresses'] = {};
+
+    const visit = (node: TraceEntry) => {
+        if (node.type !== 'call') return;
+
+        const abi = new ethers.utils.Interface(abis[node.to] || []);
+        const fragments = (type: string) =>
+            Object.fromEntries(
+                abi.fragments
+                    .filter((fragment) => fragment.type === type)
+                    .map((fragment) => [fragment.format(), JSON.parse(fragment.format('json'))]),
+            );
+
+        addresses[node.to] = {
+            ...addresses[node.to],
+            [node.codehash]: {
+                label: '',
+                functions: fragments('function'),
+                events: fragments('event'),
+                errors: fragments('error'),
+            },
+        };
+        node.children.forEach(visit);
+    };
+    visit(entrypoint);
+
+    return {
+        chain: 'ethereum',
+        txhash: ethers.constants.HashZero,
+        preimages: {},
+        addresses: addresses,
+        entrypoint: entrypoint,
+    };
+};
@@ -0,0 +1,62 @@
+import { makeCall, makeLog } from './fixtures';
+import { TraceEntry } from '../components/api';
+import { aggregateGasProfile, buildGasProfile, flattenGasProfile, GasFrame } from '../components/gas/profile';
+
+const A = '0x00000000000000000000000000000000000000aa';
+const B = '0x00000000000000000000000000000000000000bb';
+
+const call = (path: string, to: string, input: string, gasUsed: number, children: TraceEntry[] = []) =>
+    makeCall(path, { to: to, input: input, gasUsed: gasUsed }, children);
+
+const sumSelfGas = (root: GasFrame) => flattenGasProfile(root).reduce((total, frame) => total + frame.self, 0);
+
+describe('gas profile', () => {
+    // A.f calls B.g, then calls itself, which calls B.g again
+    const entrypoint = call('0', A, '0x11111111', 100000, [
+        call('0.0', B, '0x22222222', 20000),
+        makeLog('0.1'),
+        call('0.2', A, '0x11111111', 50000, [call('0.2.0', B, '0x22222222', 30000)]),
+    ]);
+
+    it('lays out frames by gas and splits self from inclusive gas', () => {
+        const frames = flattenGasProfile(buildGasProfile(entrypoint)).map((frame) => [
+            frame.node.path,
+            frame.depth,
+            frame.start,
+            frame.inclusive,
+            frame.self,
+        ]);
+
+        expect(frames).toEqual([
+            ['0', 0, 0, 100000, 30000],
+            ['0.0', 1, 0, 20000, 20000],
+            ['0.2', 1, 20000, 50000, 20000],
+            ['0.2.0', 2, 20000, 30000, 30000],
+        ]);
+        expect(sumSelfGas(buildGasProfile(entrypoint))).toEqual(100000);
+    });
+
+    it("doesn't let a refund make self gas negative", () => {
+        // the refund for clearing storage in 0.0 makes 0 look cheaper than its subcall
+        const root = buildGasProfile(call('0', A, '0x11111111', 15000, [call('0.0', B, '0x22222222', 20000)]));
+
+        expect([root.inclusive, root.self, root.children[0].self]).toEqual([15000, 0, 20000]);
+        expect(sumSelfGas(root)).toEqual(20000);
+    });
+
+    it('aggregates gas per function without double counting recursion', () => {
+        const aggregates = aggregateGasProfile(buildGasProfile(entrypoint)).map((aggregate) => [
+            aggregate.address,
+            aggregate.selector,
+            aggregate.node.path,
+            aggregate.calls,
+            aggregate.inclusive,
+            aggregate.self,
+        ]);
+
+        expect(aggregates).toEqual([
+            [A, '0x11111111', '0', 2, 100000, 50000],
+            [B, '0x22222222', '0.0', 2, 50000, 50000],
+        ]);
+    });
+});
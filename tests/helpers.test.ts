@@ -0,0 +1,27 @@
+import { formatUnitsSmartly, formatUsd } from '../components/helpers';
+
+describe('formatUsd', () => {
+    it('formats values with 22 decimals', () => {
+        expect(formatUsd(0)).toEqual('0.0000 USD');
+        expect(formatUsd('15000000000000000000000')).toEqual('1.5000 USD');
+        expect(formatUsd('12345678900000000000000000000')).toEqual('1,234,567.8900 USD');
+    });
+
+    it('formats negative values', () => {
+        expect(formatUsd('-25000000000000000000000')).toEqual('-2.5000 USD');
+    });
+
+    it('truncates to four decimal places', () => {
+        expect(formatUsd('12345')).toEqual('0.0000 USD');
+        expect(formatUsd('10000000000000000123456')).toEqual('1.0000 USD');
+    });
+});
+
+describe('formatUnitsSmartly', () => {
+    it('picks a sensible unit', () => {
+        expect(formatUnitsSmartly(0)).toEqual('0 ETH');
+        expect(formatUnitsSmartly(10000)).toEqual('10000 wei');
+        expect(formatUnitsSmartly('20000000000')).toEqual('20.0 gwei');
+        expect(formatUnitsSmartly('1500000000000000000', 'matic')).toEqual('1.5 MATIC');
+    });
+});
@@ -0,0 +1,154 @@
+import {
+    exportLabelPackCsv,
+    exportLabelPackJson,
+    LabelEntry,
+    listLabels,
+    mergeLabelPack,
+    parseLabelPack,
+    searchLabels,
+    setCustomLabel,
+} from '../components/labels/store';
+import { applyCustomLabel, defaultLabelMetadata } from '../components/metadata/labels';
+
+const WETH = '0xc02aaa39b223fe8d0a0e5c4f27ead9083c756cc2';
+const DAI = '0x6b175474e89094c44da98b954eedeac495271d0f';
+
+describe('label store', () => {
+    it('sets and deletes labels without modifying the original', () => {
+        const original = setCustomLabel({}, 'ethereum', DAI, 'Dai', { category: 'token' });
+
+        const updated = setCustomLabel(original, 'ethereum', WETH.toUpperCase().replace('0X', '0x'), ' WETH ');
+        expect(updated).toEqual({
+            ethereum: {
+                [DAI]: { label: 'Dai', category: 'token', source: 'user' },
+                [WETH]: { label: 'WETH', source: 'user' },
+            },
+        });
+        expect(Object.keys(original.ethereum)).toEqual([DAI]);
+
+        expect(setCustomLabel(updated, 'ethereum', DAI, '')).toEqual({
+            ethereum: { [WETH]: { label: 'WETH', source: 'user' } },
+        });
+    });
+
+    it('keeps the category but takes over provenance when a label is edited', () => {
+        const imported = setCustomLabel({}, 'ethereum', DAI, 'Dai', {
+            category: 'token',
+            color: '#ff0000',
+            source: 'pack',
+            pack: 'team.csv',
+        });
+
+        expect(setCustomLabel(imported, 'ethereum', DAI, 'Maker Dai').ethereum[DAI]).toEqual({
+            label: 'Maker Dai',
+            category: 'token',
+            color: '#ff0000',
+            source: 'user',
+        });
+    });
+
+    it('lists and searches labels per chain', () => {
+        let labels = setCustomLabel({}, 'ethereum', WETH, 'WETH');
+        labels = setCustomLabel(labels, 'ethereum', DAI, 'Dai Stablecoin', { category: 'token' });
+        labels = setCustomLabel(labels, 'polygon', DAI, 'Bridged Dai', { category: 'bridge' });
+
+        expect(listLabels(labels, 'ethereum').map((v) => v.label)).toEqual(['Dai Stablecoin', 'WETH']);
+        expect(listLabels(labels)).toHaveLength(3);
+
+        expect(searchLabels(listLabels(labels), 'dai').map((v) => v.chain)).toEqual(['ethereum', 'polygon']);
+        expect(searchLabels(listLabels(labels), '0xc02a').map((v) => v.label)).toEqual(['WETH']);
+        expect(searchLabels(listLabels(labels), 'bridge').map((v) => v.label)).toEqual(['Bridged Dai']);
+    });
+
+    it('round trips label packs through json and csv', () => {
+        const entries: LabelEntry[] = [
+            { chain: 'ethereum', address: DAI, label: 'Dai, "the stablecoin"', category: 'token', source: 'user' },
+            { chain: 'polygon', address: WETH, label: 'WETH', color: '#00ff00', source: 'user' },
+            { chain: 'polygon', address: DAI, label: 'Dai', source: 'user' },
+        ];
+
+        const imported = (name: string) => entries.map((entry) => ({ ...entry, source: 'pack', pack: name }));
+
+        expect(parseLabelPack('labels.json', exportLabelPackJson(entries), 'ethereum')).toEqual(
+            imported('labels.json'),
+        );
+        expect(parseLabelPack('labels.csv', exportLabelPackCsv(entries), 'ethereum')).toEqual(imported('labels.csv'));
+    });
+
+    it('uses the default chain for packs which do not specify one', () => {
+        const dai = { chain: 'polygon', address: DAI, label: 'Dai', source: 'pack' };
+
+        expect(parseLabelPack('labels.csv', `${DAI},Dai\r\n${WETH},WETH\r\n`, 'polygon')).toEqual([
+            { ...dai, pack: 'labels.csv' },
+            { chain: 'polygon', address: WETH, label: 'WETH', source: 'pack', pack: 'labels.csv' },
+        ]);
+        expect(parseLabelPack('labels.csv', `label,address,category\nDai,${DAI},Exchange`, 'polygon')).toEqual([
+            { ...dai, category: 'exchange', pack: 'labels.csv' },
+        ]);
+        expect(parseLabelPack('labels.json', JSON.stringify({ [DAI]: 'Dai' }), 'polygon')).toEqual([
+            { ...dai, pack: 'labels.json' },
+        ]);
+        expect(parseLabelPack('labels.json', JSON.stringify([{ address: DAI, label: 'Dai' }]), 'polygon')).toEqual([
+            { ...dai, pack: 'labels.json' },
+        ]);
+    });
+
+    it('rejects invalid packs', () => {
+        expect(() => parseLabelPack('labels.json', 'not json', 'ethereum')).toThrow('labels.json is not valid json');
+        expect(() => parseLabelPack('labels.csv', 'chain,address,label\nethereum,0x1234,Nope', 'ethereum')).toThrow(
+            'labels.csv line 2: 0x1234 is not an address',
+        );
+        expect(() => parseLabelPack('labels.csv', `address,label,category\n${DAI},Dai,Bank`, 'ethereum')).toThrow(
+            'Bank is not a category',
+        );
+        expect(() => parseLabelPack('labels.csv', `address,label,color\n${DAI},Dai,red`, 'ethereum')).toThrow(
+            'red is not a color',
+        );
+    });
+
+    it('merges imported labels over existing ones', () => {
+        const existing = setCustomLabel(setCustomLabel({}, 'ethereum', DAI, 'Dai'), 'ethereum', WETH, 'WETH');
+
+        expect(
+            mergeLabelPack(existing, [
+                { chain: 'ethereum', address: DAI, label: 'Maker Dai', source: 'pack', pack: 'a.csv' },
+            ]),
+        ).toEqual({
+            ethereum: {
+                [DAI]: { label: 'Maker Dai', source: 'pack', pack: 'a.csv' },
+                [WETH]: { label: 'WETH', source: 'user' },
+            },
+        });
+    });
+});
+
+describe('label metadata', () => {
+    it('updates the label and its details when a label is edited or cleared', () => {
+        const original = {
+            ...defaultLabelMetadata(),
+            labels: { [DAI]: 'Dai' },
+            details: { [DAI]: { label: 'Dai', source: 'trace' as const } },
+            baseDetails: { [DAI]: { label: 'Dai', source: 'trace' as const } },
+        };
+
+        const edited = applyCustomLabel(original, 'ethereum', DAI, 'Maker Dai');
+        expect(edited.labels[DAI]).toEqual('Maker Dai');
+        expect(edited.details[DAI]).toEqual({ label: 'Maker Dai', source: 'user' });
+        expect(original.labels[DAI]).toEqual('Dai');
+
+        // clearing the custom label shows the label from the trace again, the same as after a reload
+        const cleared = applyCustomLabel(edited, 'ethereum', DAI, '');
+        expect(cleared.labels[DAI]).toEqual('Dai');
+        expect(cleared.details[DAI]).toEqual({ label: 'Dai', source: 'trace' });
+        expect(cleared.customLabels).toEqual({ ethereum: {} });
+    });
+
+    it('removes the label when a custom label for an address without one is cleared', () => {
+        const edited = applyCustomLabel(defaultLabelMetadata(), 'ethereum', WETH, 'Wrapped Ether');
+        expect(edited.labels[WETH]).toEqual('Wrapped Ether');
+
+        const cleared = applyCustomLabel(edited, 'ethereum', WETH, '');
+        expect(cleared.labels[WETH]).toBeUndefined();
+        expect(cleared.details[WETH]).toBeUndefined();
+    });
+});
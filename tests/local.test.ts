@@ -0,0 +1,58 @@
+import { loadSyntheticFixture, readFixtureFile } from './fixtures';
+import { detectLocalFileKind, mergeLocalFiles, parseLocalFile } from '../components/local/files';
+
+const fixtures = ['reverted-deposit', 'reverted-transfer', 'contract-creation', 'native-transfer'].map(
+    loadSyntheticFixture,
+);
+
+describe.each(fixtures)('$chain $txhash', (fixture) => {
+    const read = (name: string) => readFixtureFile(fixture, name);
+
+    it.each(['trace', 'transaction', 'receipt', 'block'])('detects the %s', (name) => {
+        expect(detectLocalFileKind(JSON.parse(read(name)))).toEqual(name);
+    });
+
+    it('parses each file the same way the provider would', () => {
+        const files = ['trace', 'transaction', 'receipt', 'block']
+            .map((name) => parseLocalFile(`${name}.json`, read(name)))
+            .reduce(mergeLocalFiles, {});
+
+        expect(files.trace).toEqual(fixture.trace);
+        expect(files.transaction).toEqual(fixture.transaction);
+        expect(files.receipt).toEqual(fixture.receipt);
+        expect(files.block).toEqual(fixture.block);
+    });
+
+    it('parses a bundle', () => {
+        const bundle = `{"trace": ${read('trace')}, "receipt": ${read('receipt')}}`;
+
+        const files = parseLocalFile('bundle.json', bundle);
+        expect(Object.keys(files).sort()).toEqual(['receipt', 'trace']);
+        expect(files.receipt).toEqual(fixture.receipt);
+    });
+
+    it('parses files which were serialized by ethers', () => {
+        const files = parseLocalFile('receipt.json', JSON.stringify(fixture.receipt));
+        expect(files.receipt).toEqual(fixture.receipt);
+    });
+});
+
+describe('local files', () => {
+    it('rejects files which are not json', () => {
+        expect(() => parseLocalFile('trace.json', 'not json')).toThrow('trace.json is not valid json');
+    });
+
+    it('rejects json which is not a known document', () => {
+        expect(() => parseLocalFile('other.json', '{"foo": "bar"}')).toThrow(
+            "other.json doesn't look like a trace, transaction, receipt, or block",
+        );
+    });
+
+    it('rejects files from different transactions', () => {
+        const [first, second] = fixtures;
+        const trace = parseLocalFile('trace.json', readFixtureFile(first, 'trace'));
+        const receipt = parseLocalFile('receipt.json', readFixtureFile(second, 'receipt'));
+
+        expect(() => mergeLocalFiles(trace, receipt)).toThrow('files refer to different transactions');
+    });
+});
@@ -0,0 +1,179 @@
+import { describeFixtures } from './fixtures';
+import {
+    buildTraceResponse,
+    CallTracerFrame,
+    NodeTraces,
+    STRUCT_LOG_TRACER,
+    StructLog,
+} from '../components/trace/node-trace';
+import { TraceEntryCall } from '../components/api';
+import { ethers } from 'ethers';
+
+describeFixtures(
+    (fixture) => {
+        const node = fixture.node!;
+
+        it('builds the same trace as the backend', () => {
+            const trace = buildTraceResponse(fixture.chain, fixture.txhash, node);
+
+            expect(trace.entrypoint).toEqual(fixture.trace.entrypoint);
+            expect(trace.preimages).toEqual(fixture.trace.preimages);
+
+            // the node doesn't know about abis, so only the addresses and codehashes can be compared
+            const codehashes = (addresses: Record<string, Record<string, unknown>>) =>
+                Object.fromEntries(Object.entries(addresses).map(([address, v]) => [address, Object.keys(v)]));
+            expect(codehashes(trace.addresses)).toEqual(codehashes(fixture.trace.addresses));
+        });
+
+        it('builds the calls and logs without struct logs', () => {
+            const trace = buildTraceResponse(fixture.chain, fixture.txhash, { ...node, structLogs: undefined });
+
+            const withoutStorage = (call: TraceEntryCall): string[] => {
+                return call.children.flatMap((child) => [
+                    `${child.path} ${child.type}`,
+                    ...(child.type === 'call' ? withoutStorage(child) : []),
+                ]);
+            };
+
+            expect(withoutStorage(trace.entrypoint)).toMatchSnapshot();
+            expect(trace.preimages).toEqual({});
+        });
+    },
+    (fixture) => fixture.node !== undefined,
+);
+
+describe('node traces', () => {
+    const EOA = '0x1111111111111111111111111111111111111111';
+    const PROXY = '0x2222222222222222222222222222222222222222';
+    const IMPLEMENTATION = '0x3333333333333333333333333333333333333333';
+
+    const frame = (type: string, from: string, to: string, extra?: Partial<CallTracerFrame>): CallTracerFrame => {
+        return { type, from, to, gas: '0x0', gasUsed: '0x0', input: '0x', ...extra };
+    };
+    const word = (value: number) => ethers.utils.hexZeroPad(ethers.utils.hexlify(value), 32);
+    const op = (op: string, depth: number, stack: string[] = []): StructLog => {
+        return { pc: 0, op, gas: 0, gasCost: 0, depth, stack };
+    };
+
+    it('interleaves logs with calls by their position', () => {
+        const traces: NodeTraces = {
+            calls: frame('CALL', EOA, PROXY, {
+                calls: [frame('CALL', PROXY, EOA), frame('CALL', PROXY, EOA)],
+                logs: [
+                    { address: PROXY, topics: [], data: '0x01', position: '0x0' },
+                    { address: PROXY, topics: [], data: '0x02', position: '0x1' },
+                    { address: PROXY, topics: [], data: '0x03', position: '0x2' },
+                ],
+            }),
+            prestate: {},
+        };
+
+        const trace = buildTraceResponse('ethereum', '0x', traces);
+        expect(trace.entrypoint.children.map((v) => `${v.path} ${v.type}`)).toEqual([
+            '0.0 log',
+            '0.1 call',
+            '0.2 log',
+            '0.3 call',
+            '0.4 log',
+        ]);
+    });
+
+    it('attributes storage to the caller of a delegatecall and rolls back reverted writes', () => {
+        const traces: NodeTraces = {
+            calls: frame('CALL', EOA, PROXY, {
+                calls: [
+                    frame('DELEGATECALL', PROXY, IMPLEMENTATION, { error: 'execution reverted' }),
+                    frame('DELEGATECALL', PROXY, IMPLEMENTATION),
+                ],
+            }),
+            prestate: {
+                [PROXY]: { code: '0x01', storage: { [word(1)]: word(5) } },
+                [IMPLEMENTATION]: { code: '0x02' },
+            },
+            structLogs: {
+                structLogs: [
+                    op('DELEGATECALL', 1),
+                    op('SSTORE', 2, ['0x6', '0x1']),
+                    op('REVERT', 2),
+                    op('DELEGATECALL', 1),
+                    op('SSTORE', 2, ['0x7', '0x1']),
+                    op('STOP', 2),
+                    op('STOP', 1),
+                ],
+            },
+        };
+
+        const trace = buildTraceResponse('ethereum', '0x', traces);
+        const [reverted, succeeded] = trace.entrypoint.children as TraceEntryCall[];
+
+        expect(reverted.status).toEqual(0);
+        expect(reverted.children).toEqual([
+            { path: '0.0.0', type: 'sstore', slot: word(1), oldValue: word(5), newValue: word(6) },
+        ]);
+        expect(succeeded.children).toEqual([
+            { path: '0.1.0', type: 'sstore', slot: word(1), oldValue: word(5), newValue: word(7) },
+        ]);
+    });
+
+    // runs the tracer over the struct logs the same way geth would, with just enough of its api to do so
+    const runTracer = (structLogs: StructLog[]): StructLog[] => {
+        const tracer = new Function('toHex', `return ${STRUCT_LOG_TRACER}`)(ethers.utils.hexlify);
+        const toBigInt = (value: string) => {
+            const number = ethers.BigNumber.from(value);
+            return { toString: (radix: number) => number.toBigInt().toString(radix), valueOf: () => number.toNumber() };
+        };
+
+        structLogs.forEach((log) => {
+            const stack = log.stack || [];
+            const memory = ethers.utils.arrayify('0x' + (log.memory || []).join('').replace(/^0x/, ''));
+            tracer.step(
+                {
+                    op: { toString: () => log.op },
+                    stack: { length: () => stack.length, peek: (n: number) => toBigInt(stack[stack.length - 1 - n]) },
+                    memory: {
+                        length: () => memory.length,
+                        slice: (start: number, end: number) => memory.slice(start, end),
+                    },
+                    getPC: () => log.pc,
+                    getGas: () => log.gas,
+                    getCost: () => log.gasCost,
+                    getDepth: () => log.depth,
+                },
+                undefined,
+            );
+        });
+
+        return tracer.result(undefined, undefined).structLogs;
+    };
+
+    it('builds the same trace from the js tracer as from the struct logger', () => {
+        const memory = ['0x' + word(1).substring(2) + word(2).substring(2)];
+        const structLogs = [
+            op('PUSH1', 1, []),
+            { ...op('SHA3', 1, ['0x20', '0x0']), memory },
+            op('SLOAD', 1, ['0x1']),
+            op('PUSH1', 1, ['0x5']),
+            op('ADD', 1, ['0x5', '0x5']),
+            op('CALL', 1),
+            { ...op('LOG1', 2, ['0x3', '0x20', '0x20']), memory },
+            op('REVERT', 2),
+            op('STOP', 1),
+        ];
+        const traces = (logs: StructLog[]): NodeTraces => ({
+            calls: frame('CALL', EOA, PROXY, { calls: [frame('CALL', PROXY, IMPLEMENTATION, { error: 'reverted' })] }),
+            prestate: { [PROXY]: { code: '0x01' }, [IMPLEMENTATION]: { code: '0x02' } },
+            structLogs: { structLogs: logs },
+        });
+
+        const traced = runTracer(structLogs);
+        expect(traced.map((log) => log.op)).toEqual(['SHA3', 'SLOAD', 'PUSH1', 'CALL', 'LOG1']);
+        expect(traced[0].memory).toEqual([word(1)]);
+
+        const trace = buildTraceResponse('ethereum', '0x', traces(traced));
+        expect(trace).toEqual(buildTraceResponse('ethereum', '0x', traces(structLogs)));
+        expect(trace.preimages).toEqual({ [ethers.utils.keccak256(word(1))]: word(1) });
+        expect(trace.entrypoint.children[1]).toMatchObject({
+            children: [{ type: 'log', topics: [word(3)], data: word(2) }],
+        });
+    });
+});
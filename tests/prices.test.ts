@@ -0,0 +1,149 @@
+import * as React from 'react';
+import { defaultChainConfig } from '../components/Chains';
+import { NATIVE_TOKEN } from '../components/decoder/actions';
+import { formatUsd } from '../components/helpers';
+import {
+    defaultPriceMetadata,
+    fetchPrices,
+    getPriceOfToken,
+    parsePrice,
+    PriceMetadata,
+    PriceSource,
+} from '../components/metadata/prices';
+import { DefiLlamaPriceSource, parseStaticPriceFile, StaticPriceSource } from '../components/metadata/price-sources';
+
+const DAI = '0x6b175474e89094c44da98b954eedeac495271d0f';
+const USDC = '0xa0b86991c6218b36c1d19d4a2e9eb0ce3606eb48';
+const SHIB = '0x95ad61b0a150d79219dcf64e1e6cc01f0b64c4ce';
+
+const priceFile = parseStaticPriceFile({
+    ethereum: {
+        [NATIVE_TOKEN]: { decimals: 18, price: '1650.25' },
+        [DAI]: { decimals: 18, currentPrice: 1, historicalPrice: '0.9998' },
+        [USDC.toUpperCase().replace('0X', '0x')]: { decimals: 6, historicalPrice: 1 },
+        [SHIB]: { decimals: 18, price: '0.00000812345678' },
+    },
+});
+
+// keeps price metadata in a plain variable, the same way react would apply updates to it
+const createPriceMetadata = (source?: PriceSource) => {
+    let state: PriceMetadata = { ...defaultPriceMetadata(), source: source };
+    const updater: React.Dispatch<React.SetStateAction<PriceMetadata>> = (action) => {
+        state = typeof action === 'function' ? action(state) : action;
+    };
+    state.updater = updater;
+    return { get: () => state, updater: updater };
+};
+
+describe('prices', () => {
+    const chainConfig = defaultChainConfig();
+
+    it('keeps more than 4 decimals of precision', () => {
+        expect(parsePrice('0.00000812345678')).toEqual(8123456780000n);
+        expect(parsePrice(0.0000001)).toEqual(100000000000n);
+        expect(parsePrice(1e-7)).toEqual(100000000000n);
+        expect(parsePrice('1650.25')).toEqual(1650250000000000000000n);
+    });
+
+    it('reads prices from a static file', async () => {
+        const source: PriceSource = new StaticPriceSource(priceFile);
+
+        const prices = await source.getPrices(chainConfig, [NATIVE_TOKEN, DAI, USDC, '0x1234'], { timestamp: 0 });
+        expect(Object.keys(prices).sort()).toEqual([DAI, USDC, NATIVE_TOKEN].sort());
+        expect(prices[DAI]).toEqual({
+            decimals: 18,
+            currentPrice: 10n ** 18n,
+            historicalPrice: 999800000000000000n,
+        });
+        expect(prices[USDC]).toEqual({ decimals: 6, currentPrice: undefined, historicalPrice: 10n ** 18n });
+
+        // the native token can be requested by its placeholder address too
+        await expect(
+            source.getPrices(chainConfig, [chainConfig.nativeTokenAddress], { timestamp: 0 }),
+        ).resolves.toEqual({
+            [chainConfig.nativeTokenAddress]: expect.objectContaining({ decimals: 18 }),
+        });
+    });
+
+    it('rejects price files without decimals', () => {
+        expect(() => parseStaticPriceFile({ ethereum: { [DAI]: { price: 1 } } })).toThrow('missing decimals');
+        expect(() => parseStaticPriceFile([])).toThrow('keyed by chain');
+    });
+
+    it('distinguishes unknown prices from zero', async () => {
+        const metadata = createPriceMetadata(new StaticPriceSource(priceFile));
+
+        expect(getPriceOfToken(metadata.get(), DAI, 10n ** 18n, 'historical')).toEqual('pending');
+
+        await fetchPrices(metadata.updater, metadata.get().source, chainConfig, [DAI, USDC, SHIB, '0x1234'], {
+            timestamp: 0,
+        });
+
+        expect(formatUsd(getPriceOfToken(metadata.get(), DAI, 10n ** 18n, 'historical') as bigint)).toEqual(
+            '0.9998 USD',
+        );
+        expect(formatUsd(getPriceOfToken(metadata.get(), USDC, 2500000n, 'historical') as bigint)).toEqual(
+            '2.5000 USD',
+        );
+        expect(getPriceOfToken(metadata.get(), USDC, 2500000n, 'current')).toEqual('unknown');
+        expect(getPriceOfToken(metadata.get(), '0x1234', 1n, 'historical')).toEqual('unknown');
+
+        // a billion shib is only worth a few thousand dollars, which would have been rounded to zero before
+        expect(formatUsd(getPriceOfToken(metadata.get(), SHIB, 10n ** 27n, 'historical') as bigint)).toEqual(
+            '8,123.4567 USD',
+        );
+    });
+
+    it('marks prices as unknown if the source fails', async () => {
+        const metadata = createPriceMetadata({
+            getPrices: () => Promise.reject(new Error('offline')),
+        });
+
+        await expect(
+            fetchPrices(metadata.updater, metadata.get().source, chainConfig, [DAI], { timestamp: 0 }),
+        ).rejects.toThrow('offline');
+        expect(getPriceOfToken(metadata.get(), DAI, 1n, 'historical')).toEqual('unknown');
+    });
+
+    it('fetches current and historical prices from DefiLlama', async () => {
+        const requested: string[] = [];
+        const fetchMock: typeof fetch = jest.fn(async (input: RequestInfo | URL) => {
+            const url = input.toString();
+            requested.push(url);
+            const price = url.includes('/historical/') ? 0.5 : 0.25;
+            return new Response(
+                JSON.stringify({
+                    coins: {
+                        'coingecko:ethereum': { price: price * 4000, symbol: 'ETH', confidence: 0.99, timestamp: 0 },
+                        [`ethereum:${DAI}`]: {
+                            decimals: 18,
+                            price: price,
+                            symbol: 'DAI',
+                            confidence: 0.99,
+                            timestamp: 0,
+                        },
+                    },
+                }),
+            );
+        });
+        const originalFetch = global.fetch;
+        global.fetch = fetchMock;
+
+        try {
+            const prices = await new DefiLlamaPriceSource().getPrices(chainConfig, [NATIVE_TOKEN, DAI, USDC], {
+                timestamp: 1234,
+            });
+
+            expect(requested).toEqual([
+                `https://coins.llama.fi/prices/current/coingecko:ethereum,ethereum:${DAI},ethereum:${USDC}`,
+                `https://coins.llama.fi/prices/historical/1234/coingecko:ethereum,ethereum:${DAI},ethereum:${USDC}`,
+            ]);
+            expect(prices).toEqual({
+                [NATIVE_TOKEN]: { decimals: 18, currentPrice: 1000n * 10n ** 18n, historicalPrice: 2000n * 10n ** 18n },
+                [DAI]: { decimals: 18, currentPrice: 25n * 10n ** 16n, historicalPrice: 5n * 10n ** 17n },
+            });
+        } finally {
+            global.fetch = originalFetch;
+        }
+    });
+});
@@ -0,0 +1,44 @@
+import { loadSyntheticFixture } from './fixtures';
+import { defaultChainConfig } from '../components/Chains';
+import {
+    BackendTraceSource,
+    createTraceSource,
+    LocalTraceSource,
+    rememberLocalTrace,
+    RpcTraceSource,
+    UnavailableTraceSource,
+} from '../components/sources';
+
+describe('trace sources', () => {
+    const chainConfig = defaultChainConfig();
+
+    it('uses the hosted api by default', () => {
+        expect(createTraceSource(chainConfig, { traceSource: 'hosted' })).toBeInstanceOf(BackendTraceSource);
+    });
+
+    it("doesn't fall back to the hosted api if no self-hosted backend is configured", async () => {
+        const source = createTraceSource(chainConfig, { traceSource: 'self-hosted' });
+
+        expect(source).toBeInstanceOf(UnavailableTraceSource);
+        await expect(source.getTrace(chainConfig.id, '0x')).rejects.toThrow("doesn't have a backend url");
+    });
+
+    it('creates the configured source', () => {
+        expect(createTraceSource(chainConfig, { traceSource: 'rpc', rpcUrl: 'http://localhost:8545' })).toBeInstanceOf(
+            RpcTraceSource,
+        );
+        expect(createTraceSource(chainConfig, { traceSource: 'local' })).toBeInstanceOf(LocalTraceSource);
+    });
+
+    it('only finds local traces which have been loaded', async () => {
+        const fixture = loadSyntheticFixture('native-transfer');
+        const source = new LocalTraceSource();
+
+        await expect(source.getTrace(fixture.chain, fixture.txhash)).rejects.toThrow("hasn't been loaded");
+
+        rememberLocalTrace(fixture.trace);
+        await expect(source.getTrace(fixture.chain, fixture.txhash.toUpperCase().replace('0X', '0x'))).resolves.toBe(
+            fixture.trace,
+        );
+    });
+});
@@ -0,0 +1,184 @@
+import { ethers } from 'ethers';
+import { defaultAbiCoder } from '@ethersproject/abi';
+import * as React from 'react';
+import {
+    CallResult,
+    decodeTokenInfo,
+    defaultTokenMetadata,
+    fetchTokenInfos,
+    fetchTokenMetadata,
+    TokenInfo,
+    TokenMetadata,
+} from '../components/metadata/tokens';
+
+const ok = (returnData: string): CallResult => ({ success: true, returnData });
+const failed: CallResult = { success: false, returnData: '0x' };
+
+const encodeString = (value: string) => defaultAbiCoder.encode(['string'], [value]);
+const encodeBytes32 = (value: string) => ethers.utils.formatBytes32String(value);
+const encodeUint = (value: number) => defaultAbiCoder.encode(['uint256'], [value]);
+
+describe('token metadata', () => {
+    it('decodes string and bytes32 names and symbols the same way', () => {
+        expect(
+            decodeTokenInfo([ok(encodeUint(18)), ok(encodeString('DAI')), ok(encodeString('Dai')), failed, failed]),
+        ).toEqual(expect.objectContaining({ decimals: 18, symbol: 'DAI', name: 'Dai' }));
+        expect(
+            decodeTokenInfo([ok(encodeUint(18)), ok(encodeBytes32('MKR')), ok(encodeBytes32('Maker')), failed, failed]),
+        ).toEqual({ decimals: 18, symbol: 'MKR', name: 'Maker', isNft: false, isErc1155: false });
+    });
+
+    it('ignores calls which failed or returned garbage', () => {
+        expect(decodeTokenInfo([ok(encodeUint(1000)), ok('0x1234'), failed, failed, failed])).toEqual({
+            isNft: false,
+            isErc1155: false,
+        });
+    });
+
+    it('detects nfts', () => {
+        const yes = ok(encodeUint(1));
+        const no = ok(encodeUint(0));
+
+        expect(decodeTokenInfo([failed, failed, failed, yes, no])).toMatchObject({ isNft: true, isErc1155: false });
+        expect(decodeTokenInfo([failed, failed, failed, no, yes])).toMatchObject({ isNft: false, isErc1155: true });
+    });
+
+    describe('fetching', () => {
+        const tokens = ['0x6b175474e89094c44da98b954eedeac495271d0f', '0x9f8f72aa9304c8b593d555f12ef6589cc3a579a2'];
+
+        // answers calls as if the first token were DAI and the second MKR
+        const answer = (target: string, callData: string): CallResult => {
+            const selector = callData.substring(0, 10);
+            const isMkr = target.toLowerCase() === tokens[1];
+
+            if (selector === ethers.utils.id('decimals()').substring(0, 10)) return ok(encodeUint(18));
+            if (selector === ethers.utils.id('symbol()').substring(0, 10))
+                return ok(isMkr ? encodeBytes32('MKR') : encodeString('DAI'));
+            if (selector === ethers.utils.id('name()').substring(0, 10))
+                return ok(isMkr ? encodeBytes32('Maker') : encodeString('Dai Stablecoin'));
+            return failed;
+        };
+
+        const multicallInterface = new ethers.utils.Interface([
+            'function aggregate3((address target, bool allowFailure, bytes callData)[] calls) payable returns ((bool success, bytes returnData)[] returnData)',
+        ]);
+
+        const expected = {
+            [tokens[0]]: { decimals: 18, symbol: 'DAI', name: 'Dai Stablecoin', isNft: false, isErc1155: false },
+            [tokens[1]]: { decimals: 18, symbol: 'MKR', name: 'Maker', isNft: false, isErc1155: false },
+        };
+
+        it('batches every call into one multicall', async () => {
+            const call = jest.fn(async (tx: { to: string; data: string }) => {
+                const [calls] = multicallInterface.decodeFunctionData('aggregate3', tx.data);
+                return multicallInterface.encodeFunctionResult('aggregate3', [
+                    calls.map((v: { target: string; callData: string }) => answer(v.target, v.callData)),
+                ]);
+            });
+
+            expect(await fetchTokenInfos({ call }, tokens)).toEqual(expected);
+            expect(call).toHaveBeenCalledTimes(1);
+        });
+
+        it('falls back to individual calls without multicall3', async () => {
+            const call = jest.fn(async (tx: { to: string; data: string }) => {
+                // calling an address without code returns nothing
+                if (tx.to === '0xcA11bde05977b3631167028862bE2a173976CA11') return '0x';
+
+                const result = answer(tx.to, tx.data);
+                if (!result.success) throw new Error('execution reverted');
+                return result.returnData;
+            });
+
+            expect(await fetchTokenInfos({ call }, tokens)).toEqual(expected);
+        });
+
+        describe('caching', () => {
+            const UNDEPLOYED = '0x0000000000000000000000000000000000001234';
+
+            // just enough of indexeddb for the token cache, kept in a map
+            const installTokenCache = (failTransactions: boolean) => {
+                const entries = new Map<string, TokenInfo>();
+                // resolves the request on the next tick, like indexeddb would
+                const later = <T>(result: T) => {
+                    const request: { result?: T; onsuccess?: () => void } = {};
+                    setTimeout(() => {
+                        request.result = result;
+                        request.onsuccess?.();
+                    });
+                    return request;
+                };
+
+                const db = {
+                    transaction: () => {
+                        if (failTransactions) throw new Error('One of the specified object stores was not found.');
+
+                        return {
+                            objectStore: () => ({
+                                get: (key: string) => later(entries.get(key)),
+                                put: (value: TokenInfo, key: string) => entries.set(key, value),
+                            }),
+                        };
+                    },
+                    close: () => {},
+                };
+                global.indexedDB = { open: () => later(db) } as unknown as IDBFactory;
+
+                return entries;
+            };
+
+            // keeps token metadata in a plain variable, the same way react would apply updates to it
+            const createTokenMetadata = () => {
+                let state: TokenMetadata = defaultTokenMetadata();
+                const updater: React.Dispatch<React.SetStateAction<TokenMetadata>> = (action) => {
+                    state = typeof action === 'function' ? action(state) : action;
+                };
+                return { get: () => state, updater: updater };
+            };
+
+            // answers every call individually, and nothing answers for the undeployed token
+            const call = async (tx: { to: string; data: string }) => {
+                if (tx.to === '0xcA11bde05977b3631167028862bE2a173976CA11' || tx.to === UNDEPLOYED) return '0x';
+
+                const result = answer(tx.to, tx.data);
+                if (!result.success) throw new Error('execution reverted');
+                return result.returnData;
+            };
+
+            afterEach(() => {
+                Reflect.deleteProperty(global, 'indexedDB');
+            });
+
+            it('only caches tokens whose decimals or symbol could be read', async () => {
+                const entries = installTokenCache(false);
+                const metadata = createTokenMetadata();
+
+                await fetchTokenMetadata(metadata.updater, { call }, 'ethereum', [tokens[0], UNDEPLOYED]);
+                // the cache is written in the background
+                await new Promise((resolve) => setTimeout(resolve));
+
+                expect(metadata.get().tokens[tokens[0]]).toEqual(expected[tokens[0]]);
+                expect(metadata.get().status[UNDEPLOYED]).toEqual('fetched');
+                expect(Array.from(entries.keys())).toEqual([`ethereum:${tokens[0]}`]);
+            });
+
+            it('fetches everything if the cache is broken', async () => {
+                installTokenCache(true);
+                const metadata = createTokenMetadata();
+
+                const log = jest.spyOn(console, 'log').mockImplementation(() => {});
+                const error = jest.spyOn(console, 'error').mockImplementation(() => {});
+                try {
+                    await fetchTokenMetadata(metadata.updater, { call }, 'ethereum', tokens);
+                    await new Promise((resolve) => setTimeout(resolve));
+                } finally {
+                    log.mockRestore();
+                    error.mockRestore();
+                }
+
+                expect(metadata.get().tokens[tokens[0]]).toEqual(expected[tokens[0]]);
+                expect(metadata.get().tokens[tokens[1]]).toEqual(expected[tokens[1]]);
+            });
+        });
+    });
+});
@@ -0,0 +1,63 @@
+import {
+    applyExpanded,
+    diffExpanded,
+    encodeTraceLink,
+    getLinkBaseExpanded,
+    parseTraceLink,
+} from '../components/trace/link';
+
+describe('trace links', () => {
+    it('round trips the trace state through the hash', () => {
+        const state = {
+            focus: '0.1.2',
+            expand: ['0.1.3'],
+            collapse: ['0.2'],
+            dialogs: ['0.1.2', '0.3'],
+            storage: ['0.1'],
+        };
+
+        const hash = encodeTraceLink(state);
+        expect(hash).toEqual('node=0.1.2&expand=0.1.3&collapse=0.2&dialogs=0.1.2,0.3&storage=0.1');
+        expect(parseTraceLink('#' + hash)).toEqual(state);
+    });
+
+    it('leaves out anything which is empty', () => {
+        expect(encodeTraceLink({ focus: '0.4', expand: [], collapse: [], dialogs: [], storage: [] })).toEqual(
+            'node=0.4',
+        );
+        expect(parseTraceLink('#node=0.4')).toEqual({
+            focus: '0.4',
+            expand: [],
+            collapse: [],
+            dialogs: [],
+            storage: [],
+        });
+    });
+
+    it('only links the nodes which differ from the defaults', () => {
+        const defaults = ['0', '0.1', '0.2'];
+        const base = getLinkBaseExpanded(defaults, '0.5.3.1');
+        expect(base).toEqual(['0', '0.1', '0.2', '0.5', '0.5.3']);
+
+        // expanding everything leading to the focused node doesn't make the link any longer
+        const expanded = ['0', '0.1', '0.5', '0.5.3', '0.5.3.1', '0.7'];
+        const diff = diffExpanded(base, expanded);
+        expect(diff).toEqual({ expand: ['0.5.3.1', '0.7'], collapse: ['0.2'] });
+
+        expect(applyExpanded(base, diff).sort()).toEqual(expanded.sort());
+        expect(diffExpanded(defaults, defaults)).toEqual({ expand: [], collapse: [] });
+    });
+
+    it('ignores hashes which are not trace links', () => {
+        expect(parseTraceLink('')).toBeUndefined();
+        expect(parseTraceLink('#')).toBeUndefined();
+        expect(parseTraceLink('#some-heading')).toBeUndefined();
+        expect(parseTraceLink('#node=<script>&dialogs=0.1,bad')).toEqual({
+            focus: undefined,
+            expand: [],
+            collapse: [],
+            dialogs: ['0.1'],
+            storage: [],
+        });
+    });
+});
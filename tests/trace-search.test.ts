@@ -0,0 +1,50 @@
+import { loadSyntheticFixture } from './fixtures';
+import { buildTraceMetadata } from '../components/helpers';
+import { buildTraceSearchIndex, parseTraceSearchQuery, searchTrace } from '../components/trace/search';
+
+const loadIndex = (name: string, labels: Record<string, string> = {}) => {
+    const fixture = loadSyntheticFixture(name);
+    const trace = JSON.parse(JSON.stringify(fixture.trace));
+    return buildTraceSearchIndex(trace.entrypoint, buildTraceMetadata(trace), labels);
+};
+
+describe('trace search', () => {
+    it('parses field prefixes', () => {
+        expect(parseTraceSearchQuery('  Event:Transfer 0xABC bogus:1  ')).toEqual([
+            { field: 'event', value: 'transfer' },
+            { value: '0xabc' },
+            { value: 'bogus:1' },
+        ]);
+        expect(parseTraceSearchQuery('slot:')).toEqual([]);
+    });
+
+    it('finds calls and events by name, selector, address and label', () => {
+        const index = loadIndex('reverted-transfer', { '0x4444444444444444444444444444444444444444': 'Token' });
+
+        expect(searchTrace(index, 'transfer')).toEqual(['0', '0.0']);
+        expect(searchTrace(index, 'function:transfer')).toEqual(['0']);
+        expect(searchTrace(index, 'event:transfer')).toEqual(['0.0']);
+        expect(searchTrace(index, '0xa9059cbb')).toEqual(['0']);
+        expect(searchTrace(index, 'label:token')).toEqual(['0']);
+        expect(searchTrace(index, 'address:0x4444')).toEqual(['0']);
+        expect(searchTrace(index, 'topic:0xddf252ad')).toEqual(['0.0']);
+    });
+
+    it('finds decoded parameter values', () => {
+        const index = loadIndex('reverted-transfer');
+
+        // the amount is 0x1388
+        expect(searchTrace(index, 'param:5000')).toEqual(['0', '0.0']);
+        expect(searchTrace(index, '0x5555555555555555555555555555555555555555')).toEqual(['0', '0.0']);
+        expect(searchTrace(index, 'function:transfer param:0x5555')).toEqual(['0']);
+        expect(searchTrace(index, 'param:1234567')).toEqual([]);
+    });
+
+    it('finds storage slots', () => {
+        const index = loadIndex('reverted-deposit');
+
+        expect(searchTrace(index, 'slot:0x0000000000000000000000000000000000000000000000000000000000000000')).toContain(
+            '0.0',
+        );
+    });
+});
@@ -0,0 +1,128 @@
+import { makeCall, makeLog, makeSload } from './fixtures';
+import { defaultTraceFilters, flattenTraceTree, getSubtreePaths, TraceFilters } from '../components/trace/flatten';
+
+describe('trace tree', () => {
+    const entrypoint = makeCall('0', {}, [
+        makeCall('0.0', {}, [makeSload('0.0.0'), makeCall('0.0.1')]),
+        makeCall('0.1'),
+    ]);
+
+    const flatten = (expanded: string[], showStorageChanges: string[] = []) =>
+        flattenTraceTree(entrypoint, new Set(expanded), new Set(showStorageChanges)).map((row) => [
+            row.node.path,
+            row.depth,
+            row.expandable,
+        ]);
+
+    it('only includes the children of expanded nodes', () => {
+        expect(flatten([])).toEqual([['0', 0, true]]);
+        expect(flatten(['0'])).toEqual([
+            ['0', 0, true],
+            ['0.0', 1, true],
+            ['0.1', 1, false],
+        ]);
+
+        // a collapsed parent hides its expanded children
+        expect(flatten(['0.0'])).toEqual([['0', 0, true]]);
+    });
+
+    it('only includes storage operations when they are shown', () => {
+        expect(flatten(['0', '0.0'])).toEqual([
+            ['0', 0, true],
+            ['0.0', 1, true],
+            ['0.0.1', 2, false],
+            ['0.1', 1, false],
+        ]);
+        expect(flatten(['0', '0.0'], ['0.0'])).toEqual([
+            ['0', 0, true],
+            ['0.0', 1, true],
+            ['0.0.0', 2, false],
+            ['0.0.1', 2, false],
+            ['0.1', 1, false],
+        ]);
+    });
+
+    it('finds subtrees without matching siblings which share a prefix', () => {
+        expect(getSubtreePaths(['0', '0.1', '0.1.0', '0.10', '0.10.1'], '0.1')).toEqual(['0.1', '0.1.0']);
+    });
+});
+
+describe('trace filters', () => {
+    const TOKEN = '0x00000000000000000000000000000000000000aa';
+
+    // 0 calls a token twice, a precompile, and then makes a call which reverts after sending some ether
+    const entrypoint = makeCall('0', {}, [
+        makeCall('0.0', { variant: 'staticcall', to: TOKEN }),
+        makeCall('0.1', { to: TOKEN }, [makeLog('0.1.0')]),
+        makeCall('0.2', { variant: 'staticcall', isPrecompile: true }),
+        makeCall('0.3', { status: 0 }, [makeCall('0.3.0', { value: '1000' }), makeLog('0.3.1')]),
+    ]);
+    const everything = new Set(['0', '0.1', '0.3']);
+
+    const flatten = (filters: Partial<TraceFilters>, revealed: string[] = []) =>
+        flattenTraceTree(
+            entrypoint,
+            everything,
+            new Set(),
+            { ...defaultTraceFilters(), ...filters },
+            new Set(revealed),
+        ).map((row) =>
+            row.placeholder
+                ? `${row.placeholder.paths.join(',')} (${row.placeholder.calls} calls, ${row.placeholder.logs} logs)`
+                : row.node.path,
+        );
+
+    it('shows everything by default', () => {
+        expect(flatten({})).toEqual(['0', '0.0', '0.1', '0.1.0', '0.2', '0.3', '0.3.0', '0.3.1']);
+    });
+
+    it('collapses consecutive hidden calls into a placeholder', () => {
+        expect(flatten({ hideStaticcalls: true })).toEqual([
+            '0',
+            '0.0 (1 calls, 0 logs)',
+            '0.1',
+            '0.1.0',
+            '0.2 (1 calls, 0 logs)',
+            '0.3',
+            '0.3.0',
+            '0.3.1',
+        ]);
+        expect(flatten({ hidePrecompiles: true, hiddenAddresses: [TOKEN] })).toEqual([
+            '0',
+            '0.0,0.1,0.2 (3 calls, 1 logs)',
+            '0.3',
+            '0.3.0',
+            '0.3.1',
+        ]);
+    });
+
+    it('only shows reverted subtrees and value transfers along with their parents', () => {
+        expect(flatten({ onlyReverted: true })).toEqual([
+            '0',
+            '0.0,0.1,0.2 (3 calls, 1 logs)',
+            '0.3',
+            '0.3.0',
+            '0.3.1',
+        ]);
+        expect(flatten({ onlyValueMoving: true })).toEqual([
+            '0',
+            '0.0,0.1,0.2 (3 calls, 1 logs)',
+            '0.3',
+            '0.3.0',
+            '0.3.1 (0 calls, 1 logs)',
+        ]);
+    });
+
+    it('shows revealed nodes even if they are filtered', () => {
+        expect(flatten({ hiddenAddresses: [TOKEN] }, ['0.1'])).toEqual([
+            '0',
+            '0.0 (1 calls, 0 logs)',
+            '0.1',
+            '0.1.0',
+            '0.2',
+            '0.3',
+            '0.3.0',
+            '0.3.1',
+        ]);
+    });
+});
@@ -0,0 +1,26 @@
+import { loadSyntheticFixture } from './fixtures';
+import { getTransactionStatus } from '../components/metadata/transaction';
+
+describe('getTransactionStatus', () => {
+    const load = (name: string) => {
+        const fixture = loadSyntheticFixture(name);
+        return [
+            { transaction: fixture.transaction, receipt: fixture.receipt, block: fixture.block },
+            fixture.trace,
+        ] as const;
+    };
+
+    it('uses the receipt status', () => {
+        expect(getTransactionStatus(...load('native-transfer'))).toEqual('Succeeded');
+        expect(getTransactionStatus(...load('reverted-transfer'))).toEqual('Failed');
+    });
+
+    it('falls back to the trace for receipts from before byzantium', () => {
+        const [metadata, trace] = load('reverted-deposit');
+
+        expect(metadata.receipt.root).toBeDefined();
+        expect(metadata.receipt.status).toBeUndefined();
+        expect(getTransactionStatus(metadata, trace)).toEqual('Failed');
+        expect(getTransactionStatus(metadata)).toEqual('Unknown');
+    });
+});
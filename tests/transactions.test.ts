@@ -0,0 +1,93 @@
+import { describeFixtures, listTestTransactions, loadFixtures } from './fixtures';
+import { buildTraceMetadata } from '../components/helpers';
+import { decode, format, formatPlain } from '../components/decoder/decoder';
+import { DecoderOutput, isDecoderInput } from '../components/decoder/types';
+import { renderActionText } from '../components/decoder/text';
+import { computeBalanceChanges } from '../components/value-change/ValueChange';
+import { resolveStorageSlots } from '../components/trace/storage';
+import { defaultPriceMetadata } from '../components/metadata/prices';
+import { defaultTokenMetadata } from '../components/metadata/tokens';
+import { TraceEntrySload, TraceEntrySstore } from '../components/api';
+
+describeFixtures((fixture) => {
+    // some of the code under test caches things on the trace, so every test gets a fresh copy
+    const loadTrace = () => {
+        const trace = JSON.parse(JSON.stringify(fixture.trace));
+        return [trace, buildTraceMetadata(trace)] as const;
+    };
+
+    it('parses the receipt', () => {
+        expect({
+            status: fixture.receipt.status,
+            byzantium: fixture.receipt.byzantium,
+            contractAddress: fixture.receipt.contractAddress,
+            gasUsed: fixture.receipt.gasUsed.toString(),
+        }).toMatchSnapshot();
+    });
+
+    it('decodes actions', () => {
+        const [trace, metadata] = loadTrace();
+        const [output, requestedMetadata, coverage] = decode(trace, metadata);
+
+        const opts = {
+            timestamp: fixture.block.timestamp,
+            chain: fixture.chain,
+            prices: defaultPriceMetadata(),
+            tokens: defaultTokenMetadata(),
+        };
+
+        const flatten = (output: DecoderOutput): any[] => {
+            const path = isDecoderInput(output.node) ? output.node.id : output.node.logIndex.toString();
+
+            return [
+                ...output.results.map((action) => ({
+                    path: path,
+                    action: formatPlain(action),
+                    text: renderActionText(format(action, opts)),
+                })),
+                ...output.children.flatMap(flatten),
+            ];
+        };
+
+        expect({
+            actions: flatten(output),
+            tokens: Array.from(requestedMetadata.tokens),
+            coverage: {
+                total: coverage.total,
+                unexplained: coverage.unexplained.map((v) => ({ type: v.type, path: v.path })),
+            },
+        }).toMatchSnapshot();
+    });
+
+    it('computes value changes', () => {
+        const [trace, metadata] = loadTrace();
+        const [changes, tokens] = computeBalanceChanges(trace.entrypoint, metadata);
+
+        expect({
+            changes: Object.fromEntries(
+                Object.entries(changes).map(([address, deltas]) => [
+                    address,
+                    Object.fromEntries(Object.entries(deltas).map(([token, delta]) => [token, delta.toString()])),
+                ]),
+            ),
+            tokens: Array.from(tokens),
+        }).toMatchSnapshot();
+    });
+
+    it('resolves storage slots', () => {
+        const [trace, metadata] = loadTrace();
+        const storageOps = Object.values(metadata.nodesByPath).filter(
+            (node): node is TraceEntrySload | TraceEntrySstore => node.type === 'sload' || node.type === 'sstore',
+        );
+
+        expect(resolveStorageSlots(trace, metadata, storageOps)).toMatchSnapshot();
+    });
+});
+
+describe('tests.txt', () => {
+    const recorded = new Set(loadFixtures().map((fixture) => fixture.txhash));
+
+    listTestTransactions()
+        .filter((txhash) => !recorded.has(txhash))
+        .forEach((txhash) => it.todo(`record ${txhash}`));
+});
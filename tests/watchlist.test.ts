@@ -0,0 +1,51 @@
+import { makeCall, makeLog } from './fixtures';
+import { findWatchlistTouches, setWatched } from '../components/watchlist/watchlist';
+
+const WETH = '0xc02aaa39b223fe8d0a0e5c4f27ead9083c756cc2';
+const DAI = '0x6b175474e89094c44da98b954eedeac495271d0f';
+
+describe('watchlist', () => {
+    it('adds and removes addresses without modifying the original', () => {
+        const original = setWatched({}, 'ethereum', DAI.toUpperCase().replace('0X', '0x'), true);
+        expect(original).toEqual({ ethereum: [DAI] });
+
+        const updated = setWatched(setWatched(original, 'ethereum', WETH, true), 'ethereum', WETH, true);
+        expect(updated).toEqual({ ethereum: [DAI, WETH] });
+        expect(original).toEqual({ ethereum: [DAI] });
+
+        expect(setWatched(updated, 'ethereum', DAI, false)).toEqual({ ethereum: [WETH] });
+    });
+
+    it('finds logs emitted through a delegatecall and addresses passed in calldata', () => {
+        const entrypoint = makeCall(
+            '0',
+            {
+                from: '0x0000000000000000000000000000000000000002',
+                to: WETH,
+                input: '0xa9059cbb000000000000000000000000' + DAI.substring(2),
+            },
+            [
+                makeCall('0.0', { variant: 'delegatecall', from: WETH }, [
+                    makeLog('0.0.0', {
+                        topics: [
+                            '0xddf252ad1be2c89b69c2b068fc378daa952ba7f163c4a11628f55a4df523b3ef',
+                            '0x000000000000000000000000' + DAI.substring(2),
+                        ],
+                    }),
+                ]),
+            ],
+        );
+
+        expect(findWatchlistTouches(entrypoint, [WETH, DAI])).toEqual({
+            [WETH]: [
+                { path: '0', kind: 'callee' },
+                { path: '0.0', kind: 'caller' },
+                { path: '0.0.0', kind: 'log-emitter' },
+            ],
+            [DAI]: [
+                { path: '0', kind: 'calldata' },
+                { path: '0.0.0', kind: 'log-topic' },
+            ],
+        });
+    });
+});